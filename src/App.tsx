@@ -1,17 +1,38 @@
-import React from 'react'
 import { BrowserRouter as Router, Routes, Route } from 'react-router-dom'
 import TrajViewer from './components/traj-viewer'
 import TraceList from './components/TraceList'
+import TraceCompare from './components/TraceCompare'
+import WorkflowDashboard from './components/WorkflowDashboard'
+import SessionList from './components/SessionList'
+import SessionDetail from './components/SessionDetail'
+import RedactionSettings from './components/RedactionSettings'
+import ReviewQueue from './components/ReviewQueue'
+import LoginPage from './components/LoginPage'
+import RequireAuth from './components/RequireAuth'
 
 const App = () => {
   return (
     <Router>
       <Routes>
-        <Route path="/trace/:traceId" element={<TrajViewer />} />
-        <Route path="/" element={<TraceList />} />
+        <Route path="/login" element={<LoginPage />} />
+        {/* Uploaded files are read in the browser, so no sign-in is needed */}
+        <Route path="/local" element={<TrajViewer />} />
+        <Route element={<RequireAuth />}>
+          <Route path="/trace/:traceId" element={<TrajViewer />} />
+          <Route path="/otlp/:traceId" element={<TrajViewer source="otlp" />} />
+          <Route path="/compare/:traceA/:traceB" element={<TraceCompare />} />
+          <Route path="/sessions" element={<SessionList />} />
+          <Route path="/sessions/:groupId" element={<SessionDetail />} />
+          <Route path="/sessions/:groupId/trace/:traceId" element={<TrajViewer />} />
+          <Route path="/dashboard" element={<WorkflowDashboard />} />
+          <Route path="/settings/redaction" element={<RedactionSettings />} />
+          <Route path="/review" element={<ReviewQueue />} />
+          <Route path="/review/trace/:traceId" element={<TrajViewer review />} />
+          <Route path="/" element={<TraceList />} />
+        </Route>
       </Routes>
     </Router>
   )
 }
 
-export default App
\ No newline at end of file
+export default App
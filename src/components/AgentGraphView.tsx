@@ -0,0 +1,292 @@
+import React, { useMemo, useState } from 'react';
+import { layoutAgentGraph } from '../services/agentGraph';
+import type { AgentGraph, AgentGraphEdge, AgentGraphNode, NodePosition } from '../services/agentGraph';
+import { getSpanDuration } from '../services/spanLayout';
+import type { SpanNode } from '../services/traceTree';
+import { formatDuration, getSpanIcon } from './spanDisplay';
+
+interface AgentGraphViewProps {
+  graph: AgentGraph;
+  spans: Map<string, SpanNode>;
+  selectedSpanId: string | null;
+  onSelect: (spanId: string) => void;
+}
+
+type FocusedItem = { type: 'node'; item: AgentGraphNode } | { type: 'edge'; item: AgentGraphEdge };
+
+const COLORS = {
+  agent: '#60A5FA',
+  tool: '#34D399',
+  handoff: '#F97316',
+  unused: '#4B5563',
+  error: '#F87171',
+  text: '#E5E7EB',
+  muted: '#9CA3AF'
+};
+
+const truncate = (text: string, max: number) => (text.length > max ? `${text.slice(0, max - 1)}…` : text);
+
+const center = (position: NodePosition) => ({
+  x: position.x + position.width / 2,
+  y: position.y + position.height / 2
+});
+
+// Arc on the left of the agent column, leaving and entering at the left edge
+const getArc = (from: NodePosition, to: NodePosition, depth: number) => {
+  const x = from.x;
+  const fromY = center(from).y;
+  const toY = center(to).y;
+  const shift = from === to ? 8 : 5;
+  const startY = toY >= fromY ? fromY + shift : fromY - shift;
+  const endY = toY > fromY || from === to ? toY - shift : toY + shift;
+  return {
+    path: `M ${x} ${startY} C ${x - depth} ${startY}, ${x - depth} ${endY}, ${x} ${endY}`,
+    labelX: x - depth * 0.75,
+    labelY: (startY + endY) / 2
+  };
+};
+
+const getSpanLabel = (span: SpanNode) =>
+  span.span_data.type === 'handoff'
+    ? `Handoff → ${span.span_data.to_agent ?? 'unknown'}`
+    : span.span_data.name || span.span_data.type;
+
+const describe = (focused: FocusedItem, nodeNames: Map<string, string>) => {
+  if (focused.type === 'node') {
+    const { item } = focused;
+    if (item.declaredOnly) return `${item.name} is declared but never ran`;
+    const runs = `${item.spanIds.length} ${item.kind === 'agent' ? 'run' : 'call'}${item.spanIds.length === 1 ? '' : 's'}`;
+    return `${item.kind === 'agent' ? 'Agent' : 'Tool'} ${item.name} · ${runs}`;
+  }
+  const { item } = focused;
+  const from = nodeNames.get(item.from) ?? item.from;
+  const to = nodeNames.get(item.to) ?? item.to;
+  if (!item.used) {
+    return item.kind === 'handoff'
+      ? `${from} could hand off to ${to} but never did`
+      : `${from} could call ${to} but never did`;
+  }
+  return item.kind === 'handoff'
+    ? `Handoff ${from} → ${to} · ${item.count}×`
+    : `${from} called ${to} · ${item.count}×`;
+};
+
+/**
+ * Agents, their handoffs and the tools they called as a graph. Clicking a
+ * node or edge selects its first span in the tree; clicking it again steps
+ * through the rest.
+ */
+const AgentGraphView: React.FC<AgentGraphViewProps> = ({ graph, spans, selectedSpanId, onSelect }) => {
+  // Kept by id and looked up in the latest graph, which is rebuilt as spans arrive
+  const [focusedId, setFocusedId] = useState<{ type: FocusedItem['type']; id: string } | null>(null);
+  const layout = useMemo(() => layoutAgentGraph(graph), [graph]);
+  const nodeNames = useMemo(() => new Map(graph.nodes.map(node => [node.id, node.name])), [graph]);
+
+  if (graph.nodes.length === 0) {
+    return (
+      <div className="text-center text-sm text-gray-500 py-8">
+        No agent, handoff or tool spans in this trace.
+      </div>
+    );
+  }
+
+  const focusedNode = focusedId?.type === 'node' ? graph.nodes.find(node => node.id === focusedId.id) : undefined;
+  const focusedEdge = focusedId?.type === 'edge' ? graph.edges.find(edge => edge.id === focusedId.id) : undefined;
+  const focused: FocusedItem | null =
+    focusedNode ? { type: 'node', item: focusedNode } :
+    focusedEdge ? { type: 'edge', item: focusedEdge } :
+    null;
+
+  const activate = (next: FocusedItem) => {
+    setFocusedId({ type: next.type, id: next.item.id });
+    const { spanIds } = next.item;
+    if (spanIds.length === 0) return;
+    const index = selectedSpanId ? spanIds.indexOf(selectedSpanId) : -1;
+    onSelect(spanIds[(index + 1) % spanIds.length]);
+  };
+
+  const isActive = (item: AgentGraphNode | AgentGraphEdge) =>
+    focused?.item === item || (selectedSpanId !== null && item.spanIds.includes(selectedSpanId));
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap items-center gap-4 text-xs text-gray-500">
+        <span className="flex items-center gap-1.5">
+          <span className="h-2.5 w-2.5 rounded-sm border border-blue-400" /> Agent
+        </span>
+        <span className="flex items-center gap-1.5">
+          <span className="h-2.5 w-2.5 rounded-sm border border-emerald-400" /> Tool
+        </span>
+        <span className="flex items-center gap-1.5">
+          <span className="h-px w-4 bg-orange-500" /> Handoff
+        </span>
+        <span className="flex items-center gap-1.5">
+          <span className="w-4 border-t border-dashed border-gray-600" /> Available, unused
+        </span>
+      </div>
+
+      <div className="overflow-x-auto custom-scrollbar">
+        <svg
+          width={layout.width}
+          height={layout.height}
+          viewBox={`0 0 ${layout.width} ${layout.height}`}
+          className="block"
+          fontFamily="inherit"
+        >
+          <defs>
+            {(['handoff', 'unused'] as const).map(kind => (
+              <marker
+                key={kind}
+                id={`agent-graph-arrow-${kind}`}
+                viewBox="0 0 10 10"
+                refX="9"
+                refY="5"
+                markerWidth="7"
+                markerHeight="7"
+                orient="auto-start-reverse"
+              >
+                <path d="M 0 0 L 10 5 L 0 10 z" fill={COLORS[kind]} />
+              </marker>
+            ))}
+          </defs>
+
+          {graph.edges.map(edge => {
+            const from = layout.positions.get(edge.from);
+            const to = layout.positions.get(edge.to);
+            if (!from || !to) return null;
+            const active = isActive(edge);
+            const color = edge.used ? (edge.kind === 'handoff' ? COLORS.handoff : COLORS.tool) : COLORS.unused;
+            const dash = edge.used ? undefined : '4 4';
+
+            if (edge.kind === 'tool') {
+              const start = { x: from.x + from.width, y: center(from).y };
+              const end = { x: to.x, y: center(to).y };
+              const midX = (start.x + end.x) / 2;
+              const path = `M ${start.x} ${start.y} C ${midX} ${start.y}, ${midX} ${end.y}, ${end.x} ${end.y}`;
+              return (
+                <g key={edge.id} className="cursor-pointer" onClick={() => activate({ type: 'edge', item: edge })}>
+                  <path d={path} fill="none" stroke="transparent" strokeWidth={10} />
+                  <path d={path} fill="none" stroke={color} strokeOpacity={active ? 1 : 0.5} strokeWidth={active ? 2 : 1} strokeDasharray={dash} />
+                </g>
+              );
+            }
+
+            const arc = getArc(from, to, layout.arcDepths.get(edge.id) ?? 36);
+            return (
+              <g key={edge.id} className="cursor-pointer" onClick={() => activate({ type: 'edge', item: edge })}>
+                <title>{describe({ type: 'edge', item: edge }, nodeNames)}</title>
+                <path d={arc.path} fill="none" stroke="transparent" strokeWidth={12} />
+                <path
+                  d={arc.path}
+                  fill="none"
+                  stroke={color}
+                  strokeWidth={active ? 2.5 : 1.5}
+                  strokeDasharray={dash}
+                  markerEnd={`url(#agent-graph-arrow-${edge.used ? 'handoff' : 'unused'})`}
+                />
+                {edge.count > 1 && (
+                  <g>
+                    <rect x={arc.labelX - 13} y={arc.labelY - 9} width={26} height={18} rx={9} fill="#1C1C1C" stroke={color} />
+                    <text x={arc.labelX} y={arc.labelY + 4} textAnchor="middle" fontSize={11} fill={color}>
+                      ×{edge.count}
+                    </text>
+                  </g>
+                )}
+              </g>
+            );
+          })}
+
+          {graph.nodes.map(node => {
+            const position = layout.positions.get(node.id);
+            if (!position) return null;
+            const active = isActive(node);
+            const baseColor = node.kind === 'agent' ? COLORS.agent : COLORS.tool;
+            const stroke = node.declaredOnly ? COLORS.unused : node.errorCount > 0 ? COLORS.error : baseColor;
+            const isAgent = node.kind === 'agent';
+            const count = node.spanIds.length;
+            const meta = isAgent
+              ? [count > 1 && `${count} runs`, node.errorCount > 0 && `${node.errorCount} failed`].filter(Boolean).join(' · ')
+              : '';
+
+            return (
+              <g key={node.id} className="cursor-pointer" onClick={() => activate({ type: 'node', item: node })}>
+                <title>{describe({ type: 'node', item: node }, nodeNames)}</title>
+                <rect
+                  x={position.x}
+                  y={position.y}
+                  width={position.width}
+                  height={position.height}
+                  rx={isAgent ? 8 : position.height / 2}
+                  fill={active ? '#2A2A2A' : isAgent ? '#232323' : '#1C1C1C'}
+                  stroke={stroke}
+                  strokeWidth={active ? 2 : 1}
+                  strokeDasharray={node.declaredOnly ? '4 3' : undefined}
+                />
+                <text
+                  x={position.x + 12}
+                  y={isAgent && meta ? position.y + 17 : center(position).y + 4}
+                  fontSize={isAgent ? 13 : 12}
+                  fontWeight={isAgent ? 600 : 400}
+                  fill={node.declaredOnly ? COLORS.muted : COLORS.text}
+                  fontFamily={isAgent ? undefined : 'monospace'}
+                >
+                  {truncate(node.name, isAgent ? 20 : 16)}
+                </text>
+                {meta && (
+                  <text x={position.x + 12} y={position.y + 32} fontSize={11} fill={node.errorCount > 0 ? COLORS.error : COLORS.muted}>
+                    {meta}
+                  </text>
+                )}
+                {!isAgent && count > 1 && (
+                  <text x={position.x + position.width - 10} y={center(position).y + 4} fontSize={11} textAnchor="end" fill={COLORS.muted}>
+                    ×{count}
+                  </text>
+                )}
+              </g>
+            );
+          })}
+        </svg>
+      </div>
+
+      {focused ? (
+        <div className="rounded-lg border border-[#2A2A2A]">
+          <div className="px-4 py-2.5 border-b border-[#2A2A2A] text-[13px] text-gray-200">
+            {describe(focused, nodeNames)}
+          </div>
+          {focused.item.spanIds.length > 0 && (
+            <div className="divide-y divide-[#2A2A2A] max-h-64 overflow-y-auto custom-scrollbar">
+              {focused.type === 'edge' && !focused.item.used && (
+                <div className="px-4 py-2 text-xs text-gray-500">Declared on:</div>
+              )}
+              {focused.item.spanIds.map(spanId => {
+                const span = spans.get(spanId);
+                if (!span) return null;
+                return (
+                  <button
+                    key={spanId}
+                    className={`w-full flex items-center gap-2 px-4 py-2 text-left clickable ${
+                      spanId === selectedSpanId ? 'bg-[#2A2A2A]' : 'hover:bg-[#232323]'
+                    }`}
+                    onClick={() => onSelect(spanId)}
+                  >
+                    {getSpanIcon(span)}
+                    <span className="flex-1 text-sm text-gray-200 truncate">{getSpanLabel(span)}</span>
+                    {span.error && <span className="text-xs text-red-400">error</span>}
+                    <span className="text-xs text-gray-500 font-mono">{formatDuration(getSpanDuration(span))}</span>
+                  </button>
+                );
+              })}
+            </div>
+          )}
+        </div>
+      ) : (
+        <p className="text-xs text-gray-500">
+          Click an agent, tool or handoff to jump to its spans. Dashed paths were available to an agent
+          (its declared tools and handoffs) but not taken in this run.
+        </p>
+      )}
+    </div>
+  );
+};
+
+export default AgentGraphView;
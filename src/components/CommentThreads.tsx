@@ -0,0 +1,188 @@
+import React, { useState } from 'react';
+import { Check, CornerDownRight, RotateCcw } from 'lucide-react';
+import type { NewTraceComment, TraceComment } from '../services/api';
+import { UnauthorizedError } from '../services/auth';
+import type { CommentThread } from '../services/comments';
+
+interface CommentThreadsProps {
+  threads: CommentThread[];
+  // The span the threads are on, or null for the trace
+  spanId: string | null;
+  onAdd: (comment: NewTraceComment) => Promise<void>;
+  onResolve: (commentId: string, resolved: boolean) => Promise<void>;
+}
+
+interface CommentFormProps {
+  placeholder: string;
+  submitLabel: string;
+  onSubmit: (body: string) => Promise<void>;
+  onCancel?: () => void;
+  autoFocus?: boolean;
+}
+
+const formatTime = (value: string) =>
+  new Date(value).toLocaleString(undefined, { month: 'short', day: 'numeric', hour: '2-digit', minute: '2-digit' });
+
+// Failed saves keep the draft so nothing typed is lost
+const CommentForm: React.FC<CommentFormProps> = ({ placeholder, submitLabel, onSubmit, onCancel, autoFocus }) => {
+  const [body, setBody] = useState('');
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const submit = async () => {
+    if (!body.trim() || saving) return;
+    setSaving(true);
+    try {
+      await onSubmit(body.trim());
+      setBody('');
+      setError(null);
+    } catch (error) {
+      // RequireAuth takes care of the redirect once the session is cleared.
+      if (error instanceof UnauthorizedError) return;
+      console.error('Error saving comment:', error);
+      setError('Failed to save your comment. Please try again.');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="space-y-2">
+      <textarea
+        value={body}
+        onChange={(e) => setBody(e.target.value)}
+        onKeyDown={(e) => {
+          if (e.key === 'Enter' && (e.metaKey || e.ctrlKey)) submit();
+          if (e.key === 'Escape' && onCancel) onCancel();
+        }}
+        placeholder={placeholder}
+        autoFocus={autoFocus}
+        rows={2}
+        className="w-full resize-y rounded-md border border-[#2A2A2A] bg-[#232323] px-3 py-2 text-sm text-gray-200 placeholder-gray-500 focus:outline-none focus:border-blue-500/60"
+      />
+      {error && <p className="text-xs text-red-400">{error}</p>}
+      <div className="flex items-center justify-end gap-2">
+        {onCancel && (
+          <button
+            className="px-2.5 py-1 rounded text-xs text-gray-400 hover:text-gray-300 hover:bg-gray-800 clickable"
+            onClick={onCancel}
+          >
+            Cancel
+          </button>
+        )}
+        <button
+          className="px-2.5 py-1 rounded text-xs bg-blue-500/20 text-blue-300 hover:bg-blue-500/30 disabled:opacity-50 clickable"
+          disabled={!body.trim() || saving}
+          onClick={submit}
+          title="Ctrl+Enter"
+        >
+          {saving ? 'Saving…' : submitLabel}
+        </button>
+      </div>
+    </div>
+  );
+};
+
+const CommentBody: React.FC<{ comment: TraceComment }> = ({ comment }) => (
+  <div className="space-y-1">
+    <div className="flex items-baseline gap-2">
+      <span className="text-sm font-medium text-gray-200">{comment.author}</span>
+      <span className="text-xs text-gray-500">{formatTime(comment.created_at)}</span>
+    </div>
+    <p className="text-sm text-gray-300 whitespace-pre-wrap break-words">{comment.body}</p>
+  </div>
+);
+
+/**
+ * Comment threads on a span or the trace, with replies, resolving and a box
+ * for starting a new thread. Resolved threads are folded away.
+ */
+const CommentThreads: React.FC<CommentThreadsProps> = ({ threads, spanId, onAdd, onResolve }) => {
+  const [replyingTo, setReplyingTo] = useState<string | null>(null);
+  const [showResolved, setShowResolved] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const resolvedCount = threads.filter(thread => thread.root.resolved).length;
+  const visible = showResolved ? threads : threads.filter(thread => !thread.root.resolved);
+
+  const toggleResolved = async (comment: TraceComment) => {
+    try {
+      await onResolve(comment.id, !comment.resolved);
+      setError(null);
+    } catch (error) {
+      // RequireAuth takes care of the redirect once the session is cleared.
+      if (error instanceof UnauthorizedError) return;
+      console.error('Error updating comment:', error);
+      setError('Failed to update the thread. Please try again.');
+    }
+  };
+
+  return (
+    <div className="space-y-3">
+      {visible.map(({ root, replies }) => (
+        <div
+          key={root.id}
+          className={`rounded-md border border-[#2A2A2A] p-3 space-y-3 ${root.resolved ? 'opacity-60' : ''}`}
+        >
+          <CommentBody comment={root} />
+          {replies.length > 0 && (
+            <div className="space-y-3 pl-3 border-l border-[#2A2A2A]">
+              {replies.map(reply => <CommentBody key={reply.id} comment={reply} />)}
+            </div>
+          )}
+          {replyingTo === root.id ? (
+            <CommentForm
+              placeholder="Reply…"
+              submitLabel="Reply"
+              autoFocus
+              onSubmit={async (body) => {
+                await onAdd({ span_id: spanId, parent_id: root.id, body });
+                setReplyingTo(null);
+              }}
+              onCancel={() => setReplyingTo(null)}
+            />
+          ) : (
+            <div className="flex items-center gap-3 text-xs">
+              {!root.resolved && (
+                <button
+                  className="flex items-center gap-1 text-gray-400 hover:text-gray-300 clickable"
+                  onClick={() => setReplyingTo(root.id)}
+                >
+                  <CornerDownRight className="h-3.5 w-3.5" />
+                  Reply
+                </button>
+              )}
+              <button
+                className="flex items-center gap-1 text-gray-400 hover:text-gray-300 clickable"
+                onClick={() => toggleResolved(root)}
+              >
+                {root.resolved ? <RotateCcw className="h-3.5 w-3.5" /> : <Check className="h-3.5 w-3.5" />}
+                {root.resolved ? 'Reopen' : 'Resolve'}
+              </button>
+              {root.resolved && root.resolved_by && (
+                <span className="text-gray-500">Resolved by {root.resolved_by}</span>
+              )}
+            </div>
+          )}
+        </div>
+      ))}
+
+      {resolvedCount > 0 && (
+        <button
+          className="text-xs text-gray-500 hover:text-gray-400 clickable"
+          onClick={() => setShowResolved(prev => !prev)}
+        >
+          {showResolved ? 'Hide' : 'Show'} {resolvedCount} resolved {resolvedCount === 1 ? 'thread' : 'threads'}
+        </button>
+      )}
+      {error && <p className="text-xs text-red-400">{error}</p>}
+
+      <CommentForm
+        placeholder={spanId ? 'Comment on this span…' : 'Comment on this trace…'}
+        submitLabel="Comment"
+        onSubmit={(body) => onAdd({ span_id: spanId, parent_id: null, body })}
+      />
+    </div>
+  );
+};
+
+export default CommentThreads;
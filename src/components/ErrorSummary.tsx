@@ -0,0 +1,54 @@
+import React from 'react';
+import { AlertCircle, X } from 'lucide-react';
+import type { SpanNode } from '../services/traceTree';
+import { getSpanIcon } from './spanDisplay';
+
+interface ErrorSummaryProps {
+  errors: SpanNode[];
+  selectedSpanId: string | null;
+  onSelect: (spanId: string) => void;
+  onClose: () => void;
+}
+
+// Dropdown listing every failing span in the trace; clicking one jumps to it
+const ErrorSummary: React.FC<ErrorSummaryProps> = ({ errors, selectedSpanId, onSelect, onClose }) => (
+  <div className="absolute right-0 top-full mt-2 w-96 max-h-[60vh] overflow-y-auto custom-scrollbar rounded-lg border border-[#2A2A2A] bg-[#1C1C1C] shadow-xl z-50">
+    <div className="flex items-center justify-between px-4 py-3 border-b border-[#2A2A2A]">
+      <h3 className="text-[13px] font-semibold text-gray-50">
+        {errors.length} failing {errors.length === 1 ? 'span' : 'spans'}
+      </h3>
+      <button
+        className="text-gray-500 hover:text-gray-400 p-1 rounded hover:bg-gray-800 clickable"
+        onClick={onClose}
+      >
+        <X className="h-4 w-4" />
+      </button>
+    </div>
+    <div className="divide-y divide-[#2A2A2A]">
+      {errors.map(span => (
+        <button
+          key={span.id}
+          className={`w-full text-left px-4 py-3 space-y-1 clickable ${
+            span.id === selectedSpanId ? 'bg-[#2A2A2A]' : 'hover:bg-[#232323]'
+          }`}
+          onClick={() => onSelect(span.id)}
+        >
+          <div className="flex items-center gap-2 min-w-0">
+            {getSpanIcon(span)}
+            <span className="text-sm text-gray-200 truncate">
+              {span.span_data.type === 'handoff'
+                ? `Handoff → ${span.span_data.to_agent}`
+                : span.span_data.name || span.span_data.type}
+            </span>
+          </div>
+          <div className="flex items-start gap-2">
+            <AlertCircle className="h-3.5 w-3.5 text-red-400 flex-shrink-0 mt-0.5" />
+            <span className="text-xs text-red-300 break-words line-clamp-2">{span.error?.message}</span>
+          </div>
+        </button>
+      ))}
+    </div>
+  </div>
+);
+
+export default ErrorSummary;
@@ -0,0 +1,160 @@
+import React, { useEffect, useState } from 'react';
+import { ArrowRight, Tag, ThumbsDown, ThumbsUp } from 'lucide-react';
+import type { TraceEvaluation, TraceVerdict } from '../services/api';
+import type { TraceSpan } from '../services/spans';
+import { RUBRIC_CRITERIA, RUBRIC_SCALE } from '../services/evaluation';
+
+interface EvaluationPanelProps {
+  // Null while loading
+  evaluation: TraceEvaluation | null;
+  saving: boolean;
+  error: string | null;
+  onChange: (change: (prev: TraceEvaluation) => TraceEvaluation) => void;
+  spans: Map<string, TraceSpan>;
+  selectedSpanId: string | null;
+  onSelectSpan: (spanId: string) => void;
+  // Set in review mode, to move on to the next trace in the queue
+  onNext?: () => void;
+}
+
+const VERDICTS: { value: TraceVerdict; label: string; icon: typeof ThumbsUp; active: string }[] = [
+  { value: 'up', label: 'Good run', icon: ThumbsUp, active: 'bg-emerald-500/15 border-emerald-500/40 text-emerald-400' },
+  { value: 'down', label: 'Bad run', icon: ThumbsDown, active: 'bg-red-500/15 border-red-500/40 text-red-400' }
+];
+
+/**
+ * The reviewer's grading of the whole trace: thumbs up or down, rubric
+ * scores, a note, and the spans they labeled. Clicking a selected verdict or
+ * score clears it.
+ */
+const EvaluationPanel: React.FC<EvaluationPanelProps> = ({
+  evaluation,
+  saving,
+  error,
+  onChange,
+  spans,
+  selectedSpanId,
+  onSelectSpan,
+  onNext
+}) => {
+  // Saved when the field loses focus rather than on every keystroke
+  const [noteDraft, setNoteDraft] = useState(evaluation?.note ?? '');
+
+  useEffect(() => {
+    setNoteDraft(evaluation?.note ?? '');
+  }, [evaluation?.trace_id, evaluation?.note]);
+
+  if (!evaluation) {
+    return error
+      ? <p className="text-sm text-red-400">{error}</p>
+      : <p className="text-sm text-gray-500">Loading evaluation…</p>;
+  }
+
+  const labeledSpans = Object.entries(evaluation.span_labels);
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between gap-3">
+        <div className="flex items-center gap-2">
+          {VERDICTS.map(({ value, label, icon: Icon, active }) => (
+            <button
+              key={value}
+              className={`flex items-center gap-2 px-3 py-1.5 rounded-md border text-sm clickable ${
+                evaluation.verdict === value ? active : 'border-[#2A2A2A] text-gray-400 hover:text-gray-300 hover:bg-gray-800'
+              }`}
+              onClick={() => onChange(prev => ({ ...prev, verdict: prev.verdict === value ? null : value }))}
+            >
+              <Icon className="h-4 w-4" />
+              {label}
+            </button>
+          ))}
+        </div>
+        <span className={`text-xs ${error ? 'text-red-400' : 'text-gray-500'}`}>
+          {error || (saving ? 'Saving…' : evaluation.updated_at ? 'Saved' : 'Not graded yet')}
+        </span>
+      </div>
+
+      <div className="border-t border-[#2A2A2A] pt-3 space-y-3">
+        <h3 className="text-[13px] font-semibold text-gray-50">Rubric</h3>
+        {RUBRIC_CRITERIA.map(criterion => (
+          <div key={criterion.key} className="flex items-center justify-between gap-3">
+            <div className="min-w-0">
+              <div className="text-sm text-gray-200">{criterion.label}</div>
+              <div className="text-xs text-gray-500">{criterion.description}</div>
+            </div>
+            <div className="flex flex-shrink-0 gap-1">
+              {RUBRIC_SCALE.map(score => (
+                <button
+                  key={score}
+                  className={`h-7 w-7 rounded text-sm clickable ${
+                    evaluation.scores[criterion.key] === score
+                      ? 'bg-blue-500/20 text-blue-300 border border-blue-500/40'
+                      : 'border border-[#2A2A2A] text-gray-400 hover:text-gray-300 hover:bg-gray-800'
+                  }`}
+                  onClick={() => onChange(prev => {
+                    const { [criterion.key]: current, ...others } = prev.scores;
+                    return { ...prev, scores: current === score ? others : { ...others, [criterion.key]: score } };
+                  })}
+                >
+                  {score}
+                </button>
+              ))}
+            </div>
+          </div>
+        ))}
+      </div>
+
+      <div className="border-t border-[#2A2A2A] pt-3 space-y-2">
+        <h3 className="text-[13px] font-semibold text-gray-50">Note</h3>
+        <textarea
+          value={noteDraft}
+          onChange={(e) => setNoteDraft(e.target.value)}
+          onBlur={() => {
+            if (noteDraft !== evaluation.note) onChange(prev => ({ ...prev, note: noteDraft }));
+          }}
+          placeholder="What went well or wrong in this run…"
+          rows={3}
+          className="w-full resize-y rounded-md border border-[#2A2A2A] bg-[#232323] px-3 py-2 text-sm text-gray-200 placeholder-gray-500 focus:outline-none focus:border-blue-500/60"
+        />
+      </div>
+
+      <div className="border-t border-[#2A2A2A] pt-3 space-y-2">
+        <h3 className="text-[13px] font-semibold text-gray-50">Labeled spans</h3>
+        {labeledSpans.length === 0 ? (
+          <p className="text-xs text-gray-500">Select a span and use its Labels section to flag individual steps.</p>
+        ) : (
+          labeledSpans.map(([spanId, labels]) => {
+            const span = spans.get(spanId);
+            return (
+              <button
+                key={spanId}
+                className={`w-full flex items-center gap-2 rounded-md px-2 py-1.5 text-left clickable ${
+                  spanId === selectedSpanId ? 'bg-gray-800' : 'hover:bg-gray-800/60'
+                }`}
+                onClick={() => onSelectSpan(spanId)}
+              >
+                <Tag className="h-3.5 w-3.5 flex-shrink-0 text-violet-400" />
+                <span className="truncate text-sm text-gray-200">
+                  {span ? span.span_data.name || span.span_data.type : spanId}
+                </span>
+                <span className="ml-auto truncate text-xs text-gray-500">{labels.join(', ')}</span>
+              </button>
+            );
+          })
+        )}
+      </div>
+
+      {onNext && (
+        <button
+          className="w-full flex items-center justify-center gap-2 rounded-md px-3 py-2 text-sm bg-blue-500/20 text-blue-300 hover:bg-blue-500/30 clickable"
+          onClick={onNext}
+        >
+          Next trace
+          <ArrowRight className="h-4 w-4" />
+        </button>
+      )}
+    </div>
+  );
+};
+
+export default EvaluationPanel;
@@ -0,0 +1,122 @@
+import React, { useState } from 'react';
+import { AlertCircle, Check, ClipboardCopy, Download, X } from 'lucide-react';
+import type { ExportFormat, ExportOptions, ExportScope } from '../services/traceExport';
+
+interface ExportMenuProps {
+  // Label of the selected span, or null without a selection
+  selectionLabel: string | null;
+  // Values are redacted on screen, so they can't be exported unredacted
+  forceRedact: boolean;
+  onExport: (options: ExportOptions) => void;
+  onCopyMarkdown: (options: Omit<ExportOptions, 'format'>) => Promise<void>;
+  onClose: () => void;
+}
+
+const FORMATS: { format: ExportFormat; label: string; description: string }[] = [
+  { format: 'traj', label: '.traj file', description: 'Raw spans; opens again in the viewer' },
+  { format: 'markdown', label: 'Markdown', description: 'Transcript for issues and chat' },
+  { format: 'html', label: 'HTML report', description: 'Static page with the tree and details' }
+];
+
+/**
+ * Dropdown for exporting the trace or the selected subtree.
+ */
+const ExportMenu: React.FC<ExportMenuProps> = ({ selectionLabel, forceRedact, onExport, onCopyMarkdown, onClose }) => {
+  const [scope, setScope] = useState<ExportScope>(selectionLabel ? 'selection' : 'trace');
+  const [redact, setRedact] = useState(true);
+  const [copyStatus, setCopyStatus] = useState<'idle' | 'copied' | 'failed'>('idle');
+  const effectiveScope = selectionLabel ? scope : 'trace';
+  const effectiveRedact = forceRedact || redact;
+
+  // Clipboard writes fail without permission or when the page isn't focused
+  const handleCopy = async () => {
+    try {
+      await onCopyMarkdown({ scope: effectiveScope, redact: effectiveRedact });
+      setCopyStatus('copied');
+    } catch (error) {
+      console.error('Error copying Markdown:', error);
+      setCopyStatus('failed');
+    }
+    setTimeout(() => setCopyStatus('idle'), 1500);
+  };
+
+  return (
+    <div className="absolute right-0 top-full mt-2 w-80 rounded-lg border border-[#2A2A2A] bg-[#1C1C1C] shadow-xl z-50">
+      <div className="flex items-center justify-between px-4 py-3 border-b border-[#2A2A2A]">
+        <h3 className="text-[13px] font-semibold text-gray-50">Export</h3>
+        <button
+          className="text-gray-500 hover:text-gray-400 p-1 rounded hover:bg-gray-800 clickable"
+          onClick={onClose}
+        >
+          <X className="h-4 w-4" />
+        </button>
+      </div>
+
+      <div className="px-4 py-3 space-y-2 border-b border-[#2A2A2A] text-sm">
+        <label className="flex items-center gap-2 text-gray-300 clickable">
+          <input type="radio" checked={effectiveScope === 'trace'} onChange={() => setScope('trace')} />
+          Whole trace
+        </label>
+        <label className={`flex items-center gap-2 min-w-0 ${selectionLabel ? 'text-gray-300 clickable' : 'text-gray-600'}`}>
+          <input
+            type="radio"
+            checked={effectiveScope === 'selection'}
+            disabled={!selectionLabel}
+            onChange={() => setScope('selection')}
+          />
+          <span className="truncate">
+            {selectionLabel ? `Selected span: ${selectionLabel}` : 'Selected span (none selected)'}
+          </span>
+        </label>
+        <label
+          className={`flex items-center gap-2 pt-1 ${forceRedact ? 'text-gray-500' : 'text-gray-300 clickable'}`}
+          title={forceRedact ? 'Reveal the values first to export them unredacted' : undefined}
+        >
+          <input
+            type="checkbox"
+            checked={effectiveRedact}
+            disabled={forceRedact}
+            onChange={(e) => setRedact(e.target.checked)}
+          />
+          Apply redaction rules
+        </label>
+      </div>
+
+      {copyStatus === 'failed' && (
+        <div className="px-4 py-2 border-b border-[#2A2A2A] text-xs text-red-400">
+          Couldn't copy the Markdown. Check the clipboard permission, or download it instead.
+        </div>
+      )}
+
+      <div className="divide-y divide-[#2A2A2A]">
+        {FORMATS.map(({ format, label, description }) => (
+          <div key={format} className="flex items-center gap-2 px-4 py-2.5">
+            <button
+              className="flex-1 min-w-0 flex items-center gap-2 text-left clickable group"
+              onClick={() => onExport({ format, scope: effectiveScope, redact: effectiveRedact })}
+            >
+              <Download className="h-4 w-4 text-gray-500 group-hover:text-gray-300 flex-shrink-0" />
+              <div className="min-w-0">
+                <div className="text-sm text-gray-200">{label}</div>
+                <div className="text-xs text-gray-500 truncate">{description}</div>
+              </div>
+            </button>
+            {format === 'markdown' && (
+              <button
+                className="text-gray-500 hover:text-gray-300 p-1 rounded hover:bg-gray-800 clickable"
+                onClick={handleCopy}
+                title={copyStatus === 'failed' ? "Couldn't copy to the clipboard" : 'Copy Markdown'}
+              >
+                {copyStatus === 'copied' && <Check className="h-4 w-4 text-emerald-400" />}
+                {copyStatus === 'failed' && <AlertCircle className="h-4 w-4 text-red-400" />}
+                {copyStatus === 'idle' && <ClipboardCopy className="h-4 w-4" />}
+              </button>
+            )}
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default ExportMenu;
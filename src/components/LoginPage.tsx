@@ -0,0 +1,97 @@
+import React, { useState } from 'react';
+import { Navigate, useLocation, useNavigate } from 'react-router-dom';
+import type { Location } from 'react-router-dom';
+import {
+  Alert,
+  Box,
+  Button,
+  Paper,
+  TextField,
+  Typography,
+} from '@mui/material';
+import { isAuthenticated, login, UnauthorizedError, USE_MOCK_API } from '../services/auth';
+
+const LoginPage: React.FC = () => {
+  const navigate = useNavigate();
+  const location = useLocation();
+  const [username, setUsername] = useState('');
+  const [password, setPassword] = useState('');
+  const [submitting, setSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const from = (location.state as { from?: Location } | null)?.from;
+  const redirectTo = from ? `${from.pathname}${from.search}${from.hash}` : '/';
+
+  if (isAuthenticated() && !submitting) {
+    return <Navigate to={redirectTo} replace />;
+  }
+
+  const handleSubmit = async (event: React.FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+    setSubmitting(true);
+    setError(null);
+
+    try {
+      await login(username, password);
+      navigate(redirectTo, { replace: true });
+    } catch (error) {
+      console.error('Error signing in:', error);
+      setError(error instanceof UnauthorizedError
+        ? error.message
+        : 'Failed to sign in. Please try again.');
+      setSubmitting(false);
+    }
+  };
+
+  return (
+    <Box sx={{ minHeight: '100vh', display: 'flex', alignItems: 'center', justifyContent: 'center', p: 3 }}>
+      <Paper sx={{ p: 4, width: '100%', maxWidth: 360 }}>
+        <Typography variant="h5" gutterBottom>
+          Sign in
+        </Typography>
+
+        {USE_MOCK_API && (
+          <Alert severity="info" sx={{ mb: 2 }}>
+            Mock API: any username and password will do.
+          </Alert>
+        )}
+        {from && !error && (
+          <Alert severity="info" sx={{ mb: 2 }}>
+            Please sign in to continue.
+          </Alert>
+        )}
+        {error && (
+          <Alert severity="error" sx={{ mb: 2 }}>
+            {error}
+          </Alert>
+        )}
+
+        <Box component="form" onSubmit={handleSubmit} sx={{ display: 'flex', flexDirection: 'column', gap: 2 }}>
+          <TextField
+            label="Username"
+            value={username}
+            onChange={(event) => setUsername(event.target.value)}
+            autoComplete="username"
+            autoFocus
+            required
+            size="small"
+          />
+          <TextField
+            label="Password"
+            type="password"
+            value={password}
+            onChange={(event) => setPassword(event.target.value)}
+            autoComplete="current-password"
+            required
+            size="small"
+          />
+          <Button type="submit" variant="contained" disabled={submitting}>
+            {submitting ? 'Signing in…' : 'Sign in'}
+          </Button>
+        </Box>
+      </Paper>
+    </Box>
+  );
+};
+
+export default LoginPage;
@@ -0,0 +1,116 @@
+import React from 'react';
+import { Box, Paper, Typography } from '@mui/material';
+
+export interface ChartSeries {
+  label: string;
+  color: string;
+  // One value per label; null leaves a gap
+  values: (number | null)[];
+}
+
+interface MetricChartProps {
+  title: string;
+  labels: string[];
+  series: ChartSeries[];
+  formatValue: (value: number) => string;
+  // Fixed top of the y axis, e.g. 1 for rates
+  maxValue?: number;
+}
+
+const WIDTH = 600;
+const HEIGHT = 180;
+const PADDING = { top: 10, right: 10, bottom: 24, left: 56 };
+const GRID_LINES = 4;
+
+// Rounds up to 1, 2 or 5 times a power of ten so the axis labels are round
+const niceCeiling = (value: number) => {
+  if (value <= 0) return 1;
+  const magnitude = 10 ** Math.floor(Math.log10(value));
+  return [1, 2, 5, 10].map(multiple => multiple * magnitude).find(candidate => candidate >= value)!;
+};
+
+/**
+ * Minimal SVG line chart for the dashboard: shared x labels, one line per
+ * series, hover titles on the points.
+ */
+const MetricChart: React.FC<MetricChartProps> = ({ title, labels, series, formatValue, maxValue }) => {
+  const values = series.flatMap(item => item.values).filter((value): value is number => value !== null);
+  const top = maxValue ?? niceCeiling(Math.max(0, ...values));
+  const plotWidth = WIDTH - PADDING.left - PADDING.right;
+  const plotHeight = HEIGHT - PADDING.top - PADDING.bottom;
+
+  const x = (index: number) => PADDING.left + (labels.length > 1 ? (index / (labels.length - 1)) * plotWidth : plotWidth / 2);
+  const y = (value: number) => PADDING.top + plotHeight - (value / top) * plotHeight;
+
+  // Consecutive non-null values form one line segment
+  const segments = (items: (number | null)[]) => {
+    const result: string[] = [];
+    let current: string[] = [];
+    items.forEach((value, index) => {
+      if (value === null) {
+        if (current.length) result.push(current.join(' '));
+        current = [];
+      } else {
+        current.push(`${x(index)},${y(value)}`);
+      }
+    });
+    if (current.length) result.push(current.join(' '));
+    return result;
+  };
+
+  const labelIndices = labels.length <= 3
+    ? labels.map((_, index) => index)
+    : [0, Math.floor((labels.length - 1) / 2), labels.length - 1];
+
+  return (
+    <Paper variant="outlined" sx={{ p: 2 }}>
+      <Box sx={{ display: 'flex', justifyContent: 'space-between', alignItems: 'baseline', mb: 1 }}>
+        <Typography variant="subtitle2">{title}</Typography>
+        <Box sx={{ display: 'flex', gap: 2 }}>
+          {series.length > 1 && series.map(item => (
+            <Typography key={item.label} variant="caption" sx={{ display: 'flex', alignItems: 'center', gap: 0.5 }}>
+              <Box component="span" sx={{ width: 10, height: 2, bgcolor: item.color, display: 'inline-block' }} />
+              {item.label}
+            </Typography>
+          ))}
+        </Box>
+      </Box>
+      {labels.length === 0 ? (
+        <Typography variant="body2" color="text.secondary">No runs in this range</Typography>
+      ) : (
+        <svg viewBox={`0 0 ${WIDTH} ${HEIGHT}`} width="100%" role="img" aria-label={title}>
+          {Array.from({ length: GRID_LINES + 1 }, (_, line) => {
+            const value = (top / GRID_LINES) * line;
+            return (
+              <g key={line}>
+                <line x1={PADDING.left} x2={WIDTH - PADDING.right} y1={y(value)} y2={y(value)} stroke="#e0e0e0" />
+                <text x={PADDING.left - 6} y={y(value) + 4} textAnchor="end" fontSize="11" fill="#757575">
+                  {formatValue(value)}
+                </text>
+              </g>
+            );
+          })}
+          {labelIndices.map(index => (
+            <text key={index} x={x(index)} y={HEIGHT - 6} textAnchor="middle" fontSize="11" fill="#757575">
+              {labels[index]}
+            </text>
+          ))}
+          {series.map(item => (
+            <g key={item.label}>
+              {segments(item.values).map((points, index) => (
+                <polyline key={index} points={points} fill="none" stroke={item.color} strokeWidth="2" />
+              ))}
+              {item.values.map((value, index) => value !== null && (
+                <circle key={index} cx={x(index)} cy={y(value)} r="3" fill={item.color}>
+                  <title>{`${labels[index]} · ${item.label}: ${formatValue(value)}`}</title>
+                </circle>
+              ))}
+            </g>
+          ))}
+        </svg>
+      )}
+    </Paper>
+  );
+};
+
+export default MetricChart;
@@ -0,0 +1,80 @@
+import React from 'react';
+import { Pause, Play, SkipBack, SkipForward, X } from 'lucide-react';
+import { REPLAY_SPEEDS } from '../services/replay';
+import { formatDuration } from './spanDisplay';
+
+interface ReplayControlsProps {
+  time: number;
+  duration: number;
+  playing: boolean;
+  speed: number;
+  onPlay: () => void;
+  onPause: () => void;
+  onSeek: (time: number) => void;
+  onStep: (direction: 1 | -1) => void;
+  onSpeedChange: (speed: number) => void;
+  onClose: () => void;
+}
+
+const buttonClasses = 'p-1 rounded text-gray-400 hover:text-gray-300 hover:bg-gray-800 clickable';
+
+/**
+ * Playback bar for a trace replay: play/pause, stepping between the moments
+ * spans start or end, a scrubber and the speed.
+ */
+const ReplayControls: React.FC<ReplayControlsProps> = ({
+  time,
+  duration,
+  playing,
+  speed,
+  onPlay,
+  onPause,
+  onSeek,
+  onStep,
+  onSpeedChange,
+  onClose
+}) => (
+  <div className="flex items-center gap-2 border-b border-[#2A2A2A] px-6 py-2 text-xs text-gray-400">
+    <button className={buttonClasses} onClick={() => onStep(-1)} title="Previous event (,)">
+      <SkipBack className="h-4 w-4" />
+    </button>
+    <button
+      className={`${buttonClasses} text-gray-200`}
+      onClick={playing ? onPause : onPlay}
+      title={playing ? 'Pause (Space)' : 'Play (Space)'}
+    >
+      {playing ? <Pause className="h-4 w-4" /> : <Play className="h-4 w-4" />}
+    </button>
+    <button className={buttonClasses} onClick={() => onStep(1)} title="Next event (.)">
+      <SkipForward className="h-4 w-4" />
+    </button>
+    <input
+      type="range"
+      min={0}
+      max={duration}
+      step={Math.max(1, duration / 1000)}
+      value={time}
+      onChange={(e) => onSeek(Number(e.target.value))}
+      className="flex-1 accent-blue-400"
+      aria-label="Replay position"
+    />
+    <span className="w-32 text-right font-mono">
+      {formatDuration(time)} / {formatDuration(duration)}
+    </span>
+    <select
+      value={speed}
+      onChange={(e) => onSpeedChange(Number(e.target.value))}
+      className="rounded border border-[#2A2A2A] bg-[#232323] px-1.5 py-0.5 text-gray-300 focus:outline-none"
+      aria-label="Replay speed"
+    >
+      {REPLAY_SPEEDS.map(value => (
+        <option key={value} value={value}>{value}×</option>
+      ))}
+    </select>
+    <button className={buttonClasses} onClick={onClose} title="Stop replay">
+      <X className="h-4 w-4" />
+    </button>
+  </div>
+);
+
+export default ReplayControls;
@@ -0,0 +1,22 @@
+import React, { useEffect, useState } from 'react';
+import { Navigate, Outlet, useLocation } from 'react-router-dom';
+import { getSession, onSessionChange } from '../services/auth';
+import type { AuthSession } from '../services/auth';
+
+// Layout route that only renders its children while a session exists. When the
+// session goes away (logout, or a 401 from the API clearing it) the user is
+// sent to /login and brought back here after signing in.
+const RequireAuth: React.FC = () => {
+  const location = useLocation();
+  const [session, setSession] = useState<AuthSession | null>(getSession);
+
+  useEffect(() => onSessionChange(setSession), []);
+
+  if (!session) {
+    return <Navigate to="/login" state={{ from: location }} replace />;
+  }
+
+  return <Outlet />;
+};
+
+export default RequireAuth;
@@ -0,0 +1,191 @@
+import React, { useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import {
+  Alert,
+  Box,
+  Button,
+  Checkbox,
+  CircularProgress,
+  FormControlLabel,
+  Paper,
+  Table,
+  TableBody,
+  TableCell,
+  TableContainer,
+  TableHead,
+  TableRow,
+  Typography,
+} from '@mui/material';
+import { fetchEvaluations, fetchTraceById, logRedactionReveal } from '../services/api';
+import type { TraceEvaluation } from '../services/api';
+import { UnauthorizedError } from '../services/auth';
+import { buildDatasetFile, buildDatasetRecord, isEvaluationEmpty, reviewTracePath } from '../services/evaluation';
+import type { DatasetRecord } from '../services/evaluation';
+import { redactSpans } from '../services/redaction';
+import { formatElapsed, getTraceDuration } from '../services/sessions';
+import { downloadFile } from '../services/traceExport';
+import { useRedactionRules } from '../hooks/useRedactionRules';
+import { useReviewQueue } from '../hooks/useReviewQueue';
+
+const EVALUATIONS_PAGE_SIZE = 100;
+const COLUMN_COUNT = 5;
+
+// Every saved evaluation, across all pages
+const fetchAllEvaluations = async (): Promise<TraceEvaluation[]> => {
+  const evaluations: TraceEvaluation[] = [];
+  for (let page = 1; ; page++) {
+    const response = await fetchEvaluations(page, EVALUATIONS_PAGE_SIZE);
+    const batch = response.data || [];
+    evaluations.push(...batch);
+    const total = response.pagination?.total ?? 0;
+    if (batch.length < EVALUATIONS_PAGE_SIZE || evaluations.length >= total) return evaluations;
+  }
+};
+
+/**
+ * Finished traces waiting for a human grade, and the export of everything
+ * graded so far as a JSONL dataset for regression evals.
+ */
+const ReviewQueue: React.FC = () => {
+  const navigate = useNavigate();
+  const { traces, total, loading, error } = useReviewQueue(true);
+  const { rules } = useRedactionRules();
+  const [redact, setRedact] = useState(true);
+  const [exportProgress, setExportProgress] = useState<{ done: number; total: number } | null>(null);
+  const [exportError, setExportError] = useState<string | null>(null);
+  const [exportedCount, setExportedCount] = useState<number | null>(null);
+
+  const handleExport = async () => {
+    setExportError(null);
+    setExportedCount(null);
+    setExportProgress({ done: 0, total: 0 });
+    try {
+      const evaluations = (await fetchAllEvaluations()).filter(evaluation => !isEvaluationEmpty(evaluation));
+      const records: DatasetRecord[] = [];
+      // One at a time, so a large export doesn't flood the API
+      for (const evaluation of evaluations) {
+        setExportProgress({ done: records.length, total: evaluations.length });
+        // Raw payloads leave the browser only once the reveal is on record,
+        // the same as revealing them in the viewer; a failed log stops the
+        // export
+        if (!redact) await logRedactionReveal({ trace_id: evaluation.trace_id, revealed: true });
+        const { data: trace } = await fetchTraceById(evaluation.trace_id);
+        const spans = redact ? redactSpans(trace.spans ?? [], rules) : trace.spans;
+        records.push(buildDatasetRecord({ ...trace, spans }, evaluation));
+      }
+      downloadFile(buildDatasetFile(records));
+      setExportedCount(records.length);
+    } catch (error) {
+      // RequireAuth takes care of the redirect once the session is cleared.
+      if (error instanceof UnauthorizedError) return;
+      console.error('Error exporting evaluations:', error);
+      setExportError('Failed to export the dataset. Please try again.');
+    } finally {
+      setExportProgress(null);
+    }
+  };
+
+  return (
+    <Box sx={{ p: 3 }}>
+      <Box sx={{ display: 'flex', alignItems: 'center', justifyContent: 'space-between' }}>
+        <Typography variant="h4" gutterBottom>
+          Review
+        </Typography>
+        <Button variant="outlined" size="small" onClick={() => navigate('/')}>
+          Traces
+        </Button>
+      </Box>
+
+      <Typography variant="body2" color="text.secondary" sx={{ mb: 3, maxWidth: 720 }}>
+        Grade each run with a thumbs up or down and rubric scores, and label the spans where it went
+        wrong. Grades are saved as you go, and graded traces leave the queue.
+      </Typography>
+
+      {(error || exportError) && (
+        <Alert severity="error" sx={{ mb: 3 }}>
+          {error || exportError}
+        </Alert>
+      )}
+      {exportedCount !== null && (
+        <Alert severity="success" sx={{ mb: 3 }} onClose={() => setExportedCount(null)}>
+          Exported {exportedCount} graded {exportedCount === 1 ? 'trace' : 'traces'}.
+        </Alert>
+      )}
+
+      <Box sx={{ mb: 3, display: 'flex', alignItems: 'center', flexWrap: 'wrap', gap: 2 }}>
+        <Button
+          variant="contained"
+          disabled={traces.length === 0}
+          onClick={() => navigate(reviewTracePath(traces[0].trace_id))}
+        >
+          Start reviewing
+        </Button>
+        <Button variant="outlined" disabled={exportProgress !== null} onClick={handleExport}>
+          {exportProgress
+            ? `Exporting${exportProgress.total ? ` ${exportProgress.done} / ${exportProgress.total}` : ''}…`
+            : 'Export dataset (JSONL)'}
+        </Button>
+        <FormControlLabel
+          control={<Checkbox size="small" checked={redact} onChange={(event) => setRedact(event.target.checked)} />}
+          label="Apply my redaction rules (unredacted exports are logged)"
+        />
+      </Box>
+
+      <Typography variant="subtitle2" color="text.secondary" gutterBottom>
+        {loading ? 'Loading…' : `${total} ${total === 1 ? 'trace' : 'traces'} to review`}
+        {!loading && total > traces.length && ` (showing the oldest ${traces.length})`}
+      </Typography>
+
+      <TableContainer component={Paper}>
+        <Table size="small">
+          <TableHead>
+            <TableRow>
+              <TableCell>Trace ID</TableCell>
+              <TableCell>Workflow</TableCell>
+              <TableCell>Errors</TableCell>
+              <TableCell>Duration</TableCell>
+              <TableCell>Created At</TableCell>
+            </TableRow>
+          </TableHead>
+          <TableBody>
+            {loading && (
+              <TableRow>
+                <TableCell colSpan={COLUMN_COUNT} align="center">
+                  <CircularProgress size={20} />
+                </TableCell>
+              </TableRow>
+            )}
+            {traces.map(trace => (
+              <TableRow
+                key={trace._id}
+                onClick={() => navigate(reviewTracePath(trace.trace_id))}
+                sx={{ cursor: 'pointer', '&:hover': { backgroundColor: '#f5f5f5' } }}
+              >
+                <TableCell>{trace.trace_id}</TableCell>
+                <TableCell>{trace.workflow_name}</TableCell>
+                <TableCell>
+                  {trace.error_count ? (
+                    <Typography variant="body2" color="error">{trace.error_count}</Typography>
+                  ) : '-'}
+                </TableCell>
+                <TableCell>{formatElapsed(getTraceDuration(trace))}</TableCell>
+                <TableCell>{new Date(trace.created_at).toLocaleString()}</TableCell>
+              </TableRow>
+            ))}
+            {!loading && traces.length === 0 && !error && (
+              <TableRow>
+                <TableCell colSpan={COLUMN_COUNT} align="center">
+                  <Typography variant="body2" color="text.secondary">
+                    Every finished trace has been graded
+                  </Typography>
+                </TableCell>
+              </TableRow>
+            )}
+          </TableBody>
+        </Table>
+      </TableContainer>
+    </Box>
+  );
+};
+
+export default ReviewQueue;
@@ -0,0 +1,142 @@
+import React from 'react';
+import { useNavigate, useParams } from 'react-router-dom';
+import {
+  Alert,
+  Box,
+  Button,
+  CircularProgress,
+  Paper,
+  Table,
+  TableBody,
+  TableCell,
+  TableContainer,
+  TableHead,
+  TableRow,
+  Typography,
+} from '@mui/material';
+import { formatElapsed, getSessionDuration, getTraceDuration, sessionTracePath, summarizeSessionTraces } from '../services/sessions';
+import { useSessionTraces } from '../hooks/useSessionTraces';
+
+const StatCard = ({ label, value }: { label: string; value: React.ReactNode }) => (
+  <Paper variant="outlined" sx={{ px: 2, py: 1.5, minWidth: 140 }}>
+    <Typography variant="caption" color="text.secondary">{label}</Typography>
+    <Typography variant="h6">{value}</Typography>
+  </Paper>
+);
+
+/**
+ * One session's totals and its traces in the order they ran. Opening a trace
+ * from here keeps the session's previous/next controls in the viewer.
+ */
+const SessionDetail: React.FC = () => {
+  const { groupId = '' } = useParams();
+  const navigate = useNavigate();
+  const { traces, loading, error } = useSessionTraces(groupId);
+  const summary = summarizeSessionTraces(groupId, traces);
+  const totalTokens = traces.reduce((total, trace) => total + (trace.usage?.total_tokens ?? 0), 0);
+
+  const openTrace = (traceId: string) => navigate(sessionTracePath(groupId, traceId));
+
+  return (
+    <Box sx={{ p: 3 }}>
+      <Box sx={{ display: 'flex', alignItems: 'center', justifyContent: 'space-between' }}>
+        <Box>
+          <Typography variant="h4">Session</Typography>
+          <Typography variant="body2" color="text.secondary" gutterBottom>
+            {groupId}
+          </Typography>
+        </Box>
+        <Box sx={{ display: 'flex', gap: 1 }}>
+          <Button variant="outlined" size="small" onClick={() => navigate('/sessions')}>
+            Sessions
+          </Button>
+          <Button
+            variant="contained"
+            size="small"
+            disabled={traces.length === 0}
+            onClick={() => openTrace(traces[0].trace_id)}
+          >
+            Step through
+          </Button>
+        </Box>
+      </Box>
+
+      {error && (
+        <Alert severity="error" sx={{ my: 3 }}>
+          {error}
+        </Alert>
+      )}
+
+      {loading && <CircularProgress size={24} sx={{ my: 3 }} />}
+
+      {summary && (
+        <Box sx={{ my: 3, display: 'flex', flexWrap: 'wrap', gap: 2 }}>
+          <StatCard label="Traces" value={summary.trace_count} />
+          <StatCard label="Duration" value={formatElapsed(getSessionDuration(summary))} />
+          <StatCard
+            label="Errors"
+            value={<Typography variant="h6" component="span" color={summary.error_count ? 'error' : undefined}>{summary.error_count}</Typography>}
+          />
+          <StatCard label="Tokens" value={totalTokens.toLocaleString()} />
+          <StatCard label="Status" value={summary.isComplete ? 'Complete' : 'In progress'} />
+        </Box>
+      )}
+
+      {!loading && !error && traces.length === 0 && (
+        <Typography variant="body2" color="text.secondary" sx={{ my: 3 }}>
+          No traces in this session
+        </Typography>
+      )}
+
+      {traces.length > 0 && (
+        <TableContainer component={Paper}>
+          <Table>
+            <TableHead>
+              <TableRow>
+                <TableCell>#</TableCell>
+                <TableCell>Trace ID</TableCell>
+                <TableCell>Workflow Name</TableCell>
+                <TableCell>Status</TableCell>
+                <TableCell>Errors</TableCell>
+                <TableCell>Duration</TableCell>
+                <TableCell>Gap</TableCell>
+                <TableCell>Created At</TableCell>
+              </TableRow>
+            </TableHead>
+            <TableBody>
+              {traces.map((trace, index) => {
+                const previous = traces[index - 1];
+                // Idle time since the previous trace finished, e.g. the user thinking
+                const gap = previous
+                  ? Math.max(0, new Date(trace.created_at).getTime() - new Date(previous.updated_at).getTime())
+                  : null;
+                return (
+                  <TableRow
+                    key={trace._id}
+                    onClick={() => openTrace(trace.trace_id)}
+                    sx={{ cursor: 'pointer', '&:hover': { backgroundColor: '#f5f5f5' } }}
+                  >
+                    <TableCell>{index + 1}</TableCell>
+                    <TableCell>{trace.trace_id}</TableCell>
+                    <TableCell>{trace.workflow_name}</TableCell>
+                    <TableCell>{trace.isComplete ? 'Complete' : 'In progress'}</TableCell>
+                    <TableCell>
+                      {trace.error_count ? (
+                        <Typography variant="body2" color="error">{trace.error_count}</Typography>
+                      ) : '-'}
+                    </TableCell>
+                    <TableCell>{formatElapsed(getTraceDuration(trace))}</TableCell>
+                    <TableCell>{gap === null ? '-' : formatElapsed(gap)}</TableCell>
+                    <TableCell>{new Date(trace.created_at).toLocaleString()}</TableCell>
+                  </TableRow>
+                );
+              })}
+            </TableBody>
+          </Table>
+        </TableContainer>
+      )}
+    </Box>
+  );
+};
+
+export default SessionDetail;
@@ -0,0 +1,263 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import { useNavigate, useSearchParams } from 'react-router-dom';
+import {
+  Alert,
+  Box,
+  Button,
+  CircularProgress,
+  Collapse,
+  IconButton,
+  Paper,
+  Table,
+  TableBody,
+  TableCell,
+  TableContainer,
+  TableHead,
+  TablePagination,
+  TableRow,
+  TextField,
+  Typography,
+} from '@mui/material';
+import { ChevronDown, ChevronRight } from 'lucide-react';
+import { fetchSessions } from '../services/api';
+import type { SessionSummary } from '../services/api';
+import { UnauthorizedError } from '../services/auth';
+import { formatElapsed, getSessionDuration, getTraceDuration, sessionPath, sessionTracePath } from '../services/sessions';
+import { useSessionTraces } from '../hooks/useSessionTraces';
+
+const ROWS_PER_PAGE_OPTIONS = [10, 25, 50];
+const DEFAULT_ROWS_PER_PAGE = 10;
+const SEARCH_DEBOUNCE_MS = 300;
+const COLUMN_COUNT = 7;
+
+// Loaded only once a session is expanded
+const SessionTraces = ({ groupId }: { groupId: string }) => {
+  const navigate = useNavigate();
+  const { traces, loading, error } = useSessionTraces(groupId);
+
+  if (loading) {
+    return <Box sx={{ p: 2 }}><CircularProgress size={20} /></Box>;
+  }
+  if (error) {
+    return <Alert severity="error" sx={{ m: 2 }}>{error}</Alert>;
+  }
+
+  return (
+    <Table size="small">
+      <TableBody>
+        {traces.map((trace, index) => (
+          <TableRow
+            key={trace._id}
+            onClick={() => navigate(sessionTracePath(groupId, trace.trace_id))}
+            sx={{ cursor: 'pointer', '&:hover': { backgroundColor: '#f5f5f5' } }}
+          >
+            <TableCell sx={{ width: 48, color: 'text.secondary' }}>{index + 1}</TableCell>
+            <TableCell>{trace.trace_id}</TableCell>
+            <TableCell>{trace.workflow_name}</TableCell>
+            <TableCell>{trace.isComplete ? 'Complete' : 'In progress'}</TableCell>
+            <TableCell>
+              {trace.error_count ? (
+                <Typography variant="body2" color="error">{trace.error_count}</Typography>
+              ) : '-'}
+            </TableCell>
+            <TableCell>{formatElapsed(getTraceDuration(trace))}</TableCell>
+            <TableCell>{new Date(trace.created_at).toLocaleString()}</TableCell>
+          </TableRow>
+        ))}
+      </TableBody>
+    </Table>
+  );
+};
+
+/**
+ * Traces grouped by group_id. Each session expands in place to its traces,
+ * in the order they ran.
+ */
+const SessionList: React.FC = () => {
+  const navigate = useNavigate();
+  const [searchParams, setSearchParams] = useSearchParams();
+  const search = searchParams.get('q') || '';
+  const page = Math.max(0, parseInt(searchParams.get('page') || '', 10) || 0);
+  const rows = parseInt(searchParams.get('rows') || '', 10);
+  const rowsPerPage = ROWS_PER_PAGE_OPTIONS.includes(rows) ? rows : DEFAULT_ROWS_PER_PAGE;
+  const [sessions, setSessions] = useState<SessionSummary[]>([]);
+  const [totalCount, setTotalCount] = useState(0);
+  const [searchInput, setSearchInput] = useState(search);
+  const [expanded, setExpanded] = useState<Set<string>>(new Set());
+  const [error, setError] = useState<string | null>(null);
+
+  const updateParams = useCallback((patch: Record<string, string>) => {
+    setSearchParams(prev => {
+      const next = new URLSearchParams(prev);
+      Object.entries(patch).forEach(([key, value]) => {
+        if (value) {
+          next.set(key, value);
+        } else {
+          next.delete(key);
+        }
+      });
+      if (!('page' in patch)) {
+        next.delete('page');
+      }
+      return next;
+    }, { replace: true });
+  }, [setSearchParams]);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    fetchSessions({ page: page + 1, limit: rowsPerPage, search: search || undefined })
+      .then(response => {
+        if (cancelled) return;
+        setSessions(response.data || []);
+        setTotalCount(response.pagination?.total || 0);
+        setError(null);
+      })
+      .catch(error => {
+        // RequireAuth takes care of the redirect once the session is cleared.
+        if (cancelled || error instanceof UnauthorizedError) return;
+        console.error('Error fetching sessions:', error);
+        setError('Failed to load sessions. Please try again.');
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [page, rowsPerPage, search]);
+
+  useEffect(() => {
+    setSearchInput(search);
+  }, [search]);
+
+  useEffect(() => {
+    if (searchInput === search) return;
+    const timeout = setTimeout(() => updateParams({ q: searchInput.trim() }), SEARCH_DEBOUNCE_MS);
+    return () => clearTimeout(timeout);
+  }, [searchInput, search, updateParams]);
+
+  const toggleExpanded = (groupId: string) => {
+    setExpanded(prev => {
+      const next = new Set(prev);
+      if (next.has(groupId)) {
+        next.delete(groupId);
+      } else {
+        next.add(groupId);
+      }
+      return next;
+    });
+  };
+
+  return (
+    <Box sx={{ p: 3 }}>
+      <Box sx={{ display: 'flex', alignItems: 'center', justifyContent: 'space-between' }}>
+        <Typography variant="h4" gutterBottom>
+          Sessions
+        </Typography>
+        <Button variant="outlined" size="small" onClick={() => navigate('/')}>
+          Traces
+        </Button>
+      </Box>
+
+      {error && (
+        <Alert severity="error" sx={{ mb: 3 }}>
+          {error}
+        </Alert>
+      )}
+
+      <Box sx={{ mb: 3, display: 'flex', gap: 2 }}>
+        <TextField
+          label="Search"
+          placeholder="Group ID or workflow name"
+          variant="outlined"
+          value={searchInput}
+          onChange={(event) => setSearchInput(event.target.value)}
+          size="small"
+        />
+      </Box>
+
+      <TableContainer component={Paper}>
+        <Table>
+          <TableHead>
+            <TableRow>
+              <TableCell padding="checkbox" />
+              <TableCell>Group ID</TableCell>
+              <TableCell>Workflows</TableCell>
+              <TableCell align="right">Traces</TableCell>
+              <TableCell>Errors</TableCell>
+              <TableCell>Duration</TableCell>
+              <TableCell>Started At</TableCell>
+            </TableRow>
+          </TableHead>
+          <TableBody>
+            {sessions.map(session => {
+              const isExpanded = expanded.has(session.group_id);
+              return (
+                <React.Fragment key={session.group_id}>
+                  <TableRow
+                    onClick={() => navigate(sessionPath(session.group_id))}
+                    sx={{ cursor: 'pointer', '&:hover': { backgroundColor: '#f5f5f5' }, '& > td': { borderBottom: isExpanded ? 'none' : undefined } }}
+                  >
+                    <TableCell padding="checkbox" onClick={(event) => event.stopPropagation()}>
+                      <IconButton
+                        size="small"
+                        onClick={() => toggleExpanded(session.group_id)}
+                        aria-label={isExpanded ? 'Collapse session' : 'Expand session'}
+                      >
+                        {isExpanded ? <ChevronDown size={18} /> : <ChevronRight size={18} />}
+                      </IconButton>
+                    </TableCell>
+                    <TableCell>{session.group_id}</TableCell>
+                    <TableCell>{session.workflow_names.join(', ')}</TableCell>
+                    <TableCell align="right">{session.trace_count}</TableCell>
+                    <TableCell>
+                      {session.error_count ? (
+                        <Typography variant="body2" color="error">{session.error_count}</Typography>
+                      ) : '-'}
+                    </TableCell>
+                    <TableCell>
+                      {formatElapsed(getSessionDuration(session))}
+                      {!session.isComplete && (
+                        <Typography component="span" variant="caption" color="text.secondary" sx={{ ml: 1 }}>
+                          in progress
+                        </Typography>
+                      )}
+                    </TableCell>
+                    <TableCell>{new Date(session.started_at).toLocaleString()}</TableCell>
+                  </TableRow>
+                  <TableRow>
+                    <TableCell colSpan={COLUMN_COUNT} sx={{ py: 0, pl: 6, borderBottom: isExpanded ? undefined : 'none' }}>
+                      <Collapse in={isExpanded} unmountOnExit>
+                        <SessionTraces groupId={session.group_id} />
+                      </Collapse>
+                    </TableCell>
+                  </TableRow>
+                </React.Fragment>
+              );
+            })}
+            {sessions.length === 0 && !error && (
+              <TableRow>
+                <TableCell colSpan={COLUMN_COUNT} align="center">
+                  <Typography variant="body2" color="text.secondary">
+                    {search ? 'No sessions match this search' : 'No sessions yet'}
+                  </Typography>
+                </TableCell>
+              </TableRow>
+            )}
+          </TableBody>
+        </Table>
+      </TableContainer>
+
+      <TablePagination
+        component="div"
+        count={totalCount}
+        page={page}
+        onPageChange={(_event, newPage) => updateParams({ page: newPage > 0 ? String(newPage) : '' })}
+        rowsPerPage={rowsPerPage}
+        onRowsPerPageChange={(event) => updateParams({ rows: event.target.value })}
+        rowsPerPageOptions={ROWS_PER_PAGE_OPTIONS}
+      />
+    </Box>
+  );
+};
+
+export default SessionList;
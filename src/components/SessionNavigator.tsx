@@ -0,0 +1,51 @@
+import React from 'react';
+import { ChevronLeft, ChevronRight, Layers } from 'lucide-react';
+import type { TraceData } from '../services/api';
+import type { SessionPosition } from '../services/sessions';
+
+interface SessionNavigatorProps {
+  position: SessionPosition;
+  traceCount: number;
+  onOpenSession: () => void;
+  onStep: (trace: TraceData) => void;
+}
+
+const stepButtonClasses = 'p-1 rounded text-gray-400 hover:text-gray-300 hover:bg-gray-800 clickable disabled:opacity-40 disabled:pointer-events-none';
+
+/**
+ * Previous/next controls for a trace opened from a session.
+ */
+const SessionNavigator: React.FC<SessionNavigatorProps> = ({ position, traceCount, onOpenSession, onStep }) => {
+  const { index, previous, next } = position;
+
+  return (
+    <div className="flex items-center gap-1 border border-[#2A2A2A] rounded-md px-1 py-0.5">
+      <button
+        className={stepButtonClasses}
+        disabled={!previous}
+        onClick={() => previous && onStep(previous)}
+        title={previous ? `Previous trace: ${previous.workflow_name}` : undefined}
+      >
+        <ChevronLeft className="h-4 w-4" />
+      </button>
+      <button
+        className="flex items-center gap-1.5 px-1 text-sm text-gray-400 hover:text-gray-300 clickable"
+        onClick={onOpenSession}
+        title="Open session"
+      >
+        <Layers className="h-3.5 w-3.5" />
+        <span className="font-mono">{index >= 0 ? `${index + 1} / ${traceCount}` : `– / ${traceCount}`}</span>
+      </button>
+      <button
+        className={stepButtonClasses}
+        disabled={!next}
+        onClick={() => next && onStep(next)}
+        title={next ? `Next trace: ${next.workflow_name}` : undefined}
+      >
+        <ChevronRight className="h-4 w-4" />
+      </button>
+    </div>
+  );
+};
+
+export default SessionNavigator;
@@ -0,0 +1,74 @@
+import React, { useEffect } from 'react';
+import { X } from 'lucide-react';
+import type { KeyboardShortcut } from '../hooks/useSpanTreeKeyboard';
+
+interface ShortcutGroup {
+  title: string;
+  shortcuts: KeyboardShortcut[];
+}
+
+interface ShortcutHelpProps {
+  groups: ShortcutGroup[];
+  onClose: () => void;
+}
+
+const ShortcutHelp: React.FC<ShortcutHelpProps> = ({ groups, onClose }) => {
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (event.key === 'Escape' || event.key === '?') {
+        event.preventDefault();
+        onClose();
+      }
+    };
+    document.addEventListener('keydown', handleKeyDown);
+    return () => document.removeEventListener('keydown', handleKeyDown);
+  }, [onClose]);
+
+  return (
+    <div
+      className="fixed inset-0 z-[100] flex items-center justify-center bg-black/60 p-4"
+      onClick={onClose}
+    >
+      <div
+        className="w-full max-w-lg max-h-[80vh] overflow-y-auto custom-scrollbar rounded-lg border border-[#2A2A2A] bg-[#1C1C1C] p-6 shadow-xl"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="flex items-center justify-between mb-4">
+          <h2 className="text-[15px] font-semibold text-gray-50">Keyboard shortcuts</h2>
+          <button
+            className="text-gray-500 hover:text-gray-400 p-1 rounded hover:bg-gray-800 clickable"
+            onClick={onClose}
+          >
+            <X className="h-4 w-4" />
+          </button>
+        </div>
+        <div className="space-y-6">
+          {groups.map(group => (
+            <div key={group.title}>
+              <h3 className="text-[13px] font-semibold text-gray-400 mb-2">{group.title}</h3>
+              <div className="space-y-2">
+                {group.shortcuts.map(shortcut => (
+                  <div key={shortcut.description} className="flex items-center justify-between gap-4">
+                    <span className="text-sm text-gray-200">{shortcut.description}</span>
+                    <div className="flex items-center gap-1 flex-shrink-0">
+                      {shortcut.keys.map(key => (
+                        <kbd
+                          key={key}
+                          className="min-w-[1.5rem] text-center text-xs font-mono text-gray-300 bg-[#2A2A2A] border border-[#3A3A3A] rounded px-1.5 py-0.5"
+                        >
+                          {key}
+                        </kbd>
+                      ))}
+                    </div>
+                  </div>
+                ))}
+              </div>
+            </div>
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ShortcutHelp;
@@ -0,0 +1,91 @@
+import React from 'react';
+import { AlertCircle, EyeOff } from 'lucide-react';
+import { DEFAULT_SPAN_FILTERS, HIDE_NOISE_FILTERS, isFilterActive, SPAN_CATEGORIES } from '../services/spanFilters';
+import type { SpanCategory, SpanFilterSettings } from '../services/spanFilters';
+
+interface SpanFilterBarProps {
+  filters: SpanFilterSettings;
+  onChange: (patch: Partial<SpanFilterSettings>) => void;
+  onReplace: (filters: SpanFilterSettings) => void;
+  totalSpans: number;
+  visibleSpans: number;
+}
+
+const chipClasses = (active: boolean) =>
+  `flex items-center gap-1.5 rounded-full border px-2.5 py-0.5 text-xs clickable ${
+    active
+      ? 'border-blue-500/40 bg-blue-500/10 text-blue-300'
+      : 'border-[#2A2A2A] text-gray-500 line-through'
+  }`;
+
+const SpanFilterBar: React.FC<SpanFilterBarProps> = ({ filters, onChange, onReplace, totalSpans, visibleSpans }) => {
+  const toggleCategory = (category: SpanCategory) => {
+    onChange({
+      hiddenCategories: filters.hiddenCategories.includes(category)
+        ? filters.hiddenCategories.filter(item => item !== category)
+        : [...filters.hiddenCategories, category]
+    });
+  };
+
+  return (
+    <div className="border-b border-[#2A2A2A] px-6 py-2 space-y-2">
+      <div className="flex items-center flex-wrap gap-1.5">
+        {SPAN_CATEGORIES.map(({ category, label }) => (
+          <button
+            key={category}
+            className={chipClasses(!filters.hiddenCategories.includes(category))}
+            onClick={() => toggleCategory(category)}
+          >
+            {label}
+          </button>
+        ))}
+      </div>
+      <div className="flex items-center flex-wrap gap-3 text-xs text-gray-400">
+        <button
+          className={`flex items-center gap-1.5 rounded-full border px-2.5 py-0.5 clickable ${
+            filters.errorsOnly ? 'border-red-500/40 bg-red-500/10 text-red-300' : 'border-[#2A2A2A] text-gray-400'
+          }`}
+          onClick={() => onChange({ errorsOnly: !filters.errorsOnly })}
+        >
+          <AlertCircle className="h-3.5 w-3.5" />
+          Errors only
+        </button>
+        <label className="flex items-center gap-1.5">
+          Min duration
+          <input
+            type="number"
+            min={0}
+            step={10}
+            value={filters.minDurationMs || ''}
+            placeholder="0"
+            onChange={(e) => onChange({ minDurationMs: Math.max(0, Number(e.target.value) || 0) })}
+            className="w-16 rounded border border-[#2A2A2A] bg-[#232323] px-1.5 py-0.5 text-gray-200 outline-none focus:border-[#3A3A3A]"
+          />
+          ms
+        </label>
+        <button
+          className="flex items-center gap-1.5 text-gray-400 hover:text-gray-300 clickable"
+          onClick={() => onReplace(HIDE_NOISE_FILTERS)}
+        >
+          <EyeOff className="h-3.5 w-3.5" />
+          Hide noise
+        </button>
+        {isFilterActive(filters) && (
+          <>
+            <button
+              className="text-gray-400 hover:text-gray-300 clickable"
+              onClick={() => onReplace(DEFAULT_SPAN_FILTERS)}
+            >
+              Show all
+            </button>
+            <span className="ml-auto text-gray-500">
+              {visibleSpans} of {totalSpans} spans shown
+            </span>
+          </>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default SpanFilterBar;
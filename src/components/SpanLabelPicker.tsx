@@ -0,0 +1,65 @@
+import React, { useState } from 'react';
+import { Plus } from 'lucide-react';
+import { SPAN_LABELS } from '../services/evaluation';
+
+interface SpanLabelPickerProps {
+  labels: string[];
+  onToggle: (label: string) => void;
+}
+
+/**
+ * The common labels as toggles, plus any custom ones already on the span,
+ * and a field for adding another.
+ */
+const SpanLabelPicker: React.FC<SpanLabelPickerProps> = ({ labels, onToggle }) => {
+  const [custom, setCustom] = useState('');
+  const options = [...SPAN_LABELS, ...labels.filter(label => !SPAN_LABELS.includes(label))];
+
+  const addCustom = () => {
+    const label = custom.trim().toLowerCase();
+    if (!label) return;
+    if (!labels.includes(label)) onToggle(label);
+    setCustom('');
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="flex flex-wrap gap-2">
+        {options.map(label => (
+          <button
+            key={label}
+            className={`px-2.5 py-1 rounded-full border text-xs clickable ${
+              labels.includes(label)
+                ? 'bg-violet-500/15 border-violet-500/40 text-violet-300'
+                : 'border-[#2A2A2A] text-gray-400 hover:text-gray-300 hover:bg-gray-800'
+            }`}
+            onClick={() => onToggle(label)}
+          >
+            {label}
+          </button>
+        ))}
+      </div>
+      <div className="flex items-center gap-2">
+        <input
+          value={custom}
+          onChange={(e) => setCustom(e.target.value)}
+          onKeyDown={(e) => {
+            if (e.key === 'Enter') addCustom();
+          }}
+          placeholder="Other label…"
+          className="flex-1 rounded-md border border-[#2A2A2A] bg-[#232323] px-3 py-1.5 text-sm text-gray-200 placeholder-gray-500 focus:outline-none focus:border-blue-500/60"
+        />
+        <button
+          className="p-1.5 rounded text-gray-400 hover:text-gray-300 hover:bg-gray-800 clickable disabled:opacity-40"
+          disabled={!custom.trim()}
+          onClick={addCustom}
+          title="Add label"
+        >
+          <Plus className="h-4 w-4" />
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default SpanLabelPicker;
@@ -0,0 +1,150 @@
+import { memo } from 'react';
+import { AlertCircle, ChevronDown, MessageSquare, Tag } from 'lucide-react';
+import type { SpanNode } from '../services/traceTree';
+import type { TimelineBounds, WaterfallView } from '../services/spanLayout';
+import { getSpanDuration, getSpanStart } from '../services/spanLayout';
+import { WATERFALL_TRACK_ATTRIBUTE } from '../hooks/useTimelineZoom';
+import { WATERFALL_NAME_WIDTH, formatDuration, getProgressBarColor, renderSpanName } from './spanDisplay';
+import WaterfallBar from './WaterfallBar';
+
+interface SpanRowProps {
+  span: SpanNode;
+  depth: number;
+  isExpanded: boolean;
+  isSelected: boolean;
+  // Failing spans anywhere below this one
+  descendantErrors: number;
+  commentCount?: number;
+  // Review labels the reviewer put on this span
+  labels?: string[];
+  // Set when the span matches the in-trace search; 'current' is the match
+  // being navigated to
+  searchMatch?: 'match' | 'current';
+  timeline: TimelineBounds;
+  // Set in waterfall mode: the duration and mini bar are replaced by a bar on
+  // the shared time axis
+  waterfall?: WaterfallView;
+  isCriticalPath?: boolean;
+  onSelect: (span: SpanNode) => void;
+  onToggle: (spanId: string) => void;
+}
+
+// Memoized so only rows whose span, state or layout changed re-render when the
+// tree updates; callers must pass stable callbacks.
+const SpanRow = memo(({ span, depth, isExpanded, isSelected, descendantErrors, commentCount = 0, labels, searchMatch, timeline, waterfall, isCriticalPath = false, onSelect, onToggle }: SpanRowProps) => {
+  const duration = getSpanDuration(span);
+  const startPercentage = timeline.duration > 0
+    ? ((getSpanStart(span) - timeline.start) / timeline.duration) * 100
+    : 0;
+  const widthPercentage = timeline.duration > 0 ? (duration / timeline.duration) * 100 : 0;
+
+  return (
+    <div 
+      className={`group ${
+        isSelected ? 'bg-[#2A2A2A]' : 
+        searchMatch ? 'bg-yellow-500/10 hover:bg-yellow-500/15' :
+        span.error ? 'bg-red-500/5 hover:bg-red-500/10' :
+        'bg-[#1C1C1C] hover:bg-[#232323]'
+      } transition-colors relative clickable h-full border-b border-[#2A2A2A]`}
+      onClick={(e) => {
+        e.stopPropagation();
+        onSelect(span);
+      }}
+    >
+      {searchMatch && (
+        <div className={`absolute left-0 top-0 bottom-0 ${searchMatch === 'current' ? 'w-1 bg-yellow-400' : 'w-0.5 bg-yellow-500/60'}`} />
+      )}
+      <div className="flex items-center h-10 px-6 min-w-0 relative">
+        <div
+          className={`flex items-center flex-shrink-0 min-w-0 ${waterfall ? 'overflow-hidden' : 'responsive-width-sm'}`}
+          style={waterfall ? { width: WATERFALL_NAME_WIDTH } : undefined}
+        >
+          <div className="flex items-center min-w-0 w-full">
+            {/* Indentation and hierarchy */}
+            <div className="flex items-center gap-2">
+              {depth > 0 && (
+                <div 
+                  style={{ width: `${depth * 16}px` }}
+                  className="flex-shrink-0"
+                />
+              )}
+              {span.children.length > 0 && (
+                <button 
+                  className="p-1.5 rounded hover:bg-[#2A2A2A] flex-shrink-0 relative z-10 clickable"
+                  onClick={(e) => {
+                    e.stopPropagation();
+                    onToggle(span.id);
+                  }}
+                >
+                  <ChevronDown 
+                    className={`h-4 w-4 text-gray-400 transition-transform ${isExpanded ? '' : '-rotate-90'}`}
+                  />
+                </button>
+              )}
+              <div className="responsive-span-name">
+                {renderSpanName(span)}
+              </div>
+              {span.error && (
+                <span title={span.error.message} className="flex-shrink-0">
+                  <AlertCircle className="h-4 w-4 text-red-400" />
+                </span>
+              )}
+              {descendantErrors > 0 && (
+                <span
+                  className="flex-shrink-0 rounded-full bg-red-500/15 px-1.5 text-xs font-medium text-red-400"
+                  title={`${descendantErrors} failing ${descendantErrors === 1 ? 'span' : 'spans'} below`}
+                >
+                  {descendantErrors}
+                </span>
+              )}
+              {commentCount > 0 && (
+                <span
+                  className="flex flex-shrink-0 items-center gap-1 text-xs text-sky-400"
+                  title={`${commentCount} ${commentCount === 1 ? 'comment' : 'comments'}`}
+                >
+                  <MessageSquare className="h-3.5 w-3.5" />
+                  {commentCount}
+                </span>
+              )}
+              {labels && labels.length > 0 && (
+                <span className="flex-shrink-0" title={labels.join(', ')}>
+                  <Tag className="h-3.5 w-3.5 text-violet-400" />
+                </span>
+              )}
+            </div>
+          </div>
+        </div>
+        
+        {waterfall ? (
+          <div
+            {...{ [WATERFALL_TRACK_ATTRIBUTE]: 'row' }}
+            className="ml-4 relative flex-1 h-full overflow-hidden"
+          >
+            <WaterfallBar span={span} waterfall={waterfall} isCriticalPath={isCriticalPath} />
+          </div>
+        ) : (
+          // Duration and progress
+          <div className="flex items-center justify-end space-x-4 min-w-0 flex-1">
+            <div className="text-right text-sm text-gray-400 font-mono responsive-text-sm">
+              {formatDuration(duration)}
+            </div>
+            <div className="relative min-w-0 flex-shrink-0 responsive-progress-sm">
+              <div className="h-1.5 bg-[#2A2A2A] rounded-full overflow-hidden">
+                <div 
+                  className={`h-full rounded-full transition-all ${getProgressBarColor(span)}`}
+                  style={{ 
+                    width: `${Math.min(widthPercentage, 100)}%`,
+                    marginLeft: `${Math.min(startPercentage, 100)}%`,
+                    opacity: 0.8
+                  }}
+                />
+              </div>
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+});
+
+export default SpanRow;
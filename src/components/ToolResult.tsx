@@ -0,0 +1,57 @@
+import React from 'react';
+import { getCommandResult, getPayloadText } from '../services/transcript';
+
+interface ToolResultProps {
+  result: unknown;
+  error?: string | null;
+}
+
+// What a tool call returned. Command tools get their stdout, stderr and exit
+// code laid out separately; anything else is shown as text.
+const ToolResult: React.FC<ToolResultProps> = ({ result, error }) => {
+  if (error) {
+    return (
+      <div className="text-sm text-red-300 whitespace-pre-wrap break-words bg-red-500/10 rounded-md p-3">
+        {error}
+      </div>
+    );
+  }
+
+  const command = getCommandResult(result);
+  if (command) {
+    return (
+      <div className="rounded-md bg-[#232323] text-sm font-mono overflow-hidden">
+        {command.exitCode !== null && (
+          <div className="px-3 py-1.5 border-b border-[#2A2A2A] text-xs">
+            <span className="text-gray-500">exit code </span>
+            <span className={command.exitCode === 0 ? 'text-emerald-400' : 'text-red-400'}>{command.exitCode}</span>
+          </div>
+        )}
+        {command.stdout && (
+          <pre className="px-3 py-2 text-gray-200 whitespace-pre-wrap break-all max-h-64 overflow-y-auto">
+            {command.stdout}
+          </pre>
+        )}
+        {command.stderr && (
+          <pre className="px-3 py-2 text-red-300 whitespace-pre-wrap break-all max-h-64 overflow-y-auto border-t border-[#2A2A2A]">
+            {command.stderr}
+          </pre>
+        )}
+        {!command.stdout && !command.stderr && (
+          <div className="px-3 py-2 text-gray-500">No output</div>
+        )}
+      </div>
+    );
+  }
+
+  const text = getPayloadText(result);
+  return text ? (
+    <pre className="text-sm text-gray-200 bg-[#232323] p-3 rounded-md font-mono whitespace-pre-wrap break-all max-h-64 overflow-y-auto">
+      {text}
+    </pre>
+  ) : (
+    <div className="text-sm text-gray-500">No result</div>
+  );
+};
+
+export default ToolResult;
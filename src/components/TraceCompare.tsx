@@ -0,0 +1,398 @@
+import React, { memo, useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import { useNavigate, useParams } from 'react-router-dom';
+import { ArrowLeft, ChevronDown, Eye, EyeOff } from 'lucide-react';
+import { fetchTraceById, logRedactionReveal } from '../services/api';
+import type { TraceData } from '../services/api';
+import { UnauthorizedError } from '../services/auth';
+import { getSpanTokens } from '../services/spans';
+import type { TraceSpan } from '../services/spans';
+import { buildTree } from '../services/traceTree';
+import { redactSpans } from '../services/redaction';
+import { useRedactionRules } from '../hooks/useRedactionRules';
+import { getSpanDuration } from '../services/spanLayout';
+import { diffJsonLines, diffSpanTrees, flattenDiffTree, getChangedPathIds, summarizeDiff } from '../services/traceDiff';
+import type { DiffStatus, SpanDiffNode } from '../services/traceDiff';
+import VirtualList from './VirtualList';
+import { formatDuration, renderSpanName } from './spanDisplay';
+
+// h-10 row plus its 1px bottom border, same as the trace viewer
+const DIFF_ROW_HEIGHT = 41;
+
+const STATUS_STYLES: Record<DiffStatus, { label: string; marker: string; text: string }> = {
+  unchanged: { label: 'Unchanged', marker: '', text: 'text-gray-500' },
+  changed: { label: 'Changed', marker: 'bg-amber-400', text: 'text-amber-400' },
+  added: { label: 'Added', marker: 'bg-emerald-400', text: 'text-emerald-400' },
+  removed: { label: 'Removed', marker: 'bg-red-400', text: 'text-red-400' }
+};
+
+const formatDelta = (before: number, after: number, format: (value: number) => string) => {
+  const delta = after - before;
+  if (delta === 0) return '';
+  const percent = before !== 0 ? ` (${delta > 0 ? '+' : ''}${Math.round((delta / before) * 100)}%)` : '';
+  return `${delta > 0 ? '+' : '-'}${format(Math.abs(delta))}${percent}`;
+};
+
+interface DiffRowProps {
+  node: SpanDiffNode;
+  depth: number;
+  isExpanded: boolean;
+  isSelected: boolean;
+  onSelect: (id: string) => void;
+  onToggle: (id: string) => void;
+}
+
+const DiffRow = memo(({ node, depth, isExpanded, isSelected, onSelect, onToggle }: DiffRowProps) => {
+  const span = (node.after ?? node.before)!;
+  const style = STATUS_STYLES[node.status];
+  const durationBefore = node.before ? getSpanDuration(node.before) : null;
+  const durationAfter = node.after ? getSpanDuration(node.after) : null;
+
+  return (
+    <div
+      className={`relative h-full border-b border-[#2A2A2A] cursor-pointer transition-colors ${
+        isSelected ? 'bg-[#2A2A2A]' : 'bg-[#1C1C1C] hover:bg-[#232323]'
+      } ${node.status === 'removed' ? 'opacity-70' : ''}`}
+      onClick={() => onSelect(node.id)}
+    >
+      {style.marker && <div className={`absolute left-0 top-0 bottom-0 w-1 ${style.marker}`} />}
+      <div className="flex items-center h-10 px-6 gap-2 min-w-0">
+        {depth > 0 && <div style={{ width: `${depth * 16}px` }} className="flex-shrink-0" />}
+        {node.children.length > 0 ? (
+          <button
+            className="p-1.5 rounded hover:bg-[#2A2A2A] flex-shrink-0"
+            onClick={(e) => {
+              e.stopPropagation();
+              onToggle(node.id);
+            }}
+          >
+            <ChevronDown className={`h-4 w-4 text-gray-400 transition-transform ${isExpanded ? '' : '-rotate-90'}`} />
+          </button>
+        ) : (
+          <div className="w-7 flex-shrink-0" />
+        )}
+        <div className={`min-w-0 flex-1 ${node.status === 'removed' ? 'line-through decoration-gray-500' : ''}`}>
+          {renderSpanName(span)}
+        </div>
+        {node.changes.length > 0 && (
+          <span className="flex-shrink-0 text-xs text-amber-400/80">
+            {node.changes.join(', ')}
+          </span>
+        )}
+        <div className="flex-shrink-0 w-56 text-right text-sm font-mono text-gray-400 truncate">
+          {durationBefore !== null && durationAfter !== null ? (
+            <>
+              {formatDuration(durationBefore)} → {formatDuration(durationAfter)}
+            </>
+          ) : (
+            <span className={style.text}>{style.label} · {formatDuration((durationAfter ?? durationBefore)!)}</span>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+});
+
+const JsonDiff = ({ before, after }: { before: unknown; after: unknown }) => {
+  const lines = useMemo(() => diffJsonLines(before, after), [before, after]);
+  if (lines.length === 0) {
+    return <div className="text-sm text-gray-500">Empty on both sides</div>;
+  }
+
+  return (
+    <pre className="text-sm bg-[#232323] p-3 rounded-md font-mono overflow-x-auto">
+      {lines.map((line, index) => (
+        <div
+          key={index}
+          className={
+            line.type === 'added' ? 'bg-emerald-500/10 text-emerald-300' :
+            line.type === 'removed' ? 'bg-red-500/10 text-red-300' :
+            'text-gray-400'
+          }
+        >
+          <span className="select-none text-gray-600 mr-2">
+            {line.type === 'added' ? '+' : line.type === 'removed' ? '-' : ' '}
+          </span>
+          {line.text}
+        </div>
+      ))}
+    </pre>
+  );
+};
+
+const MetricRow = ({ label, before, after, delta }: { label: string; before: string; after: string; delta?: string }) => (
+  <tr className="border-b border-[#2A2A2A]">
+    <td className="py-2 pr-4 text-gray-400">{label}</td>
+    <td className="py-2 pr-4 font-mono text-gray-200">{before}</td>
+    <td className="py-2 pr-4 font-mono text-gray-200">{after}</td>
+    <td className="py-2 font-mono text-gray-400">{delta}</td>
+  </tr>
+);
+
+const formatTokens = (span: TraceSpan | null) => {
+  const tokens = span ? getSpanTokens(span) : undefined;
+  return tokens === undefined ? '-' : String(tokens);
+};
+
+const DiffDetail = ({ node }: { node: SpanDiffNode }) => {
+  const { before, after } = node;
+  const span = (after ?? before)!;
+  const style = STATUS_STYLES[node.status];
+  const tokensBefore = before ? getSpanTokens(before) : undefined;
+  const tokensAfter = after ? getSpanTokens(after) : undefined;
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center gap-3">
+        {renderSpanName(span)}
+        <span className={`text-xs font-medium ${style.text}`}>{style.label}</span>
+      </div>
+
+      <table className="w-full text-sm">
+        <thead>
+          <tr className="border-b border-[#2A2A2A] text-left text-gray-500">
+            <th className="py-2 pr-4 font-normal" />
+            <th className="py-2 pr-4 font-normal">Before</th>
+            <th className="py-2 pr-4 font-normal">After</th>
+            <th className="py-2 font-normal">Change</th>
+          </tr>
+        </thead>
+        <tbody>
+          <MetricRow
+            label="Duration"
+            before={before ? formatDuration(getSpanDuration(before)) : '-'}
+            after={after ? formatDuration(getSpanDuration(after)) : '-'}
+            delta={before && after ? formatDelta(getSpanDuration(before), getSpanDuration(after), formatDuration) : undefined}
+          />
+          <MetricRow
+            label="Tokens"
+            before={formatTokens(before)}
+            after={formatTokens(after)}
+            delta={tokensBefore !== undefined && tokensAfter !== undefined
+              ? formatDelta(tokensBefore, tokensAfter, String)
+              : undefined}
+          />
+          <MetricRow
+            label="Error"
+            before={before?.error?.message ?? '-'}
+            after={after?.error?.message ?? '-'}
+          />
+        </tbody>
+      </table>
+
+      <div className="space-y-2">
+        <h3 className="text-[13px] font-semibold text-gray-50">Input</h3>
+        <JsonDiff before={before?.span_data.input} after={after?.span_data.input} />
+      </div>
+      <div className="space-y-2">
+        <h3 className="text-[13px] font-semibold text-gray-50">Output</h3>
+        <JsonDiff before={before?.span_data.output} after={after?.span_data.output} />
+      </div>
+    </div>
+  );
+};
+
+/**
+ * Side-by-side comparison of two runs, e.g. before and after a prompt change.
+ * The span hierarchies are aligned by type and name (see diffSpanTrees) and
+ * shown as one tree marking what was added, removed or changed.
+ */
+const TraceCompare: React.FC = () => {
+  const { traceA, traceB } = useParams();
+  const navigate = useNavigate();
+  const [traces, setTraces] = useState<[TraceData, TraceData] | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [expanded, setExpanded] = useState<Set<string>>(new Set());
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [changesOnly, setChangesOnly] = useState(false);
+  // Payloads are redacted, as in the viewer, unless the user reveals them
+  const { rules: redactionRules } = useRedactionRules();
+  const [revealed, setRevealed] = useState(false);
+  const [revealError, setRevealError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!traceA || !traceB) return;
+    let cancelled = false;
+
+    setTraces(null);
+    setError(null);
+    setRevealed(false);
+    setRevealError(null);
+    Promise.all([fetchTraceById(traceA), fetchTraceById(traceB)])
+      .then(([responseA, responseB]) => {
+        if (cancelled) return;
+        if (!responseA.success || !responseA.data || !responseB.success || !responseB.data) {
+          setError('Invalid trace data format received');
+          return;
+        }
+        setTraces([responseA.data, responseB.data]);
+      })
+      .catch(error => {
+        // RequireAuth redirects to the login page once the session is cleared
+        if (cancelled || error instanceof UnauthorizedError) return;
+        console.error('Error loading traces for comparison:', error);
+        setError('Failed to load traces. Please try again.');
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [traceA, traceB]);
+
+  const diff = useMemo(() => {
+    if (!traces) return [];
+    const [before, after] = traces.map(trace => {
+      const spans = trace.spans || [];
+      return buildTree(revealed ? spans : redactSpans(spans, redactionRules)).roots;
+    });
+    return diffSpanTrees(before, after);
+  }, [traces, revealed, redactionRules]);
+  const summary = useMemo(() => summarizeDiff(diff), [diff]);
+  const nodesById = useMemo(() => {
+    const nodes = new Map<string, SpanDiffNode>();
+    const stack = [...diff];
+    while (stack.length > 0) {
+      const node = stack.pop()!;
+      nodes.set(node.id, node);
+      stack.push(...node.children);
+    }
+    return nodes;
+  }, [diff]);
+
+  // Open everything that leads to a difference, once per pair of traces. The
+  // diff is also recomputed when redaction rules load or a reveal toggles;
+  // node ids don't change then, so the user's own expansion is kept.
+  const seededTracesRef = useRef<[TraceData, TraceData] | null>(null);
+  useEffect(() => {
+    if (!traces || seededTracesRef.current === traces) return;
+    seededTracesRef.current = traces;
+    setExpanded(getChangedPathIds(diff));
+  }, [traces, diff]);
+
+  // Kept when the diff is only recomputed for a reveal
+  useEffect(() => {
+    setSelectedId(null);
+  }, [traces]);
+
+  const rows = useMemo(() => flattenDiffTree(diff, expanded, changesOnly), [diff, expanded, changesOnly]);
+  const selectedNode = selectedId ? nodesById.get(selectedId) ?? null : null;
+
+  const toggleNode = useCallback((id: string) => {
+    setExpanded(prev => {
+      const next = new Set(prev);
+      if (next.has(id)) {
+        next.delete(id);
+      } else {
+        next.add(id);
+      }
+      return next;
+    });
+  }, []);
+
+  // Revealing is only allowed once it has been logged for both traces, the
+  // same as in the viewer
+  const toggleReveal = async () => {
+    const next = !revealed;
+    try {
+      await Promise.all([traceA, traceB].map(traceId =>
+        logRedactionReveal({ trace_id: traceId ?? null, revealed: next })
+      ));
+    } catch (error) {
+      // RequireAuth takes care of the redirect once the session is cleared.
+      if (error instanceof UnauthorizedError) return;
+      console.error('Error logging redaction reveal:', error);
+      if (next) {
+        setRevealError("Couldn't record the reveal, so values stay redacted. Please try again.");
+        return;
+      }
+    }
+    setRevealError(null);
+    setRevealed(next);
+  };
+
+  return (
+    <div className="min-h-screen bg-[#1C1C1C] flex flex-col">
+      <header className="bg-[#1C1C1C] border-b border-[#2A2A2A] sticky top-0 z-50">
+        <div className="max-w-[1600px] mx-auto">
+          <div className="flex h-14 px-4 items-center justify-between">
+            <div className="flex items-center space-x-2 min-w-0">
+              <button
+                className="text-gray-400 hover:text-gray-300 p-1 rounded hover:bg-gray-800"
+                onClick={() => navigate('/')}
+              >
+                <ArrowLeft className="h-4 w-4" />
+              </button>
+              <h1 className="text-[15px] font-medium text-gray-200">Compare</h1>
+              <span className="text-gray-600">/</span>
+              <button className="text-[15px] text-gray-400 hover:text-gray-300 truncate" onClick={() => navigate(`/trace/${encodeURIComponent(traceA ?? '')}`)}>
+                {traces?.[0].workflow_name ?? traceA}
+              </button>
+              <span className="text-gray-600">→</span>
+              <button className="text-[15px] text-gray-400 hover:text-gray-300 truncate" onClick={() => navigate(`/trace/${encodeURIComponent(traceB ?? '')}`)}>
+                {traces?.[1].workflow_name ?? traceB}
+              </button>
+            </div>
+            <div className="flex items-center gap-4 text-sm">
+              <span className={STATUS_STYLES.added.text}>{summary.added} added</span>
+              <span className={STATUS_STYLES.removed.text}>{summary.removed} removed</span>
+              <span className={STATUS_STYLES.changed.text}>{summary.changed} changed</span>
+              <label className="flex items-center gap-2 text-gray-400 cursor-pointer">
+                <input type="checkbox" checked={changesOnly} onChange={(e) => setChangesOnly(e.target.checked)} />
+                Differences only
+              </label>
+              {traces && (
+                <button
+                  onClick={toggleReveal}
+                  className={`flex items-center gap-2 px-3 py-1.5 rounded hover:bg-gray-800 ${
+                    revealed ? 'text-amber-400 hover:text-amber-300' : 'text-gray-400 hover:text-gray-300'
+                  }`}
+                  title={revealed ? 'Redact sensitive values again' : 'Show values hidden by your redaction rules (logged)'}
+                >
+                  {revealed ? <EyeOff className="h-4 w-4" /> : <Eye className="h-4 w-4" />}
+                  {revealed ? 'Redact' : 'Reveal'}
+                </button>
+              )}
+            </div>
+          </div>
+        </div>
+      </header>
+
+      {(error || revealError) && (
+        <div className="bg-red-500/10 border-b border-red-500/20 px-4 py-2 text-sm text-red-400">
+          {error || revealError}
+        </div>
+      )}
+
+      <main className="flex-1">
+        <div className="max-w-[1600px] mx-auto h-[calc(100vh-3.5rem)] flex">
+          <VirtualList
+            items={rows}
+            rowHeight={DIFF_ROW_HEIGHT}
+            getKey={row => row.node.id}
+            renderRow={row => (
+              <DiffRow
+                node={row.node}
+                depth={row.depth}
+                isExpanded={row.isExpanded}
+                isSelected={row.node.id === selectedId}
+                onSelect={setSelectedId}
+                onToggle={toggleNode}
+              />
+            )}
+            className="w-3/5"
+          />
+          <div className="w-2/5 overflow-y-auto border-l border-[#2A2A2A] p-6">
+            {selectedNode ? (
+              <DiffDetail node={selectedNode} />
+            ) : (
+              <div className="text-sm text-gray-500">
+                {traces ? 'Select a span to compare its details' : !error && 'Loading traces…'}
+              </div>
+            )}
+          </div>
+        </div>
+      </main>
+    </div>
+  );
+};
+
+export default TraceCompare;
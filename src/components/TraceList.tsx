@@ -1,5 +1,5 @@
-import React, { useState, useEffect } from 'react';
-import { useNavigate } from 'react-router-dom';
+import React, { useState, useEffect, useCallback, useMemo } from 'react';
+import { Link as RouterLink, useNavigate, useSearchParams } from 'react-router-dom';
 import {
   Table,
   TableBody,
@@ -13,85 +13,303 @@ import {
   Select,
   MenuItem,
   FormControl,
+  FormHelperText,
   InputLabel,
   Box,
   Typography,
   SelectChangeEvent,
+  Alert,
+  Button,
+  Checkbox,
+  Link,
 } from '@mui/material';
 import { fetchTraces } from '../services/api';
-import type { TraceData } from '../services/api';
+import type { TraceData, TraceQuery, TraceSortField } from '../services/api';
+import { getSession, logout, UnauthorizedError } from '../services/auth';
+import { estimateTraceCost, formatCost } from '../services/usage';
+import { sessionPath } from '../services/sessions';
+import { useModelPrices } from '../hooks/useModelPrices';
+
+type CompletionFilter = 'all' | 'complete' | 'running';
+
+// Cost is priced here with the user's price table, so it can only sort the
+// traces already loaded; the server pages them newest first meanwhile
+type ListSortField = TraceSortField | 'cost';
+
+const SORT_FIELDS: ListSortField[] = ['workflow_name', 'trace_id', 'created_at', 'updated_at', 'total_tokens', 'cost'];
+const ROWS_PER_PAGE_OPTIONS = [5, 10, 25];
+const SEARCH_DEBOUNCE_MS = 300;
+
+// All list state lives in the query string so a filtered view can be
+// bookmarked or shared. Missing/invalid params fall back to these defaults.
+const DEFAULT_SORT_BY: ListSortField = 'workflow_name';
+const DEFAULT_SORT_ORDER = 'asc';
+const DEFAULT_ROWS_PER_PAGE = 5;
+
+const parseListParams = (params: URLSearchParams) => {
+  const sortBy = params.get('sort') as ListSortField | null;
+  const order = params.get('order');
+  const status = params.get('status');
+  const page = parseInt(params.get('page') || '', 10);
+  const rowsPerPage = parseInt(params.get('rows') || '', 10);
+
+  return {
+    search: params.get('q') || '',
+    sortBy: sortBy && SORT_FIELDS.includes(sortBy) ? sortBy : DEFAULT_SORT_BY,
+    sortOrder: (order === 'asc' || order === 'desc' ? order : DEFAULT_SORT_ORDER) as 'asc' | 'desc',
+    groupId: params.get('group') || '',
+    status: (status === 'complete' || status === 'running' ? status : 'all') as CompletionFilter,
+    createdFrom: params.get('from') || '',
+    createdTo: params.get('to') || '',
+    page: Number.isFinite(page) && page > 0 ? page : 0,
+    rowsPerPage: ROWS_PER_PAGE_OPTIONS.includes(rowsPerPage) ? rowsPerPage : DEFAULT_ROWS_PER_PAGE,
+  };
+};
 
 const TraceList: React.FC = () => {
   const navigate = useNavigate();
+  const [searchParams, setSearchParams] = useSearchParams();
+  const { search, sortBy, sortOrder, groupId, status, createdFrom, createdTo, page, rowsPerPage } =
+    parseListParams(searchParams);
   const [traces, setTraces] = useState<TraceData[]>([]);
-  const [page, setPage] = useState(0);
-  const [rowsPerPage, setRowsPerPage] = useState(5);
   const [totalCount, setTotalCount] = useState(0);
-  const [searchTerm, setSearchTerm] = useState('');
-  const [sortBy, setSortBy] = useState('workflow_name');
-  const [sortOrder, setSortOrder] = useState<'asc' | 'desc'>('asc');
+  const [searchInput, setSearchInput] = useState(search);
+  const [groupIdInput, setGroupIdInput] = useState(groupId);
   const [error, setError] = useState<string | null>(null);
+  // Trace ids picked for comparison, oldest first; at most two
+  const [compareIds, setCompareIds] = useState<string[]>([]);
+  const { prices } = useModelPrices();
 
-  const loadTraces = async () => {
-    try {
-      const response = await fetchTraces(page + 1, rowsPerPage);
-      setTraces(response.data || []);
-      setTotalCount(response.pagination?.total || 0);
-      setError(null);
-    } catch (error) {
-      console.error('Error fetching traces:', error);
-      setError('Failed to load traces. Please check your authentication.');
-    }
-  };
+  // Writes the given params (empty string removes one) and, unless the page
+  // itself is changing, resets pagination since the result set changed.
+  const updateParams = useCallback((patch: Record<string, string>) => {
+    setSearchParams(prev => {
+      const next = new URLSearchParams(prev);
+      Object.entries(patch).forEach(([key, value]) => {
+        if (value) {
+          next.set(key, value);
+        } else {
+          next.delete(key);
+        }
+      });
+      if (!('page' in patch)) {
+        next.delete('page');
+      }
+      return next;
+    }, { replace: true });
+  }, [setSearchParams]);
+
+  useEffect(() => {
+    const query: TraceQuery = {
+      page: page + 1,
+      limit: rowsPerPage,
+      search: search || undefined,
+      ...(sortBy === 'cost' ? { sortBy: 'created_at', sortOrder: 'desc' } : { sortBy, sortOrder }),
+      groupId: groupId || undefined,
+      isComplete: status === 'all' ? undefined : status === 'complete',
+      createdFrom: createdFrom || undefined,
+      createdTo: createdTo || undefined,
+    };
+    // A slower response for an earlier query must not replace a newer one
+    let cancelled = false;
+
+    fetchTraces(query)
+      .then(response => {
+        if (cancelled) return;
+        setTraces(response.data || []);
+        setTotalCount(response.pagination?.total || 0);
+        setError(null);
+      })
+      .catch(error => {
+        // RequireAuth takes care of the redirect once the session is cleared.
+        if (cancelled || error instanceof UnauthorizedError) return;
+        console.error('Error fetching traces:', error);
+        setError('Failed to load traces. Please try again.');
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [page, rowsPerPage, search, sortBy, sortOrder, groupId, status, createdFrom, createdTo]);
+
+  // Keep the text inputs in sync when the URL changes underneath them
+  // (back/forward navigation, opening a shared link).
+  useEffect(() => {
+    setSearchInput(search);
+  }, [search]);
+
+  useEffect(() => {
+    setGroupIdInput(groupId);
+  }, [groupId]);
 
+  // Debounce free-text inputs so we don't hit the API on every keystroke
   useEffect(() => {
-    loadTraces();
-  }, [page, rowsPerPage, sortBy, sortOrder]);
+    if (searchInput === search && groupIdInput === groupId) return;
+    const timeout = setTimeout(() => {
+      updateParams({ q: searchInput.trim(), group: groupIdInput.trim() });
+    }, SEARCH_DEBOUNCE_MS);
+    return () => clearTimeout(timeout);
+  }, [searchInput, groupIdInput, search, groupId, updateParams]);
 
-  const handleChangePage = (event: React.MouseEvent<HTMLButtonElement> | null, newPage: number) => {
-    setPage(newPage);
+  const handleChangePage = (_event: React.MouseEvent<HTMLButtonElement> | null, newPage: number) => {
+    updateParams({ page: newPage > 0 ? String(newPage) : '' });
   };
 
   const handleChangeRowsPerPage = (event: React.ChangeEvent<HTMLInputElement>) => {
-    setRowsPerPage(parseInt(event.target.value, 10));
-    setPage(0);
+    updateParams({ rows: event.target.value });
   };
 
   const handleTraceClick = (traceId: string) => {
-    navigate(`/trace/${traceId}`);
+    navigate(`/trace/${encodeURIComponent(traceId)}`);
+  };
+
+  const getTraceCost = useCallback(
+    (trace: TraceData) => (trace.usage?.by_model ? estimateTraceCost(trace.usage.by_model, prices) : null),
+    [prices]
+  );
+
+  const formatTraceCost = (trace: TraceData) => {
+    const cost = getTraceCost(trace);
+    return cost === null ? '-' : formatCost(cost);
+  };
+
+  // Traces without a price go last either way
+  const sortedTraces = useMemo(() => {
+    if (sortBy !== 'cost') return traces;
+    const direction = sortOrder === 'asc' ? 1 : -1;
+    return [...traces].sort((a, b) => {
+      const costA = getTraceCost(a);
+      const costB = getTraceCost(b);
+      if (costA === null || costB === null) return (costA === null ? 1 : 0) - (costB === null ? 1 : 0);
+      return (costA - costB) * direction;
+    });
+  }, [traces, sortBy, sortOrder, getTraceCost]);
+
+  const handleCompareToggle = (traceId: string) => {
+    setCompareIds(prev => prev.includes(traceId)
+      ? prev.filter(id => id !== traceId)
+      : [...prev, traceId].slice(-2));
+  };
+
+  const handleCompare = () => {
+    const [traceA, traceB] = compareIds;
+    navigate(`/compare/${encodeURIComponent(traceA)}/${encodeURIComponent(traceB)}`);
   };
 
   const handleSearchChange = (event: React.ChangeEvent<HTMLInputElement>) => {
-    setSearchTerm(event.target.value);
+    setSearchInput(event.target.value);
+  };
+
+  const handleGroupIdChange = (event: React.ChangeEvent<HTMLInputElement>) => {
+    setGroupIdInput(event.target.value);
   };
 
   const handleSortByChange = (event: SelectChangeEvent) => {
-    setSortBy(event.target.value);
+    updateParams({ sort: event.target.value });
   };
 
   const handleSortOrderChange = (event: SelectChangeEvent) => {
-    setSortOrder(event.target.value as 'asc' | 'desc');
+    updateParams({ order: event.target.value });
   };
 
-  const filteredTraces = traces.filter((trace) =>
-    trace.workflow_name.toLowerCase().includes(searchTerm.toLowerCase())
-  );
+  const handleStatusChange = (event: SelectChangeEvent) => {
+    updateParams({ status: event.target.value === 'all' ? '' : event.target.value });
+  };
+
+  const handleClearFilters = () => {
+    setSearchInput('');
+    setGroupIdInput('');
+    setSearchParams(new URLSearchParams(), { replace: true });
+  };
+
+  const hasFilters = Boolean(search || groupId || status !== 'all' || createdFrom || createdTo);
 
   return (
     <Box sx={{ p: 3 }}>
-      <Typography variant="h4" gutterBottom>
-        Traces
-      </Typography>
-      
-      <Box sx={{ mb: 3, display: 'flex', gap: 2 }}>
+      <Box sx={{ display: 'flex', alignItems: 'center', justifyContent: 'space-between' }}>
+        <Typography variant="h4" gutterBottom>
+          Traces
+        </Typography>
+        <Box sx={{ display: 'flex', alignItems: 'center', gap: 2 }}>
+          <Button size="small" onClick={() => navigate('/local')}>
+            Open file
+          </Button>
+          <Button size="small" onClick={() => navigate('/sessions')}>
+            Sessions
+          </Button>
+          <Button size="small" onClick={() => navigate('/dashboard')}>
+            Dashboard
+          </Button>
+          <Button size="small" onClick={() => navigate('/review')}>
+            Review
+          </Button>
+          <Button size="small" onClick={() => navigate('/settings/redaction')}>
+            Redaction
+          </Button>
+          <Typography variant="body2" color="text.secondary">
+            {getSession()?.username}
+          </Typography>
+          <Button variant="outlined" size="small" onClick={() => logout()}>
+            Sign out
+          </Button>
+        </Box>
+      </Box>
+
+      {error && (
+        <Alert severity="error" sx={{ mb: 3 }}>
+          {error}
+        </Alert>
+      )}
+
+      <Box sx={{ mb: 3, display: 'flex', flexWrap: 'wrap', gap: 2 }}>
         <TextField
-          label="Search by workflow name"
+          label="Search"
+          placeholder="Workflow name or trace ID"
           variant="outlined"
-          value={searchTerm}
+          value={searchInput}
           onChange={handleSearchChange}
           size="small"
         />
-        
+
+        <TextField
+          label="Group ID"
+          variant="outlined"
+          value={groupIdInput}
+          onChange={handleGroupIdChange}
+          size="small"
+        />
+
+        <FormControl size="small" sx={{ minWidth: 140 }}>
+          <InputLabel>Status</InputLabel>
+          <Select
+            value={status}
+            label="Status"
+            onChange={handleStatusChange}
+          >
+            <MenuItem value="all">All</MenuItem>
+            <MenuItem value="complete">Complete</MenuItem>
+            <MenuItem value="running">In progress</MenuItem>
+          </Select>
+        </FormControl>
+
+        <TextField
+          label="Created from"
+          type="date"
+          value={createdFrom}
+          onChange={(event) => updateParams({ from: event.target.value })}
+          size="small"
+          slotProps={{ inputLabel: { shrink: true } }}
+        />
+
+        <TextField
+          label="Created to"
+          type="date"
+          value={createdTo}
+          onChange={(event) => updateParams({ to: event.target.value })}
+          size="small"
+          slotProps={{ inputLabel: { shrink: true } }}
+        />
+
         <FormControl size="small" sx={{ minWidth: 200 }}>
           <InputLabel>Sort by</InputLabel>
           <Select
@@ -100,10 +318,17 @@ const TraceList: React.FC = () => {
             onChange={handleSortByChange}
           >
             <MenuItem value="workflow_name">Workflow Name</MenuItem>
-            <MenuItem value="id">Trace ID</MenuItem>
+            <MenuItem value="trace_id">Trace ID</MenuItem>
+            <MenuItem value="created_at">Created At</MenuItem>
+            <MenuItem value="updated_at">Updated At</MenuItem>
+            <MenuItem value="total_tokens">Tokens</MenuItem>
+            <MenuItem value="cost">Cost (this page)</MenuItem>
           </Select>
+          {sortBy === 'cost' && (
+            <FormHelperText>Sorts the traces on this page only</FormHelperText>
+          )}
         </FormControl>
-        
+
         <FormControl size="small" sx={{ minWidth: 120 }}>
           <InputLabel>Order</InputLabel>
           <Select
@@ -115,35 +340,97 @@ const TraceList: React.FC = () => {
             <MenuItem value="desc">Descending</MenuItem>
           </Select>
         </FormControl>
+
+        {hasFilters && (
+          <Button size="small" onClick={handleClearFilters}>
+            Clear filters
+          </Button>
+        )}
+
+        <Button
+          variant="contained"
+          size="small"
+          disabled={compareIds.length !== 2}
+          onClick={handleCompare}
+          sx={{ ml: 'auto' }}
+        >
+          {compareIds.length === 2 ? 'Compare selected' : `Select ${2 - compareIds.length} to compare`}
+        </Button>
       </Box>
 
       <TableContainer component={Paper}>
         <Table>
           <TableHead>
             <TableRow>
+              <TableCell padding="checkbox" />
               <TableCell>Trace ID</TableCell>
               <TableCell>Workflow Name</TableCell>
               <TableCell>Group ID</TableCell>
+              <TableCell>Status</TableCell>
+              <TableCell>Errors</TableCell>
+              <TableCell align="right">Comments</TableCell>
+              <TableCell align="right">Tokens</TableCell>
+              <TableCell align="right">Cost</TableCell>
               <TableCell>Created At</TableCell>
               <TableCell>Metadata</TableCell>
             </TableRow>
           </TableHead>
           <TableBody>
-            {filteredTraces.map((trace) => (
+            {sortedTraces.map((trace) => (
               <TableRow
                 key={trace._id}
                 onClick={() => handleTraceClick(trace.trace_id)}
                 sx={{ cursor: 'pointer', '&:hover': { backgroundColor: '#f5f5f5' } }}
               >
+                <TableCell padding="checkbox" onClick={(event) => event.stopPropagation()}>
+                  <Checkbox
+                    size="small"
+                    checked={compareIds.includes(trace.trace_id)}
+                    onChange={() => handleCompareToggle(trace.trace_id)}
+                    inputProps={{ 'aria-label': 'Select for comparison' }}
+                  />
+                </TableCell>
                 <TableCell>{trace.trace_id}</TableCell>
                 <TableCell>{trace.workflow_name}</TableCell>
-                <TableCell>{trace.group_id || '-'}</TableCell>
+                <TableCell onClick={(event) => event.stopPropagation()}>
+                  {trace.group_id ? (
+                    <Link component={RouterLink} to={sessionPath(trace.group_id)} underline="hover">
+                      {trace.group_id}
+                    </Link>
+                  ) : '-'}
+                </TableCell>
+                <TableCell>{trace.isComplete ? 'Complete' : 'In progress'}</TableCell>
+                <TableCell>
+                  {trace.error_count ? (
+                    <Typography variant="body2" color="error">
+                      {trace.error_count}
+                    </Typography>
+                  ) : '-'}
+                </TableCell>
+                <TableCell align="right">
+                  {trace.comment_count || '-'}
+                </TableCell>
+                <TableCell align="right">
+                  {trace.usage?.total_tokens !== undefined ? trace.usage.total_tokens.toLocaleString() : '-'}
+                </TableCell>
+                <TableCell align="right">
+                  {formatTraceCost(trace)}
+                </TableCell>
                 <TableCell>{new Date(trace.created_at).toLocaleString()}</TableCell>
                 <TableCell>
                   {trace.metadata ? JSON.stringify(trace.metadata) : '-'}
                 </TableCell>
               </TableRow>
             ))}
+            {traces.length === 0 && !error && (
+              <TableRow>
+                <TableCell colSpan={11} align="center">
+                  <Typography variant="body2" color="text.secondary">
+                    {hasFilters ? 'No traces match these filters' : 'No traces yet'}
+                  </Typography>
+                </TableCell>
+              </TableRow>
+            )}
           </TableBody>
         </Table>
       </TableContainer>
@@ -155,10 +442,10 @@ const TraceList: React.FC = () => {
         onPageChange={handleChangePage}
         rowsPerPage={rowsPerPage}
         onRowsPerPageChange={handleChangeRowsPerPage}
-        rowsPerPageOptions={[5, 10, 25]}
+        rowsPerPageOptions={ROWS_PER_PAGE_OPTIONS}
       />
     </Box>
   );
 };
 
-export default TraceList; 
\ No newline at end of file
+export default TraceList;
@@ -0,0 +1,88 @@
+import React from 'react';
+import { ChevronDown, ChevronUp, Search, X } from 'lucide-react';
+
+interface TraceSearchBarProps {
+  value: string;
+  onChange: (value: string) => void;
+  matchCount: number;
+  // Index of the current match, -1 when there is none
+  currentMatch: number;
+  onNext: () => void;
+  onPrevious: () => void;
+  error: string | null;
+  inputRef?: React.Ref<HTMLInputElement>;
+}
+
+const TraceSearchBar: React.FC<TraceSearchBarProps> = ({
+  value, onChange, matchCount, currentMatch, onNext, onPrevious, error, inputRef
+}) => {
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === 'Enter') {
+      e.preventDefault();
+      if (e.shiftKey) {
+        onPrevious();
+      } else {
+        onNext();
+      }
+    } else if (e.key === 'Escape') {
+      e.preventDefault();
+      if (value) {
+        onChange('');
+      } else {
+        e.currentTarget.blur();
+      }
+    }
+  };
+
+  return (
+    <div
+      className={`flex items-center gap-1 h-8 rounded-md border bg-[#232323] px-2 ${
+        error ? 'border-red-500/50' : 'border-[#2A2A2A] focus-within:border-[#3A3A3A]'
+      }`}
+      title={error ?? 'Search spans, e.g. type:function name:read_file config.yaml or /regex/'}
+    >
+      <Search className="h-4 w-4 text-gray-500 flex-shrink-0" />
+      <input
+        ref={inputRef}
+        value={value}
+        onChange={(e) => onChange(e.target.value)}
+        onKeyDown={handleKeyDown}
+        placeholder="Search spans"
+        className="w-56 bg-transparent text-sm text-gray-200 placeholder-gray-500 outline-none responsive-width-sm"
+        spellCheck={false}
+      />
+      {value && (
+        <>
+          <span className={`text-xs font-mono flex-shrink-0 ${error ? 'text-red-400' : 'text-gray-400'}`}>
+            {error ? 'invalid' : matchCount > 0 ? `${currentMatch + 1}/${matchCount}` : '0/0'}
+          </span>
+          <button
+            className="p-0.5 rounded text-gray-400 hover:text-gray-300 hover:bg-gray-800 disabled:opacity-40 clickable"
+            onClick={onPrevious}
+            disabled={matchCount === 0}
+            title="Previous match (Shift+Enter)"
+          >
+            <ChevronUp className="h-4 w-4" />
+          </button>
+          <button
+            className="p-0.5 rounded text-gray-400 hover:text-gray-300 hover:bg-gray-800 disabled:opacity-40 clickable"
+            onClick={onNext}
+            disabled={matchCount === 0}
+            title="Next match (Enter)"
+          >
+            <ChevronDown className="h-4 w-4" />
+          </button>
+          <button
+            className="p-0.5 rounded text-gray-400 hover:text-gray-300 hover:bg-gray-800 clickable"
+            onClick={() => onChange('')}
+            title="Clear search"
+          >
+            <X className="h-4 w-4" />
+          </button>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default TraceSearchBar;
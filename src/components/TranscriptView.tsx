@@ -0,0 +1,127 @@
+import React from 'react';
+import { ArrowRight, Terminal } from 'lucide-react';
+import { getPayloadText } from '../services/transcript';
+import type { TranscriptEntry } from '../services/transcript';
+import ToolResult from './ToolResult';
+
+export type TranscriptScope = 'selection' | 'trace';
+
+interface TranscriptViewProps {
+  entries: TranscriptEntry[];
+  scope: TranscriptScope;
+  onScopeChange: (scope: TranscriptScope) => void;
+  // Whether there is a selected span to stop the transcript at
+  hasSelection: boolean;
+  selectedSpanId: string | null;
+  onSelect: (spanId: string) => void;
+}
+
+const SCOPE_OPTIONS: { value: TranscriptScope; label: string }[] = [
+  { value: 'selection', label: 'Up to selected span' },
+  { value: 'trace', label: 'Whole trace' }
+];
+
+const renderEntry = (entry: TranscriptEntry) => {
+  switch (entry.kind) {
+    case 'system':
+      return (
+        <details className="rounded-md border border-[#2A2A2A] bg-[#232323]">
+          <summary className="px-3 py-2 text-xs text-gray-400 cursor-pointer">
+            System instructions · {entry.agent}
+          </summary>
+          <div className="px-3 pb-3 text-sm text-gray-300 whitespace-pre-wrap break-words">
+            {entry.content}
+          </div>
+        </details>
+      );
+    case 'message':
+      return entry.role === 'user' ? (
+        <div className="flex justify-end">
+          <div className="max-w-[85%] rounded-lg bg-blue-500/15 px-3 py-2 text-sm text-gray-100 whitespace-pre-wrap break-words">
+            {entry.content}
+          </div>
+        </div>
+      ) : (
+        <div className="max-w-[85%] space-y-1">
+          {entry.agent && <div className="text-xs text-gray-500">{entry.agent}</div>}
+          <div className="rounded-lg bg-[#2A2A2A] px-3 py-2 text-sm text-gray-100 whitespace-pre-wrap break-words">
+            {entry.content}
+          </div>
+        </div>
+      );
+    case 'tool': {
+      const args = getPayloadText(entry.args);
+      return (
+        <div className={`rounded-md border ${entry.error ? 'border-red-500/30' : 'border-[#2A2A2A]'} text-sm`}>
+          <div className="flex items-center gap-2 px-3 py-2 border-b border-[#2A2A2A]">
+            <Terminal className="h-4 w-4 text-emerald-400 flex-shrink-0" />
+            <span className="font-mono text-gray-200">{entry.name}</span>
+          </div>
+          {args && (
+            <pre className="px-3 py-2 text-gray-400 font-mono whitespace-pre-wrap break-all border-b border-[#2A2A2A]">
+              {args}
+            </pre>
+          )}
+          <div className="p-2">
+            <ToolResult result={entry.result} error={entry.error} />
+          </div>
+        </div>
+      );
+    }
+    case 'handoff':
+      return (
+        <div className="flex items-center gap-3 text-xs text-orange-400">
+          <div className="h-px flex-1 bg-orange-500/30" />
+          <span className="flex items-center gap-1.5">
+            {entry.from ?? 'Agent'}
+            <ArrowRight className="h-3 w-3" />
+            {entry.to ?? 'unknown agent'}
+          </span>
+          <div className="h-px flex-1 bg-orange-500/30" />
+        </div>
+      );
+  }
+};
+
+/**
+ * The run rebuilt as a chat (see buildTranscript). Clicking an entry selects
+ * the span it came from.
+ */
+const TranscriptView: React.FC<TranscriptViewProps> = ({ entries, scope, onScopeChange, hasSelection, selectedSpanId, onSelect }) => (
+  <div className="space-y-4">
+    <div className="flex items-center gap-1 rounded-md border border-[#2A2A2A] p-0.5 w-fit">
+      {SCOPE_OPTIONS.map(option => (
+        <button
+          key={option.value}
+          className={`px-2.5 py-1 rounded text-xs clickable ${
+            scope === option.value ? 'bg-[#2A2A2A] text-gray-200' : 'text-gray-500 hover:text-gray-400'
+          }`}
+          disabled={option.value === 'selection' && !hasSelection}
+          onClick={() => onScopeChange(option.value)}
+        >
+          {option.label}
+        </button>
+      ))}
+    </div>
+
+    {entries.length === 0 ? (
+      <p className="text-sm text-gray-500">Nothing to show yet</p>
+    ) : (
+      <div className="space-y-3">
+        {entries.map((entry, index) => (
+          <div
+            key={`${entry.spanId}:${index}`}
+            className={`rounded-md p-1 -m-1 cursor-pointer ${
+              entry.spanId === selectedSpanId ? 'ring-1 ring-blue-500/40' : 'hover:bg-[#232323]'
+            }`}
+            onClick={() => onSelect(entry.spanId)}
+          >
+            {renderEntry(entry)}
+          </div>
+        ))}
+      </div>
+    )}
+  </div>
+);
+
+export default TranscriptView;
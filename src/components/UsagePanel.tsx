@@ -0,0 +1,185 @@
+import React, { useState } from 'react';
+import { ChevronDown, Plus, X } from 'lucide-react';
+import { formatCost } from '../services/usage';
+import type { ModelPrice, UsageGroup, UsageSummary } from '../services/usage';
+import { getSpanIcon } from './spanDisplay';
+
+interface UsagePanelProps {
+  summary: UsageSummary;
+  prices: ModelPrice[];
+  onPricesChange: (prices: ModelPrice[]) => void;
+  onResetPrices: () => void;
+  onSelectSpan: (spanId: string) => void;
+}
+
+const formatTokens = (tokens: number) => tokens.toLocaleString();
+
+const StatCard = ({ label, value, hint }: { label: string; value: string; hint?: string }) => (
+  <div className="border border-[#2A2A2A] rounded-md px-3 py-2">
+    <div className="text-xs text-gray-500">{label}</div>
+    <div className="text-[15px] text-gray-100 font-mono">{value}</div>
+    {hint && <div className="text-xs text-amber-400/80 mt-0.5">{hint}</div>}
+  </div>
+);
+
+const UsageTable = ({ title, countLabel, groups }: { title: string; countLabel: string; groups: UsageGroup[] }) => {
+  if (groups.length === 0) return null;
+
+  return (
+    <div className="space-y-2">
+      <h3 className="text-[13px] font-semibold text-gray-50">{title}</h3>
+      <table className="w-full text-sm">
+        <thead>
+          <tr className="border-b border-[#2A2A2A] text-left text-gray-500">
+            <th className="py-1.5 pr-3 font-normal">Name</th>
+            <th className="py-1.5 pr-3 font-normal text-right">{countLabel}</th>
+            <th className="py-1.5 pr-3 font-normal text-right">Prompt</th>
+            <th className="py-1.5 pr-3 font-normal text-right">Completion</th>
+            <th className="py-1.5 font-normal text-right">Cost</th>
+          </tr>
+        </thead>
+        <tbody>
+          {groups.map(group => (
+            <tr key={group.key} className="border-b border-[#2A2A2A] last:border-0">
+              <td className="py-1.5 pr-3 text-gray-200 break-all">{group.key}</td>
+              <td className="py-1.5 pr-3 text-right font-mono text-gray-400">{group.count}</td>
+              <td className="py-1.5 pr-3 text-right font-mono text-gray-300">{formatTokens(group.inputTokens)}</td>
+              <td className="py-1.5 pr-3 text-right font-mono text-gray-300">{formatTokens(group.outputTokens)}</td>
+              <td className="py-1.5 text-right font-mono text-gray-200">
+                {group.unpricedTokens === group.totalTokens && group.totalTokens > 0 ? '-' : formatCost(group.cost)}
+              </td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+};
+
+const PriceEditor = ({ prices, onChange, onReset }: { prices: ModelPrice[]; onChange: (prices: ModelPrice[]) => void; onReset: () => void }) => {
+  const updatePrice = (index: number, patch: Partial<ModelPrice>) => {
+    onChange(prices.map((price, i) => (i === index ? { ...price, ...patch } : price)));
+  };
+  const inputClasses = 'bg-[#232323] border border-[#2A2A2A] rounded px-2 py-1 text-sm text-gray-200 focus:outline-none focus:border-blue-500/50';
+
+  return (
+    <div className="space-y-2">
+      <div className="grid grid-cols-[1fr_6rem_6rem_1.5rem] gap-2 text-xs text-gray-500">
+        <span>Model</span>
+        <span>Prompt $/1M</span>
+        <span>Completion $/1M</span>
+        <span />
+      </div>
+      {prices.map((price, index) => (
+        <div key={index} className="grid grid-cols-[1fr_6rem_6rem_1.5rem] gap-2 items-center">
+          <input
+            className={inputClasses}
+            value={price.model}
+            onChange={(e) => updatePrice(index, { model: e.target.value })}
+          />
+          <input
+            className={inputClasses}
+            type="number"
+            min={0}
+            step="any"
+            value={price.inputPerMillion}
+            onChange={(e) => updatePrice(index, { inputPerMillion: Number(e.target.value) || 0 })}
+          />
+          <input
+            className={inputClasses}
+            type="number"
+            min={0}
+            step="any"
+            value={price.outputPerMillion}
+            onChange={(e) => updatePrice(index, { outputPerMillion: Number(e.target.value) || 0 })}
+          />
+          <button
+            className="text-gray-500 hover:text-gray-400 clickable"
+            onClick={() => onChange(prices.filter((_, i) => i !== index))}
+            title="Remove"
+          >
+            <X className="h-4 w-4" />
+          </button>
+        </div>
+      ))}
+      <div className="flex items-center gap-4 pt-1 text-sm">
+        <button
+          className="flex items-center gap-1 text-blue-400 hover:text-blue-300 clickable"
+          onClick={() => onChange([...prices, { model: '', inputPerMillion: 0, outputPerMillion: 0 }])}
+        >
+          <Plus className="h-4 w-4" /> Add model
+        </button>
+        <button className="text-gray-500 hover:text-gray-400 clickable" onClick={onReset}>
+          Reset to defaults
+        </button>
+      </div>
+    </div>
+  );
+};
+
+/**
+ * Token usage and estimated cost for the whole trace (see summarizeUsage),
+ * with the editable price table the estimates are based on.
+ */
+const UsagePanel: React.FC<UsagePanelProps> = ({ summary, prices, onPricesChange, onResetPrices, onSelectSpan }) => {
+  const [showPrices, setShowPrices] = useState(false);
+  const { totals } = summary;
+
+  if (totals.totalTokens === 0) {
+    return <p className="text-sm text-gray-500">No token usage recorded in this trace</p>;
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="grid grid-cols-2 gap-2">
+        <StatCard label="Prompt tokens" value={formatTokens(totals.inputTokens)} />
+        <StatCard label="Completion tokens" value={formatTokens(totals.outputTokens)} />
+        <StatCard label="Total tokens" value={formatTokens(totals.totalTokens)} />
+        <StatCard
+          label="Estimated cost"
+          value={formatCost(totals.cost)}
+          hint={totals.unpricedTokens > 0 ? `${formatTokens(totals.unpricedTokens)} tokens have no price` : undefined}
+        />
+      </div>
+
+      <UsageTable title="By model" countLabel="Calls" groups={summary.byModel} />
+      <UsageTable title="By agent" countLabel="Calls" groups={summary.byAgent} />
+      <UsageTable title="By tool" countLabel="Uses" groups={summary.byTool} />
+
+      <div className="space-y-2">
+        <h3 className="text-[13px] font-semibold text-gray-50">Most expensive spans</h3>
+        <div className="divide-y divide-[#2A2A2A]">
+          {summary.topSpans.map(usage => (
+            <button
+              key={usage.span.id}
+              className="w-full flex items-center gap-2 py-2 text-left hover:bg-[#232323] clickable"
+              onClick={() => onSelectSpan(usage.span.id)}
+            >
+              {getSpanIcon(usage.span)}
+              <div className="min-w-0 flex-1">
+                <div className="text-sm text-gray-200 truncate">{usage.span.span_data.name || usage.span.span_data.type}</div>
+                <div className="text-xs text-gray-500 truncate">
+                  {[usage.model, usage.agent].filter(Boolean).join(' · ')}
+                </div>
+              </div>
+              <div className="text-right font-mono text-sm flex-shrink-0">
+                <div className="text-gray-200">{usage.cost === null ? '-' : formatCost(usage.cost)}</div>
+                <div className="text-xs text-gray-500">{formatTokens(usage.totalTokens)}t</div>
+              </div>
+            </button>
+          ))}
+        </div>
+      </div>
+
+      <div className="border-t border-[#2A2A2A]">
+        <div className="flex items-center justify-between py-3 clickable" onClick={() => setShowPrices(prev => !prev)}>
+          <h3 className="text-[13px] font-semibold text-gray-50">Prices</h3>
+          <ChevronDown className={`h-4 w-4 text-gray-500 transition-transform ${showPrices ? '' : '-rotate-90'}`} />
+        </div>
+        {showPrices && <PriceEditor prices={prices} onChange={onPricesChange} onReset={onResetPrices} />}
+      </div>
+    </div>
+  );
+};
+
+export default UsagePanel;
@@ -0,0 +1,107 @@
+import React, { useEffect, useRef, useState } from 'react';
+
+interface VirtualListProps<T> {
+  items: T[];
+  rowHeight: number;
+  getKey: (item: T, index: number) => string;
+  renderRow: (item: T, index: number) => React.ReactNode;
+  // Extra rows rendered above and below the viewport to avoid flashes while scrolling
+  overscan?: number;
+  // Row to keep in view, e.g. the keyboard selection
+  scrollToIndex?: number;
+  // Rendered above the rows and kept in view while scrolling; it sits inside
+  // the scroll container so it lines up with the rows despite the scrollbar
+  header?: React.ReactNode;
+  className?: string;
+  style?: React.CSSProperties;
+}
+
+/**
+ * Windowed list for fixed-height rows: it owns the scroll container and only
+ * mounts the rows that intersect the viewport (plus the overscan).
+ */
+function VirtualList<T>({ items, rowHeight, getKey, renderRow, overscan = 10, scrollToIndex, header, className = '', style }: VirtualListProps<T>) {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const headerRef = useRef<HTMLDivElement>(null);
+  const [scrollTop, setScrollTop] = useState(0);
+  const [viewportHeight, setViewportHeight] = useState(0);
+  const [headerHeight, setHeaderHeight] = useState(0);
+  const hasHeader = header !== undefined;
+
+  useEffect(() => {
+    const container = containerRef.current;
+    if (!container) return;
+
+    const observer = new ResizeObserver(() => {
+      setViewportHeight(container.clientHeight);
+    });
+    observer.observe(container);
+    setViewportHeight(container.clientHeight);
+
+    return () => observer.disconnect();
+  }, []);
+
+  useEffect(() => {
+    const headerElement = headerRef.current;
+    if (!headerElement) {
+      setHeaderHeight(0);
+      return;
+    }
+
+    const observer = new ResizeObserver(() => {
+      setHeaderHeight(headerElement.offsetHeight);
+    });
+    observer.observe(headerElement);
+    setHeaderHeight(headerElement.offsetHeight);
+
+    return () => observer.disconnect();
+  }, [hasHeader]);
+
+  useEffect(() => {
+    const container = containerRef.current;
+    if (!container || scrollToIndex === undefined || scrollToIndex < 0) return;
+
+    // The rows start below the header, but so does the part of the viewport
+    // the sticky header doesn't cover, so row offsets compare to scrollTop
+    const rowTop = scrollToIndex * rowHeight;
+    if (rowTop < container.scrollTop) {
+      container.scrollTop = rowTop;
+    } else if (rowTop + rowHeight > container.scrollTop + container.clientHeight - headerHeight) {
+      container.scrollTop = rowTop + rowHeight - container.clientHeight + headerHeight;
+    }
+  }, [scrollToIndex, rowHeight, headerHeight]);
+
+  const firstIndex = Math.max(0, Math.floor(scrollTop / rowHeight) - overscan);
+  const lastIndex = Math.min(items.length, Math.ceil((scrollTop + viewportHeight - headerHeight) / rowHeight) + overscan);
+
+  return (
+    <div
+      ref={containerRef}
+      className={`overflow-y-auto ${className}`}
+      style={style}
+      onScroll={(e) => setScrollTop(e.currentTarget.scrollTop)}
+    >
+      {hasHeader && (
+        <div ref={headerRef} className="sticky top-0 z-10">
+          {header}
+        </div>
+      )}
+      <div className="relative" style={{ height: items.length * rowHeight }}>
+        {items.slice(firstIndex, lastIndex).map((item, offset) => {
+          const index = firstIndex + offset;
+          return (
+            <div
+              key={getKey(item, index)}
+              className="absolute left-0 right-0"
+              style={{ top: index * rowHeight, height: rowHeight }}
+            >
+              {renderRow(item, index)}
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
+
+export default VirtualList;
@@ -0,0 +1,80 @@
+import { useState } from 'react';
+import type { SpanNode } from '../services/traceTree';
+import type { WaterfallView } from '../services/spanLayout';
+import { getSpanDuration, getSpanEnd, getSpanStart } from '../services/spanLayout';
+import { formatDuration, formatOffset, getProgressBarColor } from './spanDisplay';
+
+interface WaterfallBarProps {
+  span: SpanNode;
+  waterfall: WaterfallView;
+  isCriticalPath: boolean;
+}
+
+const toPercent = (time: number, waterfall: WaterfallView) =>
+  ((time - waterfall.view.start) / waterfall.view.duration) * 100;
+
+/**
+ * A span's bar on the shared waterfall axis, with the axis gridlines behind
+ * it. Positions are percentages of the visible window, so the bar lines up
+ * with the ruler as long as both tracks have the same width.
+ */
+const WaterfallBar = ({ span, waterfall, isCriticalPath }: WaterfallBarProps) => {
+  const [tooltip, setTooltip] = useState<{ x: number; y: number } | null>(null);
+
+  if (waterfall.view.duration <= 0) return null;
+
+  const start = getSpanStart(span);
+  const duration = getSpanDuration(span);
+  const left = toPercent(start, waterfall);
+  const right = toPercent(getSpanEnd(span), waterfall);
+  // Label on whichever side of the bar has room
+  const labelOnLeft = right > 85;
+
+  return (
+    <>
+      {waterfall.ticks.map(tick => (
+        <div
+          key={tick}
+          className="absolute top-0 bottom-0 w-px bg-[#2A2A2A]"
+          style={{ left: `${toPercent(waterfall.traceStart + tick, waterfall)}%` }}
+        />
+      ))}
+      <div
+        className={`absolute top-1/2 -translate-y-1/2 h-3 rounded-sm ${getProgressBarColor(span)} ${
+          isCriticalPath ? 'ring-1 ring-amber-300 opacity-100' : 'opacity-70'
+        }`}
+        style={{ left: `${left}%`, width: `max(${right - left}%, 2px)` }}
+        onMouseMove={(e) => setTooltip({ x: e.clientX, y: e.clientY })}
+        onMouseLeave={() => setTooltip(null)}
+      />
+      <div
+        className="absolute top-1/2 -translate-y-1/2 px-1.5 text-xs text-gray-400 font-mono whitespace-nowrap pointer-events-none"
+        style={labelOnLeft ? { right: `${100 - left}%` } : { left: `${right}%` }}
+      >
+        {formatDuration(duration)}
+      </div>
+      {tooltip && (
+        <div
+          className="fixed z-50 pointer-events-none rounded-md border border-[#2A2A2A] bg-[#232323] px-3 py-2 text-xs shadow-lg"
+          style={tooltip.x > window.innerWidth / 2
+            ? { right: window.innerWidth - tooltip.x + 12, top: tooltip.y + 12 }
+            : { left: tooltip.x + 12, top: tooltip.y + 12 }}
+        >
+          <div className="text-gray-200 font-medium mb-1">{span.span_data.name || span.span_data.type}</div>
+          <div className="grid grid-cols-[auto_auto] gap-x-3 gap-y-0.5 font-mono">
+            <span className="text-gray-500">Start</span>
+            <span className="text-gray-300">{formatOffset(start - waterfall.traceStart)}</span>
+            <span className="text-gray-500">End</span>
+            <span className="text-gray-300">{formatOffset(getSpanEnd(span) - waterfall.traceStart)}</span>
+            <span className="text-gray-500">Duration</span>
+            <span className="text-gray-300">{formatDuration(duration)}</span>
+          </div>
+          {isCriticalPath && <div className="text-amber-300 mt-1">On the critical path</div>}
+          {span.error && <div className="text-red-400 mt-1">{span.error.message}</div>}
+        </div>
+      )}
+    </>
+  );
+};
+
+export default WaterfallBar;
@@ -0,0 +1,93 @@
+import { Crosshair, Maximize2, Route, ZoomIn, ZoomOut } from 'lucide-react';
+import type { TimelineBounds, WaterfallView } from '../services/spanLayout';
+import { WATERFALL_TRACK_ATTRIBUTE } from '../hooks/useTimelineZoom';
+import { WATERFALL_NAME_WIDTH, formatOffset } from './spanDisplay';
+
+interface WaterfallRulerProps {
+  waterfall: WaterfallView;
+  // Full extent of the trace, for the overview of where the window is
+  bounds: TimelineBounds;
+  isZoomed: boolean;
+  showCriticalPath: boolean;
+  canZoomToSelection: boolean;
+  onZoomIn: () => void;
+  onZoomOut: () => void;
+  onResetZoom: () => void;
+  onZoomToSelection: () => void;
+  onToggleCriticalPath: () => void;
+}
+
+const RULER_BUTTON_CLASSES = 'p-1 rounded hover:bg-[#2A2A2A] clickable disabled:opacity-40 disabled:cursor-default';
+
+/**
+ * Time axis above the waterfall rows, plus the zoom controls. The axis track
+ * has the same offsets as the row tracks so ticks line up with the bars;
+ * scrolling over it zooms.
+ */
+const WaterfallRuler = ({
+  waterfall, bounds, isZoomed, showCriticalPath, canZoomToSelection,
+  onZoomIn, onZoomOut, onResetZoom, onZoomToSelection, onToggleCriticalPath
+}: WaterfallRulerProps) => {
+  const { view, traceStart, ticks } = waterfall;
+
+  return (
+    <div className="flex items-center h-8 px-6 bg-[#1C1C1C] border-b border-[#2A2A2A]">
+      <div className="flex items-center gap-1 flex-shrink-0 text-gray-400" style={{ width: WATERFALL_NAME_WIDTH }}>
+        <button className={`${RULER_BUTTON_CLASSES} hover:text-gray-300`} onClick={onZoomIn} title="Zoom in (ctrl + scroll)">
+          <ZoomIn className="h-4 w-4" />
+        </button>
+        <button className={`${RULER_BUTTON_CLASSES} hover:text-gray-300`} onClick={onZoomOut} title="Zoom out">
+          <ZoomOut className="h-4 w-4" />
+        </button>
+        <button
+          className={`${RULER_BUTTON_CLASSES} hover:text-gray-300`}
+          onClick={onZoomToSelection}
+          disabled={!canZoomToSelection}
+          title="Zoom to selected span (z)"
+        >
+          <Crosshair className="h-4 w-4" />
+        </button>
+        <button
+          className={`${RULER_BUTTON_CLASSES} hover:text-gray-300`}
+          onClick={onResetZoom}
+          disabled={!isZoomed}
+          title="Fit whole trace (Z)"
+        >
+          <Maximize2 className="h-4 w-4" />
+        </button>
+        <button
+          className={`${RULER_BUTTON_CLASSES} ${showCriticalPath ? 'text-amber-300' : 'hover:text-gray-300'}`}
+          onClick={onToggleCriticalPath}
+          title="Highlight critical path"
+        >
+          <Route className="h-4 w-4" />
+        </button>
+      </div>
+      <div
+        {...{ [WATERFALL_TRACK_ATTRIBUTE]: 'ruler' }}
+        className="ml-4 relative flex-1 h-full overflow-hidden cursor-grab select-none"
+      >
+        {view.duration > 0 && ticks.map(tick => (
+          <div
+            key={tick}
+            className="absolute top-0 bottom-0 border-l border-[#2A2A2A] pl-1 pt-2 text-[11px] leading-none text-gray-500 font-mono whitespace-nowrap"
+            style={{ left: `${((traceStart + tick - view.start) / view.duration) * 100}%` }}
+          >
+            {formatOffset(tick)}
+          </div>
+        ))}
+        {isZoomed && bounds.duration > 0 && (
+          <div
+            className="absolute bottom-0 h-0.5 bg-blue-500/60"
+            style={{
+              left: `${((view.start - bounds.start) / bounds.duration) * 100}%`,
+              width: `${(view.duration / bounds.duration) * 100}%`
+            }}
+          />
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default WaterfallRuler;
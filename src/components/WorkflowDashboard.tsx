@@ -0,0 +1,278 @@
+import React, { useEffect, useState } from 'react';
+import { Link as RouterLink, useNavigate, useSearchParams } from 'react-router-dom';
+import {
+  Alert,
+  Box,
+  Button,
+  FormControl,
+  InputLabel,
+  Link,
+  MenuItem,
+  Paper,
+  Select,
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableRow,
+  TextField,
+  Typography,
+} from '@mui/material';
+import { fetchWorkflowMetrics, fetchWorkflowNames } from '../services/api';
+import type { MetricsInterval, WorkflowMetrics } from '../services/api';
+import { UnauthorizedError } from '../services/auth';
+import MetricChart from './MetricChart';
+import { formatDuration } from './spanDisplay';
+
+const DEFAULT_RANGE_DAYS = 14;
+
+const toDateInput = (date: Date) => date.toISOString().slice(0, 10);
+
+const formatPercent = (value: number) => `${Math.round(value * 100)}%`;
+
+const formatCount = (value: number) =>
+  value >= 1_000_000 ? `${(value / 1_000_000).toFixed(1)}M` :
+  value >= 1000 ? `${(value / 1000).toFixed(1)}k` :
+  String(Math.round(value));
+
+const formatBucketLabel = (start: string, interval: MetricsInterval) => {
+  const date = new Date(start);
+  return interval === 'hour'
+    ? date.toLocaleString(undefined, { month: 'short', day: 'numeric', hour: '2-digit' })
+    : date.toLocaleDateString(undefined, { month: 'short', day: 'numeric' });
+};
+
+/**
+ * Metrics across all runs of one workflow over a date range. Like the trace
+ * list, the workflow and range live in the query string so views can be
+ * shared.
+ */
+const WorkflowDashboard: React.FC = () => {
+  const navigate = useNavigate();
+  const [searchParams, setSearchParams] = useSearchParams();
+  const [workflows, setWorkflows] = useState<string[]>([]);
+  const [metrics, setMetrics] = useState<WorkflowMetrics | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const workflowName = searchParams.get('workflow') || workflows[0] || '';
+  const to = searchParams.get('to') || toDateInput(new Date());
+  const from = searchParams.get('from') || toDateInput(new Date(Date.now() - DEFAULT_RANGE_DAYS * 24 * 60 * 60 * 1000));
+  const interval: MetricsInterval = searchParams.get('interval') === 'hour' ? 'hour' : 'day';
+
+  const updateParams = (patch: Record<string, string>) => {
+    setSearchParams(prev => {
+      const next = new URLSearchParams(prev);
+      Object.entries(patch).forEach(([key, value]) => {
+        if (value) {
+          next.set(key, value);
+        } else {
+          next.delete(key);
+        }
+      });
+      return next;
+    }, { replace: true });
+  };
+
+  const handleError = (error: unknown, message: string) => {
+    // RequireAuth takes care of the redirect once the session is cleared.
+    if (error instanceof UnauthorizedError) return;
+    console.error(message, error);
+    setError(`${message}. Please try again.`);
+  };
+
+  useEffect(() => {
+    fetchWorkflowNames()
+      .then(response => setWorkflows(response.data || []))
+      .catch(error => handleError(error, 'Failed to load workflows'));
+  }, []);
+
+  useEffect(() => {
+    if (!workflowName) return;
+    let cancelled = false;
+
+    fetchWorkflowMetrics({ workflowName, from, to, interval })
+      .then(response => {
+        if (cancelled) return;
+        setMetrics(response.data);
+        setError(null);
+      })
+      .catch(error => {
+        if (!cancelled) handleError(error, 'Failed to load workflow metrics');
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [workflowName, from, to, interval]);
+
+  const buckets = metrics?.buckets ?? [];
+  const labels = buckets.map(bucket => formatBucketLabel(bucket.start, metrics?.interval ?? interval));
+  const rate = (count: number, total: number) => (total > 0 ? count / total : null);
+  const totalRuns = buckets.reduce((sum, bucket) => sum + bucket.run_count, 0);
+
+  return (
+    <Box sx={{ p: 3 }}>
+      <Box sx={{ display: 'flex', alignItems: 'center', justifyContent: 'space-between' }}>
+        <Typography variant="h4" gutterBottom>
+          Dashboard
+        </Typography>
+        <Button variant="outlined" size="small" onClick={() => navigate('/')}>
+          Traces
+        </Button>
+      </Box>
+
+      {error && (
+        <Alert severity="error" sx={{ mb: 3 }}>
+          {error}
+        </Alert>
+      )}
+
+      <Box sx={{ mb: 3, display: 'flex', flexWrap: 'wrap', gap: 2 }}>
+        <FormControl size="small" sx={{ minWidth: 240 }}>
+          <InputLabel>Workflow</InputLabel>
+          <Select
+            value={workflows.includes(workflowName) ? workflowName : ''}
+            label="Workflow"
+            onChange={(event) => updateParams({ workflow: event.target.value })}
+          >
+            {workflows.map(name => (
+              <MenuItem key={name} value={name}>{name}</MenuItem>
+            ))}
+          </Select>
+        </FormControl>
+
+        <TextField
+          label="From"
+          type="date"
+          value={from}
+          onChange={(event) => updateParams({ from: event.target.value })}
+          size="small"
+          slotProps={{ inputLabel: { shrink: true } }}
+        />
+
+        <TextField
+          label="To"
+          type="date"
+          value={to}
+          onChange={(event) => updateParams({ to: event.target.value })}
+          size="small"
+          slotProps={{ inputLabel: { shrink: true } }}
+        />
+
+        <FormControl size="small" sx={{ minWidth: 120 }}>
+          <InputLabel>Interval</InputLabel>
+          <Select
+            value={interval}
+            label="Interval"
+            onChange={(event) => updateParams({ interval: event.target.value === 'day' ? '' : event.target.value })}
+          >
+            <MenuItem value="day">Daily</MenuItem>
+            <MenuItem value="hour">Hourly</MenuItem>
+          </Select>
+        </FormControl>
+
+        {workflowName && (
+          <Button
+            size="small"
+            onClick={() => navigate(`/?q=${encodeURIComponent(workflowName)}&from=${from}&to=${to}`)}
+          >
+            View {totalRuns} runs
+          </Button>
+        )}
+      </Box>
+
+      <Box sx={{ display: 'grid', gridTemplateColumns: { xs: '1fr', md: '1fr 1fr' }, gap: 2, mb: 3 }}>
+        <MetricChart
+          title="Runs"
+          labels={labels}
+          series={[{ label: 'Runs', color: '#1976d2', values: buckets.map(bucket => bucket.run_count) }]}
+          formatValue={formatCount}
+        />
+        <MetricChart
+          title="Completion and error rate"
+          labels={labels}
+          maxValue={1}
+          series={[
+            { label: 'Completed', color: '#2e7d32', values: buckets.map(bucket => rate(bucket.completed_count, bucket.run_count)) },
+            { label: 'With errors', color: '#d32f2f', values: buckets.map(bucket => rate(bucket.error_count, bucket.run_count)) }
+          ]}
+          formatValue={formatPercent}
+        />
+        <MetricChart
+          title="Duration"
+          labels={labels}
+          series={[
+            { label: 'p50', color: '#1976d2', values: buckets.map(bucket => bucket.duration_p50_ms) },
+            { label: 'p95', color: '#ed6c02', values: buckets.map(bucket => bucket.duration_p95_ms) }
+          ]}
+          formatValue={formatDuration}
+        />
+        <MetricChart
+          title="Tokens"
+          labels={labels}
+          series={[{ label: 'Tokens', color: '#9c27b0', values: buckets.map(bucket => bucket.total_tokens) }]}
+          formatValue={formatCount}
+        />
+      </Box>
+
+      <Box sx={{ display: 'grid', gridTemplateColumns: { xs: '1fr', md: '1fr 1fr' }, gap: 2 }}>
+        <Paper variant="outlined">
+          <Typography variant="subtitle2" sx={{ p: 2, pb: 0 }}>Slowest tools</Typography>
+          <Table size="small">
+            <TableHead>
+              <TableRow>
+                <TableCell>Tool</TableCell>
+                <TableCell align="right">Calls</TableCell>
+                <TableCell align="right">p50</TableCell>
+                <TableCell align="right">p95</TableCell>
+                <TableCell align="right">Errors</TableCell>
+              </TableRow>
+            </TableHead>
+            <TableBody>
+              {(metrics?.slowest_tools ?? []).map(tool => (
+                <TableRow key={tool.name}>
+                  <TableCell>{tool.name}</TableCell>
+                  <TableCell align="right">{tool.calls}</TableCell>
+                  <TableCell align="right">{formatDuration(tool.p50_ms)}</TableCell>
+                  <TableCell align="right">{formatDuration(tool.p95_ms)}</TableCell>
+                  <TableCell align="right">{tool.error_count || '-'}</TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </Paper>
+
+        <Paper variant="outlined">
+          <Typography variant="subtitle2" sx={{ p: 2, pb: 0 }}>Most common failures</Typography>
+          <Table size="small">
+            <TableHead>
+              <TableRow>
+                <TableCell>Span</TableCell>
+                <TableCell align="right">Failures</TableCell>
+                <TableCell>Last error</TableCell>
+              </TableRow>
+            </TableHead>
+            <TableBody>
+              {(metrics?.top_failures ?? []).map(failure => (
+                <TableRow key={`${failure.type}:${failure.name}`}>
+                  <TableCell>
+                    {failure.name}
+                    <Typography variant="caption" color="text.secondary" sx={{ ml: 1 }}>{failure.type}</Typography>
+                  </TableCell>
+                  <TableCell align="right">{failure.count}</TableCell>
+                  <TableCell>
+                    <Link component={RouterLink} to={`/trace/${encodeURIComponent(failure.last_trace_id)}`} underline="hover">
+                      {failure.last_error || 'View trace'}
+                    </Link>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </Paper>
+      </Box>
+    </Box>
+  );
+};
+
+export default WorkflowDashboard;
@@ -0,0 +1,92 @@
+import { MessageSquare, ArrowRight, FileText, FolderOpen, Terminal, CircleDot } from 'lucide-react';
+import type { TraceSpan } from '../services/spans';
+
+// Presentation helpers shared by the span tree rows and the detail panel.
+
+export const formatDuration = (duration: number) => {
+  if (duration === 0) {
+    return '0 ms';
+  }
+  if (duration >= 1000) {
+    const seconds = duration / 1000;
+    return `${seconds.toFixed(2)} s`;
+  }
+  return `${Math.round(duration)} ms`;
+};
+
+// Time since the start of the trace, as shown on the waterfall axis
+export const formatOffset = (offset: number) => `+${formatDuration(offset)}`;
+
+// Width of the span name column in waterfall mode; the ruler reserves the same
+// space so its axis lines up with the bars
+export const WATERFALL_NAME_WIDTH = 280;
+
+export const getSpanIcon = (span: TraceSpan) => {
+  const iconClasses = "h-4 w-4 flex-shrink-0";
+  
+  // Agent spans should use CircleDot
+  if (span.span_data.type === 'agent') {
+    return <CircleDot className={`${iconClasses} text-blue-400`} />;
+  }
+
+  // Handoff spans use ArrowRight
+  if (span.span_data.type === 'handoff') {
+    return <ArrowRight className={`${iconClasses} text-orange-500`} />;
+  }
+
+  // Function calls use Terminal
+  if (span.span_data.type === 'function') {
+    return <Terminal className={`${iconClasses} text-emerald-400`} />;
+  }
+
+  // File operations
+  if (span.span_data.name === 'read_file') {
+    return <FileText className={`${iconClasses} text-emerald-400`} />;
+  }
+  if (span.span_data.name === 'list_files') {
+    return <FolderOpen className={`${iconClasses} text-emerald-400`} />;
+  }
+
+  // POST requests and generations
+  if (span.span_data.name?.startsWith('POST') || span.span_data.type === 'generation') {
+    return <MessageSquare className={`${iconClasses} text-blue-400`} />;
+  }
+
+  // Default to CircleDot for unknown types
+  return <CircleDot className={`${iconClasses} text-gray-400`} />;
+};
+
+export const getProgressBarColor = (span: TraceSpan) => {
+  if (span.error) {
+    return 'bg-red-500';
+  }
+  if (span.span_data.type === 'agent' || span.span_data.name?.startsWith('POST')) {
+    return 'bg-blue-500';
+  }
+  if (span.span_data.name === 'read_file' || span.span_data.name === 'list_files') {
+    return 'bg-emerald-500';
+  }
+  return 'bg-gray-500';
+};
+
+export const renderSpanName = (span: TraceSpan) => {
+  if (span.span_data.type === 'handoff') {
+    return (
+      <div className="flex items-center space-x-1.5 min-w-0">
+        <ArrowRight className="h-4 w-4 flex-shrink-0 text-orange-500" />
+        <span className="text-gray-400 flex-shrink-0">Handoff</span>
+        <ArrowRight className="h-3 w-3 flex-shrink-0 text-gray-500" />
+        <span className={`${span.error ? 'text-red-300' : 'text-gray-200'} truncate`}>{span.span_data.to_agent}</span>
+      </div>
+    );
+  }
+
+  return (
+    <div className="flex items-center space-x-2 min-w-0">
+      <div className="flex-shrink-0">{getSpanIcon(span)}</div>
+      <span className={`${span.error ? 'text-red-300' : 'text-gray-200'} truncate`}>
+        {span.span_data.name || span.span_data.type}
+      </span>
+    </div>
+  );
+};
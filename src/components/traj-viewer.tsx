@@ -1,220 +1,337 @@
-import React, { useState, useEffect, useRef, useCallback } from 'react';
-import { ChevronDown, ArrowLeft, MessageSquare, ArrowRight, Settings2, FileText, FolderOpen, Terminal, CircleDot, Clock, ClipboardCopy, Upload, GripVertical } from 'lucide-react';
-import { useParams, useNavigate } from 'react-router-dom';
-import { fetchTraceById } from '../services/api';
-import type { ApiResponse, TraceData } from '../services/api';
-
-interface TraceSpan {
-  object: string;
-  id: string;
-  trace_id: string;
-  parent_id: string | null;
-  started_at: string;
-  ended_at: string;
-  span_data: {
-    type: string;
-    name?: string;
-    input?: any[];
-    output?: any[];
-    from_agent?: string;
-    to_agent?: string;
-    tools?: string[];
-    handoffs?: string[];
-  };
-  error: null | any;
-}
-
-type SectionName = 'properties' | 'configuration' | 'instructions' | 'functionCall' | 'agents' | 'output' | 'previousStep' | 'history';
+import React, { useState, useEffect, useRef, useCallback, useMemo, useDeferredValue } from 'react';
+import { ChevronDown, ArrowLeft, MessageSquare, ArrowRight, Terminal, CircleDot, Clock, ClipboardCopy, Upload, Link2, Check, GripVertical, LogOut, Pause, Play, AlertTriangle, AlertCircle, Keyboard, Filter, GanttChart, RotateCcw, Download, Eye, EyeOff, History } from 'lucide-react';
+import { useParams, useNavigate, useSearchParams } from 'react-router-dom';
+import { logRedactionReveal } from '../services/api';
+import type { TraceSource } from '../services/api';
+import { getSession, logout, UnauthorizedError } from '../services/auth';
+import { parseTraceFile, TraceFileError } from '../services/traceFile';
+import type { TraceFileFormat } from '../services/traceFile';
+import { getSpanInstructions, getSpanModel, getSpanResponseFormat, getSpanTemperature, getSpanTokens } from '../services/spans';
+import type { SpanIssue, TraceSpan } from '../services/spans';
+import { getAncestorIds } from '../services/traceTree';
+import { findMatchingSpans, parseSearchQuery } from '../services/spanSearch';
+import { countSpans, filterSpanTree, isFilterActive } from '../services/spanFilters';
+import { collectErrorSpans, countDescendantErrors } from '../services/spanErrors';
+import { buildTranscript, getSpansBefore, getPayloadText } from '../services/transcript';
+import { useSpanFilters } from '../hooks/useSpanFilters';
+import { useTraceStream } from '../hooks/useTraceStream';
+import type { TraceConnectionStatus } from '../hooks/useTraceStream';
+import { useTimelineZoom } from '../hooks/useTimelineZoom';
+import { useModelPrices } from '../hooks/useModelPrices';
+import { useSessionTraces } from '../hooks/useSessionTraces';
+import { useFileDrop } from '../hooks/useFileDrop';
+import { useRedactionRules } from '../hooks/useRedactionRules';
+import { useRedactedTree } from '../hooks/useRedactedTree';
+import { useTraceComments } from '../hooks/useTraceComments';
+import { useTraceEvaluation } from '../hooks/useTraceEvaluation';
+import { useReviewQueue } from '../hooks/useReviewQueue';
+import { useTraceReplay } from '../hooks/useTraceReplay';
+import { getSessionPosition, sessionPath, sessionTracePath } from '../services/sessions';
+import { summarizeUsage } from '../services/usage';
+import { buildAgentGraph } from '../services/agentGraph';
+import { countCommentsBySpan, getCommentThreads } from '../services/comments';
+import { REVIEW_PATH, getReviewPosition, reviewTracePath, toggleSpanLabel } from '../services/evaluation';
+import { DEFAULT_SPLIT_POSITION, getLinkedCollapsed, readViewLink, writeViewLink } from '../services/viewLink';
+import { buildExport, downloadFile } from '../services/traceExport';
+import type { ExportOptions, ExportTraceInfo } from '../services/traceExport';
+import { flattenSpanTree, getCriticalPath, getSpanDuration, getTimeTicks, getTimelineBounds } from '../services/spanLayout';
+import type { WaterfallView } from '../services/spanLayout';
+import SpanRow from './SpanRow';
+import VirtualList from './VirtualList';
+import ShortcutHelp from './ShortcutHelp';
+import TraceSearchBar from './TraceSearchBar';
+import SpanFilterBar from './SpanFilterBar';
+import ErrorSummary from './ErrorSummary';
+import WaterfallRuler from './WaterfallRuler';
+import TranscriptView from './TranscriptView';
+import ToolResult from './ToolResult';
+import UsagePanel from './UsagePanel';
+import SessionNavigator from './SessionNavigator';
+import ExportMenu from './ExportMenu';
+import AgentGraphView from './AgentGraphView';
+import CommentThreads from './CommentThreads';
+import EvaluationPanel from './EvaluationPanel';
+import SpanLabelPicker from './SpanLabelPicker';
+import ReviewNavigator from './ReviewNavigator';
+import ReplayControls from './ReplayControls';
+import type { TranscriptScope } from './TranscriptView';
+import { SPAN_TREE_SHORTCUTS, useSpanTreeKeyboard } from '../hooks/useSpanTreeKeyboard';
+import { formatDuration, getSpanIcon } from './spanDisplay';
+
+type SectionName = 'properties' | 'configuration' | 'instructions' | 'functionCall' | 'agents' | 'output' | 'previousStep' | 'history' | 'issues' | 'error' | 'comments' | 'labels';
+
+const CONNECTION_STATUS_STYLES: Record<TraceConnectionStatus, { label: string; dot: string; text: string }> = {
+  connecting: { label: 'Connecting', dot: 'bg-gray-500 animate-pulse', text: 'text-gray-400' },
+  live: { label: 'Live', dot: 'bg-emerald-400 animate-pulse', text: 'text-emerald-400' },
+  polling: { label: 'Connected', dot: 'bg-amber-400', text: 'text-amber-400' },
+  paused: { label: 'Paused', dot: 'bg-gray-500', text: 'text-gray-400' },
+  completed: { label: 'Completed', dot: 'bg-blue-400', text: 'text-blue-400' },
+  error: { label: 'Disconnected', dot: 'bg-red-500', text: 'text-red-400' },
+  local: { label: 'Local file', dot: 'bg-gray-500', text: 'text-gray-400' }
+};
 
-interface HistoryItem {
-  span: TraceSpan;
-  seenAgents: Set<string>;
+const LOCAL_FILE_ACCEPT = '.traj,.json,.jsonl';
+
+// One line per issue, for the header tooltip
+const formatIssueSummary = (issues: SpanIssue[]) =>
+  issues
+    .map(issue => `${issue.spanId ?? `span #${issue.index}`} ${issue.path}: ${issue.message}`)
+    .join('\n');
+
+// Number keys toggle the detail panel sections in the order they appear
+const SECTION_SHORTCUTS: { key: string; section: SectionName; label: string }[] = [
+  { key: '1', section: 'error', label: 'Error' },
+  { key: '2', section: 'properties', label: 'Properties' },
+  { key: '3', section: 'issues', label: 'Schema Issues' },
+  { key: '4', section: 'history', label: 'History' },
+  { key: '5', section: 'configuration', label: 'Configuration' },
+  { key: '6', section: 'instructions', label: 'Instructions' },
+  { key: '7', section: 'agents', label: 'Agents' },
+  { key: '8', section: 'functionCall', label: 'Function Call' },
+  { key: '9', section: 'output', label: 'Output' },
+  { key: '0', section: 'comments', label: 'Comments' }
+];
+
+const SEARCH_SHORTCUTS = [
+  { keys: ['/'], description: 'Search spans' },
+  { keys: ['n', 'Enter'], description: 'Next match' },
+  { keys: ['N', 'Shift+Enter'], description: 'Previous match' }
+];
+
+const SESSION_SHORTCUTS = [
+  { keys: ['['], description: 'Previous trace in session' },
+  { keys: [']'], description: 'Next trace in session' }
+];
+
+const REVIEW_SHORTCUTS = [
+  { keys: ['['], description: 'Previous trace in the queue' },
+  { keys: [']'], description: 'Next trace in the queue' }
+];
+
+const REPLAY_SHORTCUTS = [
+  { keys: ['R'], description: 'Start or stop replay' },
+  { keys: ['Space'], description: 'Play or pause' },
+  { keys: [','], description: 'Previous event' },
+  { keys: ['.'], description: 'Next event' }
+];
+
+const WATERFALL_SHORTCUTS = [
+  { keys: ['w'], description: 'Toggle waterfall' },
+  { keys: ['z'], description: 'Zoom to selected span' },
+  { keys: ['Z'], description: 'Fit whole trace' },
+  { keys: ['Ctrl+Scroll'], description: 'Zoom around the cursor' },
+  { keys: ['Shift+Scroll', 'Drag'], description: 'Pan' }
+];
+
+type DetailTab = 'details' | 'transcript' | 'usage' | 'agents' | 'review';
+
+// Review is only offered for traces that can be graded
+const DETAIL_TABS: { value: DetailTab; label: string }[] = [
+  { value: 'details', label: 'Details' },
+  { value: 'transcript', label: 'Transcript' },
+  { value: 'usage', label: 'Usage' },
+  { value: 'agents', label: 'Agents' },
+  { value: 'review', label: 'Review' }
+];
+
+const WATERFALL_ZOOM_STEP = 1.5;
+// Upper bound on axis labels; each needs roughly 80px
+const WATERFALL_MAX_TICKS = 8;
+
+// h-10 row plus its 1px bottom border
+const SPAN_ROW_HEIGHT = 41;
+
+interface TrajViewerProps {
+  source?: TraceSource;
+  // Opened from the review queue: grading first, with controls for stepping
+  // through the queue
+  review?: boolean;
 }
 
-// Replace the existing getAncestorSpans function with this new implementation
-const getAncestorSpans = (span: TraceSpan | null, allSpans: TraceSpan[]): TraceSpan[] => {
-  if (!span) return [];
-  
-  // Helper function to get all spans up to a given span ID
-  const getAllSpansUpTo = (targetId: string, spans: TraceSpan[]): TraceSpan[] => {
-    const result: TraceSpan[] = [];
-    
-    for (const currentSpan of spans) {
-      if (currentSpan.id === targetId) {
-        return result;
-      }
-      
-      result.push(currentSpan);
-      
-      // If this span has children, recursively process them
-      const children = (currentSpan as any).children;
-      if (children && children.length > 0) {
-        const childResults = getAllSpansUpTo(targetId, children);
-        if (childResults.length < children.length) {
-          // If we found our target in the children, return all results
-          return [...result, ...childResults];
-        }
-        // Otherwise, add all children and continue searching
-        result.push(...children);
-      }
-    }
-    
-    return result;
-  };
-  
-  return getAllSpansUpTo(span.id, allSpans);
-};
-
-function TrajViewer() {
-  const { traceId } = useParams();
+function TrajViewer({ source = 'api', review = false }: TrajViewerProps) {
+  // groupId is set when the trace was opened from a session
+  const { traceId, groupId } = useParams();
   const navigate = useNavigate();
-  const [selectedSpan, setSelectedSpan] = useState<TraceSpan | null>(null);
-  const [previousSpans, setPreviousSpans] = useState<HistoryItem[]>([]);
-  const [seenAgents, setSeenAgents] = useState<Set<string>>(new Set());
-  const [traceData, setTraceData] = useState<TraceSpan[]>([]);
+  const [searchParams, setSearchParams] = useSearchParams();
+  // The view encoded in the URL when the page opened (see viewLink.ts). The
+  // URL is kept up to date below, so copying it shares the current view.
+  const [link] = useState(() => readViewLink(searchParams));
+  // Feedback on the Copy link button; writes fail without clipboard permission
+  const [linkCopyStatus, setLinkCopyStatus] = useState<'idle' | 'copied' | 'failed'>('idle');
+  const [selectedSpanId, setSelectedSpanId] = useState<string | null>(link.spanId);
   const [expandedSpans, setExpandedSpans] = useState<Set<string>>(new Set());
   const fileInputRef = useRef<HTMLInputElement>(null);
+  const [localFile, setLocalFile] = useState<{
+    name: string;
+    format: TraceFileFormat;
+    traceId?: string;
+    workflowName?: string;
+  } | null>(null);
+  const [fileError, setFileError] = useState<string | null>(null);
+  // Payloads are redacted unless the user reveals them for this trace
+  const [revealed, setRevealed] = useState(false);
+  const [revealError, setRevealError] = useState<string | null>(null);
   const containerRef = useRef<HTMLDivElement>(null);
-  const [splitPosition, setSplitPosition] = useState(70); // percentage of total width
+  const [splitPosition, setSplitPosition] = useState(link.split ?? DEFAULT_SPLIT_POSITION); // percentage of total width
   const [isDragging, setIsDragging] = useState(false);
+  const [showShortcutHelp, setShowShortcutHelp] = useState(false);
+  const [showErrorSummary, setShowErrorSummary] = useState(false);
+  const [showExportMenu, setShowExportMenu] = useState(false);
+  const [showWaterfall, setShowWaterfall] = useState(false);
+  const [showCriticalPath, setShowCriticalPath] = useState(true);
+  const [detailTab, setDetailTab] = useState<DetailTab>(
+    () => DETAIL_TABS.find(tab => tab.value === link.tab)?.value ?? (review ? 'review' : 'details')
+  );
+  const [transcriptScope, setTranscriptScope] = useState<TranscriptScope>('selection');
+  const { prices, setPrices, resetPrices } = useModelPrices();
+  const spanListRef = useRef<HTMLDivElement>(null);
+  const { filters, setFilters, updateFilters } = useSpanFilters(link.filters);
+  const [showFilters, setShowFilters] = useState(() => isFilterActive(filters));
+  const [searchQuery, setSearchQuery] = useState(link.search);
+  const [currentMatch, setCurrentMatch] = useState(-1);
+  const searchInputRef = useRef<HTMLInputElement>(null);
+  const revealedMatchesRef = useRef<Set<string>>(new Set());
   const dragStartXRef = useRef<number>(0);
-  const [isPolling, setIsPolling] = useState(true); // Add state for controlling polling
-  const [error, setError] = useState<string | null>(null);
-  const [expandedSections, setExpandedSections] = useState<Record<SectionName, boolean>>({
-    properties: true,
-    configuration: true,
-    instructions: true,
-    functionCall: true,
-    agents: true,
-    output: true,
-    previousStep: true,
-    history: true
+  const [expandedSections, setExpandedSections] = useState<Record<SectionName, boolean>>(() => {
+    const sections: Record<SectionName, boolean> = {
+      properties: true,
+      configuration: true,
+      instructions: true,
+      functionCall: true,
+      agents: true,
+      output: true,
+      previousStep: true,
+      history: true,
+      issues: true,
+      error: true,
+      comments: true,
+      labels: true
+    };
+    link.closedSections.forEach(name => {
+      if (name in sections) sections[name as SectionName] = false;
+    });
+    return sections;
   });
+  // Collapsed in the link; applied as each of these spans arrives
+  const linkedCollapsedRef = useRef(new Set(link.collapsed));
+  // A linked span may not have arrived yet in a live trace; it is revealed
+  // once it does
+  const pendingSpanIdRef = useRef(link.spanId);
+
+  // New spans start out expanded; spans the user collapsed stay collapsed
+  const expandNewSpans = useCallback((spanIds: string[]) => {
+    const linkedCollapsed = linkedCollapsedRef.current;
+    const expanded = spanIds.filter(id => !linkedCollapsed.delete(id));
+    setExpandedSpans(prev => new Set([...prev, ...expanded]));
+  }, []);
 
-  useEffect(() => {
-    if (traceId) {
-      loadTraceFile(traceId);
-
-      const pollInterval = setInterval(() => {
-        if (isPolling) {
-          loadTraceFile(traceId, true);
-        }
-      }, 1000);
-
-      return () => {
-        clearInterval(pollInterval);
-      };
-    }
-  }, [traceId, navigate, isPolling]);
-
-  const loadTraceFile = async (traceId: string, isPollingUpdate: boolean = false) => {
+  const { tree: streamTree, trace, status, error, issues, pause, resume, replaceSpans, reload } = useTraceStream(traceId, {
+    onSpansAdded: expandNewSpans,
+    source
+  });
+  const { traces: sessionTraces } = useSessionTraces(groupId);
+  const sessionPosition = useMemo(() => getSessionPosition(sessionTraces, traceId), [sessionTraces, traceId]);
+  const { traces: reviewQueue } = useReviewQueue(review);
+  const reviewPosition = useMemo(() => getReviewPosition(reviewQueue, traceId), [reviewQueue, traceId]);
+  // A replay rebuilds the finished trace span by span through the same
+  // merge and expansion as live updates
+  const replay = useTraceReplay(streamTree, { onSpansAdded: expandNewSpans });
+  const { start: startReplay, stop: stopReplay } = replay;
+  const canReplay = (status === 'completed' || status === 'local') && streamTree.nodes.size > 0;
+  const { rules: redactionRules } = useRedactionRules();
+  // Exports always cover the whole trace, not just the part replayed so far
+  const fullTree = useRedactedTree(streamTree, redactionRules, !revealed);
+  const replayTree = useRedactedTree(replay.tree, redactionRules, !revealed);
+  const tree = replay.active ? replayTree : fullTree;
+  const traceData = tree.roots;
+  // Looked up by id so the selection follows the latest version of the span
+  const selectedSpan = selectedSpanId ? tree.nodes.get(selectedSpanId) ?? null : null;
+  const selectedSpanIssues = selectedSpan ? issues.filter(issue => issue.spanId === selectedSpan.id) : [];
+
+  const loadFile = async (file: File) => {
     try {
-      const response: ApiResponse<TraceData> = await fetchTraceById(traceId);
-      
-      if (response.success && response.data.spans && response.data.spans.length > 0) {
-        console.log('Trace completion status:', {
-          traceId: response.data.trace_id,
-          isComplete: response.data.isComplete,
-          timestamp: new Date().toISOString()
-        });
-
-        if (response.data.isComplete) {
-          console.log('Stopping polling - trace is complete');
-          setIsPolling(false);
-        }
-        
-        if (isPollingUpdate) {
-          const currentExpandedState = new Set(expandedSpans);
-          processTraceData(response.data.spans as TraceSpan[], currentExpandedState);
-        } else {
-          processTraceData(response.data.spans as TraceSpan[]);
-        }
-        setError(null);
-      } else {
-        console.error('Error loading trace data: Invalid response format');
-        setError('Invalid trace data format received');
-      }
+      const { spans, issues: fileIssues, format, traceId: fileTraceId, workflowName } = parseTraceFile(await file.text());
+      stopReplay();
+      replaceSpans(spans, fileIssues);
+      setLocalFile({ name: file.name, format, traceId: fileTraceId, workflowName });
+      setSelectedSpanId(null);
+      setFileError(null);
     } catch (error) {
-      console.error('Error loading trace data:', error);
-      setError('Failed to load trace. Please check your authentication.');
-      if (isPollingUpdate) {
-        setIsPolling(false);
+      if (error instanceof TraceFileError) {
+        setFileError(`Couldn't load ${file.name}: ${error.message}`);
+        return;
       }
+      console.error('Error loading trace file:', error);
+      setFileError(`Couldn't load ${file.name}. Please try again.`);
     }
   };
 
-  const processTraceData = (spans: TraceSpan[], preserveExpandedState?: Set<string>) => {
-    // Build span hierarchy
-    const spanMap = new Map<string, TraceSpan & { children: TraceSpan[] }>();
-    
-    // Initialize all spans with empty children array
-    spans.forEach(span => {
-      spanMap.set(span.id, { ...span, children: [] });
-    });
-    
-    // Build the hierarchy by connecting parents and children
-    const rootSpans: TraceSpan[] = [];
-    spans.forEach(span => {
-      const spanWithChildren = spanMap.get(span.id)!;
-      if (!span.parent_id) {
-        rootSpans.push(spanWithChildren);
-      } else {
-        const parent = spanMap.get(span.parent_id);
-        if (parent) {
-          parent.children.push(spanWithChildren);
-        }
-      }
-    });
+  const handleFileUpload = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    // Cleared so picking the same file again still triggers a change
+    event.target.value = '';
+    if (file) loadFile(file);
+  };
 
-    setTraceData(rootSpans);
-    
-    // Set expanded state based on whether we want to preserve current state or not
-    if (preserveExpandedState) {
-      setExpandedSpans(prev => {
-        const newExpanded = new Set(prev);
-        // Add any new spans that don't exist in current state
-        spans.forEach(span => {
-          if (prev.has(span.id)) {
-            newExpanded.add(span.id);
-          }
-        });
-        return newExpanded;
-      });
-    } else {
-      // Initially expand all spans
-      const initialExpanded = new Set(spans.map(span => span.id));
-      setExpandedSpans(initialExpanded);
-    }
+  const { isOver: isFileOver } = useFileDrop(loadFile);
+
+  const handleReload = () => {
+    setLocalFile(null);
+    setFileError(null);
+    stopReplay();
+    reload();
   };
 
-  const handleFileUpload = async (event: React.ChangeEvent<HTMLInputElement>) => {
-    const file = event.target.files?.[0];
-    if (!file) return;
+  // Comments and evaluations live with traces in this app's API;
+  // OpenTelemetry traces and uploaded files have nowhere to keep them
+  const annotationsTraceId = source === 'api' && !localFile && getSession() ? traceId : undefined;
+  const { comments, error: commentsError, addComment, setResolved } = useTraceComments(annotationsTraceId);
+  const commentCounts = useMemo(() => countCommentsBySpan(comments), [comments]);
+  const {
+    evaluation,
+    saving: evaluationSaving,
+    error: evaluationError,
+    updateEvaluation
+  } = useTraceEvaluation(annotationsTraceId);
+
+  const exportInfo: ExportTraceInfo = localFile
+    ? { trace_id: localFile.traceId, workflow_name: localFile.workflowName }
+    : trace ?? { trace_id: traceId };
+
+  const exportSelection = selectedSpanId ? fullTree.nodes.get(selectedSpanId) ?? null : null;
+
+  const handleExport = (options: ExportOptions) => {
+    downloadFile(buildExport(options, exportInfo, fullTree.roots, exportSelection, redactionRules));
+    setShowExportMenu(false);
+  };
 
-    try {
-      const text = await file.text();
-      const data: ApiResponse<TraceData> = JSON.parse(text);
-      if (data.success && data.data.spans && data.data.spans.length > 0) {
-        processTraceData(data.data.spans as TraceSpan[]);
-      }
-    } catch (error) {
-      console.error('Error loading trace data:', error);
-    }
+  const handleCopyMarkdown = async (options: Omit<ExportOptions, 'format'>) => {
+    const { content } = buildExport({ ...options, format: 'markdown' }, exportInfo, fullTree.roots, exportSelection, redactionRules);
+    await navigator.clipboard.writeText(content);
   };
 
-  const formatDuration = (duration: number) => {
-    if (duration === 0) {
-      return '0 ms';
-    }
-    if (duration >= 1000) {
-      const seconds = duration / 1000;
-      return `${seconds.toFixed(2)} s`;
+  // Revealing is only allowed once it has been logged. Uploaded files
+  // without a session have nobody to log for and never left the browser.
+  const toggleReveal = async () => {
+    const next = !revealed;
+    if (getSession()) {
+      try {
+        await logRedactionReveal({ trace_id: exportInfo.trace_id ?? null, revealed: next });
+      } catch (error) {
+        // RequireAuth takes care of the redirect once the session is cleared.
+        if (error instanceof UnauthorizedError) return;
+        console.error('Error logging redaction reveal:', error);
+        if (next) {
+          setRevealError("Couldn't record the reveal, so values stay redacted. Please try again.");
+          return;
+        }
+      }
     }
-    return `${Math.round(duration)} ms`;
+    setRevealError(null);
+    setRevealed(next);
   };
 
-  const toggleSpan = (spanId: string, e: React.MouseEvent) => {
-    e.stopPropagation();
+  const toggleSpan = useCallback((spanId: string) => {
     setExpandedSpans(prev => {
       const next = new Set(prev);
       if (next.has(spanId)) {
@@ -224,198 +341,278 @@ function TrajViewer() {
       }
       return next;
     });
-  };
+  }, []);
 
-  const toggleSection = (section: SectionName) => {
+  const toggleSection = useCallback((section: SectionName) => {
     setExpandedSections(prev => ({
       ...prev,
       [section]: !prev[section]
     }));
-  };
-
-  interface SpanRowProps {
-    span: TraceSpan;
-    depth?: number;
-    maxDuration: number;
-    index: number;
-  }
+  }, []);
 
-  const getSpanIcon = (span: TraceSpan) => {
-    const iconClasses = "h-4 w-4 flex-shrink-0";
-    
-    // Agent spans should use CircleDot
-    if (span.span_data.type === 'agent') {
-      return <CircleDot className={`${iconClasses} text-blue-400`} />;
-    }
+  // Layout is derived from the tree and expansion state only, so selection
+  // changes and unrelated re-renders don't walk the whole hierarchy again.
+  const filteredRoots = useMemo(() => filterSpanTree(traceData, filters), [traceData, filters]);
+  const filteredSpanCount = useMemo(
+    () => (filteredRoots === traceData ? tree.nodes.size : countSpans(filteredRoots)),
+    [filteredRoots, traceData, tree.nodes]
+  );
+  const visibleRows = useMemo(() => flattenSpanTree(filteredRoots, expandedSpans), [filteredRoots, expandedSpans]);
+  // From the whole trace, so bars keep their scale while a replay builds it up
+  const timeline = useMemo(() => getTimelineBounds(streamTree.roots), [streamTree]);
+  const errorSpans = useMemo(() => collectErrorSpans(traceData), [traceData]);
+  // Counted on the filtered tree so badges reflect what's under each visible row
+  const descendantErrors = useMemo(() => countDescendantErrors(filteredRoots), [filteredRoots]);
+
+  const { view: waterfallWindow, isZoomed, zoomBy, zoomToSpan, resetZoom } =
+    useTimelineZoom(timeline, spanListRef, showWaterfall);
+  const waterfall = useMemo<WaterfallView | undefined>(() => showWaterfall ? {
+    view: waterfallWindow,
+    traceStart: timeline.start,
+    ticks: getTimeTicks(waterfallWindow, timeline, WATERFALL_MAX_TICKS)
+  } : undefined, [showWaterfall, waterfallWindow, timeline]);
+  // Computed on the whole trace: hiding spans doesn't change what it waited on
+  const criticalPath = useMemo(
+    () => (showWaterfall && showCriticalPath ? getCriticalPath(traceData) : null),
+    [showWaterfall, showCriticalPath, traceData]
+  );
 
-    // Handoff spans use ArrowRight
-    if (span.span_data.type === 'handoff') {
-      return <ArrowRight className={`${iconClasses} text-orange-500`} />;
-    }
+  const previousTraceIdRef = useRef(traceId);
+  useEffect(() => {
+    // Only on navigation to another trace, or the linked view would be lost
+    if (previousTraceIdRef.current === traceId) return;
+    previousTraceIdRef.current = traceId;
+    pendingSpanIdRef.current = null;
+    linkedCollapsedRef.current.clear();
+    setSelectedSpanId(null);
+    setLocalFile(null);
+    setFileError(null);
+    setRevealed(false);
+    setRevealError(null);
+    stopReplay();
+    resetZoom();
+  }, [traceId, resetZoom, stopReplay]);
+
+  const collapsedSpanIds = useMemo(() => [
+    ...getLinkedCollapsed(tree.roots, expandedSpans),
+    // Not arrived yet, but still collapsed once they do
+    ...linkedCollapsedRef.current
+  ], [tree, expandedSpans]);
 
-    // Function calls use Terminal
-    if (span.span_data.type === 'function') {
-      return <Terminal className={`${iconClasses} text-emerald-400`} />;
+  useEffect(() => {
+    const next = writeViewLink(searchParams, {
+      spanId: selectedSpanId,
+      collapsed: collapsedSpanIds,
+      closedSections: Object.entries(expandedSections).filter(([, open]) => !open).map(([name]) => name),
+      tab: detailTab === 'details' ? null : detailTab,
+      search: searchQuery,
+      filters,
+      split: splitPosition
+    });
+    if (next.toString() !== searchParams.toString()) {
+      setSearchParams(next, { replace: true });
     }
+  }, [searchParams, setSearchParams, selectedSpanId, collapsedSpanIds, expandedSections, detailTab, searchQuery, filters, splitPosition]);
 
-    // File operations
-    if (span.span_data.name === 'read_file') {
-      return <FileText className={`${iconClasses} text-emerald-400`} />;
-    }
-    if (span.span_data.name === 'list_files') {
-      return <FolderOpen className={`${iconClasses} text-emerald-400`} />;
+  const copyLink = async () => {
+    try {
+      await navigator.clipboard.writeText(window.location.href);
+      setLinkCopyStatus('copied');
+    } catch (error) {
+      console.error('Error copying link:', error);
+      setLinkCopyStatus('failed');
     }
+    setTimeout(() => setLinkCopyStatus('idle'), 1500);
+  };
 
-    // POST requests and generations
-    if (span.span_data.name?.startsWith('POST') || span.span_data.type === 'generation') {
-      return <MessageSquare className={`${iconClasses} text-blue-400`} />;
-    }
+  // Without a selection the transcript covers the whole trace
+  const effectiveTranscriptScope = selectedSpan ? transcriptScope : 'trace';
+  const transcript = useMemo(() => {
+    if (detailTab !== 'transcript') return [];
+    const spans = effectiveTranscriptScope === 'selection' && selectedSpan
+      ? [...getSpansBefore(selectedSpan, traceData), selectedSpan]
+      : getSpansBefore(null, traceData);
+    return buildTranscript(spans);
+  }, [detailTab, effectiveTranscriptScope, selectedSpan, traceData]);
+  const usageSummary = useMemo(
+    () => (detailTab === 'usage' ? summarizeUsage(traceData, prices) : null),
+    [detailTab, traceData, prices]
+  );
+  const agentGraph = useMemo(
+    () => (detailTab === 'agents' ? buildAgentGraph(traceData) : null),
+    [detailTab, traceData]
+  );
 
-    // Default to CircleDot for unknown types
-    return <CircleDot className={`${iconClasses} text-gray-400`} />;
-  };
+  const handleSpanSelect = useCallback((span: TraceSpan) => {
+    setSelectedSpanId(span.id);
+  }, []);
 
-  const getProgressBarColor = (span: TraceSpan) => {
-    if (span.span_data.type === 'agent' || span.span_data.name?.startsWith('POST')) {
-      return 'bg-blue-500';
-    }
-    if (span.span_data.name === 'read_file' || span.span_data.name === 'list_files') {
-      return 'bg-emerald-500';
-    }
-    return 'bg-gray-500';
-  };
+  // Everything before the selected span; each agent's instructions are only
+  // shown the first time it appears
+  const history = useMemo(() => {
+    if (!selectedSpan) return [];
+    const seenAgents = new Set<string>();
+    return getSpansBefore(selectedSpan, traceData).map(span => {
+      const isFirstAppearance = span.span_data.type === 'agent' && !seenAgents.has(span.span_data.name);
+      if (span.span_data.type === 'agent') seenAgents.add(span.span_data.name);
+      return { span, isFirstAppearance };
+    });
+  }, [selectedSpan, traceData]);
 
-  const renderName = (span: TraceSpan) => {
-    if (span.span_data.type === 'handoff') {
-      return (
-        <div className="flex items-center space-x-1.5 min-w-0">
-          <ArrowRight className="h-4 w-4 flex-shrink-0 text-orange-500" />
-          <span className="text-gray-400 flex-shrink-0">Handoff</span>
-          <ArrowRight className="h-3 w-3 flex-shrink-0 text-gray-500" />
-          <span className="text-gray-200 truncate">{span.span_data.to_agent}</span>
-        </div>
-      );
-    }
+  // Matching runs against the whole tree, including collapsed subtrees; the
+  // deferred query keeps typing responsive on very large traces.
+  const deferredSearchQuery = useDeferredValue(searchQuery);
+  const parsedSearch = useMemo(() => parseSearchQuery(deferredSearchQuery), [deferredSearchQuery]);
+  const searchMatches = useMemo(() => findMatchingSpans(filteredRoots, parsedSearch), [filteredRoots, parsedSearch]);
+  const searchMatchSet = useMemo(() => new Set(searchMatches), [searchMatches]);
+  const currentMatchId = currentMatch >= 0 ? searchMatches[currentMatch] ?? null : null;
 
-    return (
-      <div className="flex items-center space-x-2 min-w-0">
-        <div className="flex-shrink-0">{getSpanIcon(span)}</div>
-        <span className="text-gray-200 truncate">
-          {span.span_data.name || span.span_data.type}
-        </span>
-      </div>
-    );
-  };
+  useEffect(() => {
+    revealedMatchesRef.current = new Set();
+    setCurrentMatch(-1);
+  }, [parsedSearch]);
 
-  const SpanRow: React.FC<SpanRowProps> = ({ span, depth = 0, maxDuration, index }) => {
-    const duration = new Date(span.ended_at).getTime() - new Date(span.started_at).getTime();
-    const startTime = new Date(span.started_at).getTime();
-    const endTime = new Date(span.ended_at).getTime();
-    
-    const startPercentage = ((startTime - new Date(traceData[0].started_at).getTime()) / maxDuration) * 100;
-    const widthPercentage = (duration / maxDuration) * 100;
-    
-    const isExpanded = expandedSpans.has(span.id);
-    
-    return (
-      <>
-        <div 
-          className={`group ${
-            selectedSpan?.id === span.id ? 'bg-[#2A2A2A]' : 
-            'bg-[#1C1C1C] hover:bg-[#232323]'
-          } transition-colors relative clickable responsive-padding-sm`}
-          onClick={(e) => {
-            e.stopPropagation();
-            handleSpanSelect(span);
-          }}
-        >
-          <div className="flex items-center h-10 px-6 min-w-0 relative responsive-stack-sm">
-            <div className="flex items-center flex-shrink-0 min-w-0 responsive-width-sm">
-              <div className="flex items-center min-w-0 w-full responsive-stack-xs">
-                {/* Indentation and hierarchy - adjusted for mobile */}
-                <div className="flex items-center gap-2 responsive-margin-sm">
-                  {depth > 0 && (
-                    <div 
-                      style={{ width: `${depth * 16}px` }}
-                      className="responsive-hidden"
-                    />
-                  )}
-                  {(span as any).children?.length > 0 && (
-                    <button 
-                      className="p-1.5 rounded hover:bg-[#2A2A2A] flex-shrink-0 relative z-10 clickable"
-                      onClick={(e) => toggleSpan(span.id, e)}
-                    >
-                      <ChevronDown 
-                        className={`h-4 w-4 text-gray-400 transition-transform ${isExpanded ? '' : '-rotate-90'}`}
-                      />
-                    </button>
-                  )}
-                  <div className="responsive-span-name">
-                    {renderName(span)}
-                  </div>
-                </div>
-              </div>
-            </div>
-            
-            {/* Duration and progress - adjusted for mobile */}
-            <div className="flex items-center justify-end space-x-4 min-w-0 flex-1 responsive-stack-sm">
-              <div className="text-right text-sm text-gray-400 font-mono responsive-text-sm">
-                {formatDuration(duration)}
-              </div>
-              <div className="relative min-w-0 flex-shrink-0 responsive-progress-sm">
-                <div className="h-1.5 bg-[#2A2A2A] rounded-full overflow-hidden">
-                  <div 
-                    className={`h-full rounded-full transition-all ${getProgressBarColor(span)}`}
-                    style={{ 
-                      width: `${Math.min(widthPercentage, 100)}%`,
-                      marginLeft: `${Math.min(startPercentage, 100)}%`,
-                      opacity: 0.8
-                    }}
-                  />
-                </div>
-              </div>
-            </div>
-          </div>
-        </div>
-        
-        {/* Render children with responsive adjustments */}
-        {isExpanded && (span as any).children?.map((child: TraceSpan, childIndex: number) => (
-          <div key={child.id} className="responsive-margin-sm">
-            <SpanRow 
-              span={child} 
-              depth={depth + 1}
-              maxDuration={maxDuration}
-              index={childIndex + index + 1}
-            />
-          </div>
-        ))}
-      </>
-    );
-  };
+  // Expand the ancestors of every match so it shows up in the tree. Each match
+  // is only revealed once per query, so collapsing it again afterwards sticks
+  // while a live trace keeps updating.
+  useEffect(() => {
+    const unrevealed = searchMatches.filter(id => !revealedMatchesRef.current.has(id));
+    if (unrevealed.length === 0) return;
 
-  // Calculate max duration for timeline scaling
-  const getMaxDuration = (spans: TraceSpan[]) => {
-    if (!spans.length) return 0;
-    const firstStart = new Date(spans[0].started_at).getTime();
-    let lastEnd = new Date(spans[0].ended_at).getTime();
-    
-    spans.forEach(span => {
-      const endTime = new Date(span.ended_at).getTime();
-      if (endTime > lastEnd) {
-        lastEnd = endTime;
-      }
+    unrevealed.forEach(id => revealedMatchesRef.current.add(id));
+    setExpandedSpans(prev => {
+      const next = new Set(prev);
+      unrevealed.forEach(id => getAncestorIds(tree, id).forEach(ancestorId => next.add(ancestorId)));
+      return next;
     });
-    
-    return lastEnd - firstStart;
-  };
+  }, [searchMatches, tree]);
+
+  // Selects a span and expands its ancestors so its row is in the tree
+  const revealSpan = useCallback((spanId: string) => {
+    const span = tree.nodes.get(spanId);
+    if (!span) return;
+    setExpandedSpans(prev => new Set([...prev, ...getAncestorIds(tree, spanId)]));
+    handleSpanSelect(span);
+  }, [tree, handleSpanSelect]);
 
-  // Update the handleSpanSelect function
-  const handleSpanSelect = (span: TraceSpan) => {
-    setSelectedSpan(span);
-    if (span.span_data.type === 'agent') {
-      setSeenAgents(prev => new Set([...prev, span.span_data.name || span.span_data.type]));
+  useEffect(() => {
+    const pendingSpanId = pendingSpanIdRef.current;
+    if (!pendingSpanId || !tree.nodes.has(pendingSpanId)) return;
+    pendingSpanIdRef.current = null;
+    revealSpan(pendingSpanId);
+  }, [tree, revealSpan]);
+
+  // The detail panel follows the replay; each newly active span is selected
+  // once, so the user can still look at another span until the next one
+  const followedSpanIdRef = useRef<string | null>(null);
+  const toggleReplay = useCallback(() => {
+    if (replay.active) {
+      stopReplay();
+      return;
     }
-  };
+    followedSpanIdRef.current = null;
+    startReplay();
+  }, [replay.active, startReplay, stopReplay]);
+
+  useEffect(() => {
+    const spanId = replay.activeSpanId;
+    if (!replay.active || !spanId || followedSpanIdRef.current === spanId || !tree.nodes.has(spanId)) return;
+    followedSpanIdRef.current = spanId;
+    revealSpan(spanId);
+  }, [replay.active, replay.activeSpanId, tree, revealSpan]);
+
+  const goToMatch = useCallback((offset: number) => {
+    if (searchMatches.length === 0) return;
+
+    const index = currentMatch < 0
+      ? (offset > 0 ? 0 : searchMatches.length - 1)
+      : (currentMatch + offset + searchMatches.length) % searchMatches.length;
+    setCurrentMatch(index);
+    revealSpan(searchMatches[index]);
+  }, [searchMatches, currentMatch, revealSpan]);
+
+  useSpanTreeKeyboard({
+    rows: visibleRows,
+    selectedSpanId,
+    onSelect: handleSpanSelect,
+    onClearSelection: () => setSelectedSpanId(null),
+    onToggle: toggleSpan,
+    onExpandAll: () => setExpandedSpans(new Set(tree.nodes.keys())),
+    onCollapseAll: () => setExpandedSpans(new Set()),
+    onShortcut: (key) => {
+      if (key === '/') {
+        searchInputRef.current?.focus();
+        return true;
+      }
+      if (key === 'n' || key === 'N') {
+        goToMatch(key === 'n' ? 1 : -1);
+        return true;
+      }
+      if (key === 't') {
+        setDetailTab(prev => (prev === 'transcript' ? 'details' : 'transcript'));
+        return true;
+      }
+      if (key === 'u') {
+        setDetailTab(prev => (prev === 'usage' ? 'details' : 'usage'));
+        return true;
+      }
+      if (key === 'g') {
+        setDetailTab(prev => (prev === 'agents' ? 'details' : 'agents'));
+        return true;
+      }
+      if (key === 'r' && annotationsTraceId) {
+        setDetailTab(prev => (prev === 'review' ? 'details' : 'review'));
+        return true;
+      }
+      if (review && (key === '[' || key === ']')) {
+        const target = key === '[' ? reviewPosition.previous : reviewPosition.next;
+        if (target) navigate(reviewTracePath(target.trace_id));
+        return true;
+      }
+      if (groupId && (key === '[' || key === ']')) {
+        const target = key === '[' ? sessionPosition.previous : sessionPosition.next;
+        if (target) navigate(sessionTracePath(groupId, target.trace_id));
+        return true;
+      }
+      if (key === 'R' && (canReplay || replay.active)) {
+        toggleReplay();
+        return true;
+      }
+      if (replay.active && key === ' ') {
+        if (replay.playing) {
+          replay.pause();
+        } else {
+          replay.play();
+        }
+        return true;
+      }
+      if (replay.active && (key === ',' || key === '.')) {
+        replay.step(key === '.' ? 1 : -1);
+        return true;
+      }
+      if (key === 'w') {
+        setShowWaterfall(prev => !prev);
+        return true;
+      }
+      if (showWaterfall && key === 'z' && selectedSpan) {
+        zoomToSpan(selectedSpan);
+        return true;
+      }
+      if (showWaterfall && key === 'Z') {
+        resetZoom();
+        return true;
+      }
+      const shortcut = SECTION_SHORTCUTS.find(item => item.key === key);
+      if (!shortcut) return false;
+      toggleSection(shortcut.section);
+      return true;
+    },
+    onToggleHelp: () => setShowShortcutHelp(prev => !prev),
+    enabled: !showShortcutHelp
+  });
+
+  const closeShortcutHelp = useCallback(() => setShowShortcutHelp(false), []);
+  const selectedRowIndex = selectedSpanId ? visibleRows.findIndex(row => row.span.id === selectedSpanId) : -1;
 
   const handleDragStart = useCallback((e: React.MouseEvent) => {
     e.preventDefault();
@@ -630,55 +827,348 @@ function TrajViewer() {
             <div className="flex items-center space-x-2 responsive-stack-sm">
               <button 
                 className="text-gray-400 hover:text-gray-300 p-1 rounded hover:bg-gray-800 clickable"
-                onClick={() => navigate('/')}
+                onClick={() => navigate(review ? REVIEW_PATH : groupId ? sessionPath(groupId) : '/')}
               >
                 <ArrowLeft className="h-4 w-4" />
               </button>
-              <h1 className="text-[15px] font-medium text-gray-200 responsive-text responsive-text-sm">Traces</h1>
+              <h1 className="text-[15px] font-medium text-gray-200 responsive-text responsive-text-sm">
+                {review ? 'Review' : groupId ? 'Session' : 'Traces'}
+              </h1>
               <span className="text-gray-600 responsive-hidden">/</span>
               <span className="text-[15px] text-gray-400 responsive-text responsive-text-sm responsive-hidden">
-                {traceId || 'No Trace Selected'}
+                {localFile?.name || traceId || 'No Trace Selected'}
               </span>
             </div>
             <div className="flex items-center gap-2">
+              {review && reviewQueue.length > 0 && (
+                <ReviewNavigator
+                  position={reviewPosition}
+                  queueLength={reviewQueue.length}
+                  onOpenQueue={() => navigate(REVIEW_PATH)}
+                  onStep={(trace) => navigate(reviewTracePath(trace.trace_id))}
+                />
+              )}
+              {groupId && sessionTraces.length > 0 && (
+                <SessionNavigator
+                  position={sessionPosition}
+                  traceCount={sessionTraces.length}
+                  onOpenSession={() => navigate(sessionPath(groupId))}
+                  onStep={(trace) => navigate(sessionTracePath(groupId, trace.trace_id))}
+                />
+              )}
+              <TraceSearchBar
+                value={searchQuery}
+                onChange={setSearchQuery}
+                matchCount={searchMatches.length}
+                currentMatch={currentMatchId ? currentMatch : -1}
+                onNext={() => goToMatch(1)}
+                onPrevious={() => goToMatch(-1)}
+                error={parsedSearch.error}
+                inputRef={searchInputRef}
+              />
+              {errorSpans.length > 0 && (
+                <div className="relative">
+                  <button 
+                    onClick={() => setShowErrorSummary(prev => !prev)}
+                    className="flex items-center gap-2 text-red-400 hover:text-red-300 px-3 py-1.5 rounded hover:bg-gray-800 clickable responsive-padding-sm"
+                  >
+                    <AlertCircle className="h-4 w-4" />
+                    <span className="text-sm responsive-hidden">
+                      {errorSpans.length} {errorSpans.length === 1 ? 'error' : 'errors'}
+                    </span>
+                  </button>
+                  {showErrorSummary && (
+                    <ErrorSummary
+                      errors={errorSpans}
+                      selectedSpanId={selectedSpanId}
+                      onSelect={revealSpan}
+                      onClose={() => setShowErrorSummary(false)}
+                    />
+                  )}
+                </div>
+              )}
+              {issues.length > 0 && (
+                <div
+                  className="flex items-center gap-2 px-2 text-amber-400"
+                  title={formatIssueSummary(issues)}
+                >
+                  <AlertTriangle className="h-4 w-4" />
+                  <span className="text-sm responsive-hidden">
+                    {issues.length} schema {issues.length === 1 ? 'issue' : 'issues'}
+                  </span>
+                </div>
+              )}
+              {traceId && (
+                <div
+                  className="flex items-center gap-2 px-2"
+                  title={status === 'polling' ? 'Live stream unavailable, polling for updates' : undefined}
+                >
+                  <span className={`h-2 w-2 rounded-full ${CONNECTION_STATUS_STYLES[status].dot}`} />
+                  <span className={`text-sm responsive-hidden ${CONNECTION_STATUS_STYLES[status].text}`}>
+                    {CONNECTION_STATUS_STYLES[status].label}
+                  </span>
+                </div>
+              )}
+              {traceId && status === 'local' && (
+                <button
+                  onClick={handleReload}
+                  className="flex items-center gap-2 text-gray-400 hover:text-gray-300 px-3 py-1.5 rounded hover:bg-gray-800 clickable responsive-padding-sm"
+                  title="Discard the uploaded file and load this trace from the server"
+                >
+                  <RotateCcw className="h-4 w-4" />
+                  <span className="text-sm responsive-hidden">Reload trace</span>
+                </button>
+              )}
+              {traceId && status !== 'completed' && status !== 'local' && (
+                <button 
+                  onClick={status === 'paused' ? resume : pause}
+                  className="flex items-center gap-2 text-gray-400 hover:text-gray-300 px-3 py-1.5 rounded hover:bg-gray-800 clickable responsive-padding-sm"
+                >
+                  {status === 'paused' ? <Play className="h-4 w-4" /> : <Pause className="h-4 w-4" />}
+                  <span className="text-sm responsive-hidden">{status === 'paused' ? 'Resume' : 'Pause'}</span>
+                </button>
+              )}
+              <button 
+                onClick={() => setShowFilters(prev => !prev)}
+                className={`flex items-center gap-2 px-3 py-1.5 rounded hover:bg-gray-800 clickable responsive-padding-sm ${
+                  isFilterActive(filters) ? 'text-blue-400 hover:text-blue-300' : 'text-gray-400 hover:text-gray-300'
+                }`}
+                title="Filter spans"
+              >
+                <Filter className="h-4 w-4" />
+                <span className="text-sm responsive-hidden">Filter</span>
+              </button>
+              <button 
+                onClick={() => setShowWaterfall(prev => !prev)}
+                className={`flex items-center gap-2 px-3 py-1.5 rounded hover:bg-gray-800 clickable responsive-padding-sm ${
+                  showWaterfall ? 'text-blue-400 hover:text-blue-300' : 'text-gray-400 hover:text-gray-300'
+                }`}
+                title="Waterfall timeline (w)"
+              >
+                <GanttChart className="h-4 w-4" />
+                <span className="text-sm responsive-hidden">Waterfall</span>
+              </button>
+              {(canReplay || replay.active) && (
+                <button
+                  onClick={toggleReplay}
+                  className={`flex items-center gap-2 px-3 py-1.5 rounded hover:bg-gray-800 clickable responsive-padding-sm ${
+                    replay.active ? 'text-blue-400 hover:text-blue-300' : 'text-gray-400 hover:text-gray-300'
+                  }`}
+                  title="Replay the trace in the order things happened (R)"
+                >
+                  <History className="h-4 w-4" />
+                  <span className="text-sm responsive-hidden">Replay</span>
+                </button>
+              )}
+              {traceData.length > 0 && (
+                <button
+                  onClick={copyLink}
+                  className="flex items-center gap-2 text-gray-400 hover:text-gray-300 px-3 py-1.5 rounded hover:bg-gray-800 clickable responsive-padding-sm"
+                  title="Copy a link to this view: the selected span, expanded spans, search and filters"
+                >
+                  {linkCopyStatus === 'copied' && <Check className="h-4 w-4 text-emerald-400" />}
+                  {linkCopyStatus === 'failed' && <AlertCircle className="h-4 w-4 text-red-400" />}
+                  {linkCopyStatus === 'idle' && <Link2 className="h-4 w-4" />}
+                  <span className="text-sm responsive-hidden">
+                    {linkCopyStatus === 'copied' ? 'Copied' : linkCopyStatus === 'failed' ? 'Copy failed' : 'Copy link'}
+                  </span>
+                </button>
+              )}
+              {traceData.length > 0 && (
+                <button
+                  onClick={toggleReveal}
+                  className={`flex items-center gap-2 px-3 py-1.5 rounded hover:bg-gray-800 clickable responsive-padding-sm ${
+                    revealed ? 'text-amber-400 hover:text-amber-300' : 'text-gray-400 hover:text-gray-300'
+                  }`}
+                  title={revealed ? 'Redact sensitive values again' : 'Show values hidden by your redaction rules (logged)'}
+                >
+                  {revealed ? <EyeOff className="h-4 w-4" /> : <Eye className="h-4 w-4" />}
+                  <span className="text-sm responsive-hidden">{revealed ? 'Redact' : 'Reveal'}</span>
+                </button>
+              )}
+              {traceData.length > 0 && (
+                <div className="relative">
+                  <button
+                    onClick={() => setShowExportMenu(prev => !prev)}
+                    className="flex items-center gap-2 text-gray-400 hover:text-gray-300 px-3 py-1.5 rounded hover:bg-gray-800 clickable responsive-padding-sm"
+                    title="Export the trace or the selected subtree"
+                  >
+                    <Download className="h-4 w-4" />
+                    <span className="text-sm responsive-hidden">Export</span>
+                  </button>
+                  {showExportMenu && (
+                    <ExportMenu
+                      selectionLabel={selectedSpan ? selectedSpan.span_data.name || selectedSpan.span_data.type : null}
+                      forceRedact={!revealed}
+                      onExport={handleExport}
+                      onCopyMarkdown={handleCopyMarkdown}
+                      onClose={() => setShowExportMenu(false)}
+                    />
+                  )}
+                </div>
+              )}
+              <button 
+                onClick={() => setShowShortcutHelp(true)}
+                className="flex items-center gap-2 text-gray-400 hover:text-gray-300 px-3 py-1.5 rounded hover:bg-gray-800 clickable responsive-padding-sm"
+                title="Keyboard shortcuts (?)"
+              >
+                <Keyboard className="h-4 w-4" />
+              </button>
               <input
                 type="file"
                 ref={fileInputRef}
                 onChange={handleFileUpload}
-                accept=".traj"
+                accept={LOCAL_FILE_ACCEPT}
                 className="hidden"
               />
               <button 
                 onClick={() => fileInputRef.current?.click()}
                 className="flex items-center gap-2 text-gray-400 hover:text-gray-300 px-3 py-1.5 rounded hover:bg-gray-800 clickable responsive-padding-sm"
+                title="Open a .traj, JSON, JSONL or OTLP file, or drop one anywhere on the page"
               >
                 <Upload className="h-4 w-4" />
                 <span className="text-sm responsive-hidden">Upload File</span>
               </button>
+              {getSession() && (
+                <button 
+                  onClick={() => logout()}
+                  className="flex items-center gap-2 text-gray-400 hover:text-gray-300 px-3 py-1.5 rounded hover:bg-gray-800 clickable responsive-padding-sm"
+                >
+                  <LogOut className="h-4 w-4" />
+                  <span className="text-sm responsive-hidden">Sign out</span>
+                </button>
+              )}
             </div>
           </div>
         </div>
       </header>
 
+      {(fileError || revealError || error) && (
+        <div className="bg-red-500/10 border-b border-red-500/20 px-4 py-2 text-sm text-red-400">
+          {fileError || revealError || error}
+        </div>
+      )}
+
+      {isFileOver && (
+        <div className="fixed inset-0 z-[100] flex items-center justify-center bg-black/60 p-8 pointer-events-none">
+          <div className="w-full h-full flex flex-col items-center justify-center gap-3 rounded-lg border-2 border-dashed border-blue-500/60 text-gray-200">
+            <Upload className="h-8 w-8 text-blue-400" />
+            <span className="text-[15px]">Drop a trace file to open it</span>
+            <span className="text-sm text-gray-500">.traj, JSON span array, JSONL or OTLP JSON</span>
+          </div>
+        </div>
+      )}
+
+      {showShortcutHelp && (
+        <ShortcutHelp
+          groups={[
+            { title: 'Span tree', shortcuts: SPAN_TREE_SHORTCUTS },
+            { title: 'Search', shortcuts: SEARCH_SHORTCUTS },
+            { title: 'Waterfall', shortcuts: WATERFALL_SHORTCUTS },
+            ...(canReplay || replay.active ? [{ title: 'Replay', shortcuts: REPLAY_SHORTCUTS }] : []),
+            ...(groupId ? [{ title: 'Session', shortcuts: SESSION_SHORTCUTS }] : []),
+            ...(review ? [{ title: 'Review', shortcuts: REVIEW_SHORTCUTS }] : []),
+            {
+              title: 'Detail panel',
+              shortcuts: [
+                { keys: ['t'], description: 'Switch between details and transcript' },
+                { keys: ['u'], description: 'Switch between details and token usage' },
+                { keys: ['g'], description: 'Switch between details and the agent graph' },
+                ...(annotationsTraceId ? [{ keys: ['r'], description: 'Switch between details and grading' }] : []),
+                ...SECTION_SHORTCUTS.map(item => ({ keys: [item.key], description: `Toggle ${item.label}` }))
+              ]
+            }
+          ]}
+          onClose={closeShortcutHelp}
+        />
+      )}
+
       <main className="flex-1 relative">
         <div ref={containerRef} className="max-w-[1600px] mx-auto h-[calc(100vh-3.5rem)] flex responsive-layout">
           {/* Left side content */}
           <div 
-            className={`overflow-y-auto custom-scrollbar ${isDragging ? 'user-select-none' : ''} responsive-width responsive-width-sm`}
+            ref={spanListRef}
+            className={`flex flex-col min-h-0 ${isDragging ? 'user-select-none' : ''} responsive-width responsive-width-sm`}
             style={{ width: `${splitPosition}%` }}
           >
-            <div className="divide-y divide-[#2A2A2A]">
-              {traceData.map((span, index) => (
-                <div key={span.id} className="responsive-margin-sm">
-                  <SpanRow 
-                    span={span}
-                    maxDuration={getMaxDuration(traceData)}
-                    index={index}
-                    depth={0}
+            {replay.active && (
+              <ReplayControls
+                time={replay.time}
+                duration={replay.duration}
+                playing={replay.playing}
+                speed={replay.speed}
+                onPlay={replay.play}
+                onPause={replay.pause}
+                onSeek={replay.seek}
+                onStep={replay.step}
+                onSpeedChange={replay.setSpeed}
+                onClose={stopReplay}
+              />
+            )}
+            {showFilters && (
+              <SpanFilterBar
+                filters={filters}
+                onChange={updateFilters}
+                onReplace={setFilters}
+                totalSpans={tree.nodes.size}
+                visibleSpans={filteredSpanCount}
+              />
+            )}
+            {!traceId && traceData.length === 0 ? (
+              <div className="flex-1 flex flex-col items-center justify-center gap-3 m-6 rounded-lg border-2 border-dashed border-[#2A2A2A] text-center">
+                <Upload className="h-8 w-8 text-gray-500" />
+                <p className="text-[15px] text-gray-200">Drop a trace file here</p>
+                <p className="text-sm text-gray-500 max-w-sm">
+                  The file is read in your browser and nothing is sent to a server. Accepts .traj files,
+                  JSON arrays of spans, JSONL with one span per line and OpenTelemetry OTLP JSON.
+                </p>
+                <button
+                  onClick={() => fileInputRef.current?.click()}
+                  className="mt-2 px-3 py-1.5 rounded border border-[#2A2A2A] text-sm text-gray-300 hover:bg-gray-800 clickable"
+                >
+                  Choose file
+                </button>
+              </div>
+            ) : (
+              <VirtualList
+                items={visibleRows}
+                rowHeight={SPAN_ROW_HEIGHT}
+                scrollToIndex={selectedRowIndex}
+                getKey={row => row.span.id}
+                renderRow={row => (
+                  <SpanRow
+                    span={row.span}
+                    depth={row.depth}
+                    isExpanded={row.isExpanded}
+                    isSelected={row.span.id === selectedSpanId}
+                    descendantErrors={descendantErrors.get(row.span.id) ?? 0}
+                    commentCount={commentCounts.get(row.span.id) ?? 0}
+                    labels={evaluation?.span_labels[row.span.id]}
+                    searchMatch={row.span.id === currentMatchId ? 'current' : searchMatchSet.has(row.span.id) ? 'match' : undefined}
+                    timeline={timeline}
+                    waterfall={waterfall}
+                    isCriticalPath={criticalPath?.has(row.span.id)}
+                    onSelect={handleSpanSelect}
+                    onToggle={toggleSpan}
                   />
-                </div>
-              ))}
-            </div>
+                )}
+                header={waterfall && (
+                  <WaterfallRuler
+                    waterfall={waterfall}
+                    bounds={timeline}
+                    isZoomed={isZoomed}
+                    showCriticalPath={showCriticalPath}
+                    canZoomToSelection={selectedSpan !== null}
+                    onZoomIn={() => zoomBy(1 / WATERFALL_ZOOM_STEP)}
+                    onZoomOut={() => zoomBy(WATERFALL_ZOOM_STEP)}
+                    onResetZoom={resetZoom}
+                    onZoomToSelection={() => selectedSpan && zoomToSpan(selectedSpan)}
+                    onToggleCriticalPath={() => setShowCriticalPath(prev => !prev)}
+                  />
+                )}
+                className="flex-1 custom-scrollbar"
+              />
+            )}
           </div>
 
           {/* Resize handle - hidden on mobile */}
@@ -696,8 +1186,60 @@ function TrajViewer() {
             className={`overflow-y-auto custom-scrollbar border-l border-[#2A2A2A] bg-[#1C1C1C] ${isDragging ? 'user-select-none' : ''} responsive-width responsive-width-sm`}
             style={{ width: `${100 - splitPosition}%` }}
           >
+            <div className="sticky top-0 z-10 flex gap-4 px-6 border-b border-[#2A2A2A] bg-[#1C1C1C]">
+              {DETAIL_TABS.filter(tab => tab.value !== 'review' || annotationsTraceId).map(tab => (
+                <button
+                  key={tab.value}
+                  className={`py-2.5 text-[13px] border-b-2 -mb-px clickable ${
+                    detailTab === tab.value
+                      ? 'border-blue-400 text-gray-50 font-semibold'
+                      : 'border-transparent text-gray-500 hover:text-gray-400'
+                  }`}
+                  onClick={() => setDetailTab(tab.value)}
+                >
+                  {tab.label}
+                </button>
+              ))}
+            </div>
             <div className="p-6 responsive-padding responsive-padding-sm">
-              {selectedSpan ? (
+              {usageSummary ? (
+                <UsagePanel
+                  summary={usageSummary}
+                  prices={prices}
+                  onPricesChange={setPrices}
+                  onResetPrices={resetPrices}
+                  onSelectSpan={revealSpan}
+                />
+              ) : agentGraph ? (
+                <AgentGraphView
+                  graph={agentGraph}
+                  spans={tree.nodes}
+                  selectedSpanId={selectedSpanId}
+                  onSelect={revealSpan}
+                />
+              ) : detailTab === 'review' && annotationsTraceId ? (
+                <EvaluationPanel
+                  evaluation={evaluation}
+                  saving={evaluationSaving}
+                  error={evaluationError}
+                  onChange={updateEvaluation}
+                  spans={tree.nodes}
+                  selectedSpanId={selectedSpanId}
+                  onSelectSpan={revealSpan}
+                  onNext={review && reviewPosition.next
+                    ? () => reviewPosition.next && navigate(reviewTracePath(reviewPosition.next.trace_id))
+                    : undefined}
+                />
+              ) : detailTab === 'transcript' ? (
+                <TranscriptView
+                  entries={transcript}
+                  scope={effectiveTranscriptScope}
+                  onScopeChange={setTranscriptScope}
+                  hasSelection={selectedSpan !== null}
+                  selectedSpanId={selectedSpanId}
+                  onSelect={revealSpan}
+                />
+              ) : selectedSpan ? (
                 <div className="space-y-6 responsive-spacing-md">
                   {/* Title Section */}
                   <div className="flex items-center space-x-3">
@@ -732,14 +1274,14 @@ function TrajViewer() {
                     <div className="flex items-center border border-[#2A2A2A] rounded-md px-3 py-1.5 gap-2 responsive-width-full">
                       <Clock className="h-4 w-4 text-gray-400" />
                       <span className="text-sm text-gray-300">
-                        {formatDuration(new Date(selectedSpan.ended_at).getTime() - new Date(selectedSpan.started_at).getTime())}
+                        {formatDuration(getSpanDuration(selectedSpan))}
                       </span>
                     </div>
                     
-                    {selectedSpan.span_data.input?.[0]?.tokens && (
+                    {getSpanTokens(selectedSpan) !== undefined && (
                       <div className="flex items-center border border-[#2A2A2A] rounded-md px-3 py-1.5">
                         <span className="text-sm text-gray-300">
-                          {selectedSpan.span_data.input[0].tokens}t
+                          {getSpanTokens(selectedSpan)}t
                         </span>
                       </div>
                     )}
@@ -751,6 +1293,38 @@ function TrajViewer() {
                     </div>
                   </div>
 
+                  {/* Error Section */}
+                  {selectedSpan.error && (
+                    <div className="border-t border-[#2A2A2A]">
+                      <div 
+                        className="flex items-center justify-between py-3 clickable"
+                        onClick={() => toggleSection('error')}
+                      >
+                        <h3 className="text-[13px] font-semibold text-red-400 responsive-text responsive-text-sm">Error</h3>
+                        <button className="text-gray-500 hover:text-gray-400 clickable">
+                          <ChevronDown 
+                            className={`h-4 w-4 transition-transform ${expandedSections.error ? '' : '-rotate-90'}`} 
+                          />
+                        </button>
+                      </div>
+                      {expandedSections.error && (
+                        <div className="space-y-3 pt-1 pl-4 border-l border-red-500/30 ml-2">
+                          <div className="text-sm text-red-300 whitespace-pre-wrap break-words bg-red-500/10 rounded-md p-3">
+                            {selectedSpan.error.message}
+                          </div>
+                          {selectedSpan.error.data && (
+                            <>
+                              <h4 className="text-sm text-gray-400">Data</h4>
+                              <pre className="text-sm text-gray-200 bg-[#232323] p-3 rounded-md font-mono whitespace-pre-wrap break-all">
+                                {JSON.stringify(selectedSpan.error.data, null, 2)}
+                              </pre>
+                            </>
+                          )}
+                        </div>
+                      )}
+                    </div>
+                  )}
+
                   {/* Properties Section - Moved above History */}
                   <div className="border-t border-[#2A2A2A]">
                     <div 
@@ -783,23 +1357,23 @@ function TrajViewer() {
                             </button>
                           </div>
                         </div>
-                        {selectedSpan.span_data.input?.[0]?.model && (
+                        {getSpanModel(selectedSpan) && (
                           <div className="flex justify-between items-start gap-4">
                             <span className="text-sm text-gray-400 flex-shrink-0">Model</span>
                             <span className="text-sm text-gray-200 text-right">
-                              {selectedSpan.span_data.input[0].model}
+                              {getSpanModel(selectedSpan)}
                             </span>
                           </div>
                         )}
-                        {selectedSpan.span_data.input?.[0]?.tokens && (
+                        {getSpanTokens(selectedSpan) !== undefined && (
                           <div className="flex justify-between items-start gap-4">
                             <span className="text-sm text-gray-400 flex-shrink-0">Tokens</span>
                             <span className="text-sm text-gray-200 text-right">
-                              {selectedSpan.span_data.input[0].tokens} total
+                              {getSpanTokens(selectedSpan)} total
                             </span>
                           </div>
                         )}
-                        {selectedSpan.span_data.tools && selectedSpan.span_data.tools.length > 0 && (
+                        {selectedSpan.span_data.type === 'agent' && selectedSpan.span_data.tools && selectedSpan.span_data.tools.length > 0 && (
                           <div className="flex justify-between items-start gap-4">
                             <span className="text-sm text-gray-400 flex-shrink-0">Functions</span>
                             <div className="text-right">
@@ -837,8 +1411,36 @@ function TrajViewer() {
                     )}
                   </div>
 
+                  {/* Schema Issues Section */}
+                  {selectedSpanIssues.length > 0 && (
+                    <div className="border-t border-[#2A2A2A]">
+                      <div 
+                        className="flex items-center justify-between py-3 clickable"
+                        onClick={() => toggleSection('issues')}
+                      >
+                        <h3 className="text-[13px] font-semibold text-amber-400 responsive-text responsive-text-sm">Schema Issues</h3>
+                        <button className="text-gray-500 hover:text-gray-400 clickable">
+                          <ChevronDown 
+                            className={`h-4 w-4 transition-transform ${expandedSections.issues ? '' : '-rotate-90'}`} 
+                          />
+                        </button>
+                      </div>
+                      {expandedSections.issues && (
+                        <div className="space-y-2 pt-1 pl-4 border-l border-[#2A2A2A] ml-2">
+                          {selectedSpanIssues.map((issue, index) => (
+                            <div key={index} className="flex items-start gap-2 text-sm">
+                              <AlertTriangle className={`h-4 w-4 flex-shrink-0 mt-0.5 ${issue.severity === 'error' ? 'text-red-400' : 'text-amber-400'}`} />
+                              <span className="font-mono text-gray-400">{issue.path}</span>
+                              <span className="text-gray-200">{issue.message}</span>
+                            </div>
+                          ))}
+                        </div>
+                      )}
+                    </div>
+                  )}
+
                   {/* History Section */}
-                  {selectedSpan && getAncestorSpans(selectedSpan, traceData).length > 0 && (
+                  {history.length > 0 && (
                     <div className="border-t border-[#2A2A2A]">
                       <div 
                         className="flex items-center justify-between py-3 clickable"
@@ -853,90 +1455,83 @@ function TrajViewer() {
                       </div>
                       {expandedSections.history && (
                         <div className="space-y-6 pt-1 pl-4 border-l border-[#2A2A2A] ml-2">
-                          {getAncestorSpans(selectedSpan, traceData).map((span, index, spans) => {
-                            // Track seen agents to show system content only on first appearance
-                            const seenAgentsInHistory = new Set<string>();
-                            spans.slice(0, index).forEach(s => {
-                              if (s.span_data.type === 'agent') {
-                                seenAgentsInHistory.add(s.span_data.name || s.span_data.type);
-                              }
-                            });
-
-                            // Show system content only for first appearance of an agent after handoff
-                            const isNewAgent = span.span_data.type === 'agent' && 
-                              !seenAgentsInHistory.has(span.span_data.name || span.span_data.type) &&
-                              spans[index - 1]?.span_data.type === 'handoff';
-
-                            return (
-                              <div key={index} className="space-y-3 border-b border-[#2A2A2A] pb-4 last:border-0">
-                                {/* Span Header */}
-                                <div className="flex items-center space-x-2">
-                                  {getSpanIcon(span)}
-                                  <span className="text-sm text-gray-200">
-                                    {span.span_data.name || span.span_data.type}
-                                  </span>
-                                </div>
-
-                                {/* System Instructions - Only show for first appearance of an agent after handoff */}
-                                {isNewAgent && span.span_data.input?.[0]?.content && (
-                                  <div className="space-y-2">
-                                    <h4 className="text-sm text-gray-400">System Instructions</h4>
-                                    <div className="text-sm text-gray-200 whitespace-pre-wrap break-words bg-[#232323] rounded-md p-3">
-                                      {span.span_data.input[0].content}
-                                    </div>
-                                  </div>
-                                )}
-
-                                {/* Input - Show for all spans except agent spans unless it's their first appearance */}
-                                {span.span_data.input && (!span.span_data.type.includes('agent') || isNewAgent) && (
-                                  <div className="space-y-2">
-                                    <h4 className="text-sm text-gray-400">Input</h4>
-                                    <pre className="text-sm text-gray-200 bg-[#232323] p-3 rounded-md font-mono whitespace-pre-wrap break-all">
-                                      {JSON.stringify(span.span_data.input, null, 2)}
-                                    </pre>
-                                  </div>
-                                )}
+                          {history.map(({ span, isFirstAppearance }) => (
+                            <div key={span.id} className="space-y-3 border-b border-[#2A2A2A] pb-4 last:border-0">
+                              {/* Span Header */}
+                              <div className="flex items-center space-x-2">
+                                {getSpanIcon(span)}
+                                <span className="text-sm text-gray-200">
+                                  {span.span_data.name || span.span_data.type}
+                                </span>
+                              </div>
 
-                                {/* Output */}
-                                {span.span_data.output && (
-                                  <div className="space-y-2">
-                                    <h4 className="text-sm text-gray-400">Output</h4>
-                                    <pre className="text-sm text-gray-200 bg-[#232323] p-3 rounded-md font-mono whitespace-pre-wrap break-all">
-                                      {JSON.stringify(span.span_data.output, null, 2)}
-                                    </pre>
+                              {/* System Instructions - only the first time each agent shows up */}
+                              {isFirstAppearance && getSpanInstructions(span) && (
+                                <div className="space-y-2">
+                                  <h4 className="text-sm text-gray-400">System Instructions</h4>
+                                  <div className="text-sm text-gray-200 whitespace-pre-wrap break-words bg-[#232323] rounded-md p-3">
+                                    {getSpanInstructions(span)}
                                   </div>
-                                )}
+                                </div>
+                              )}
+
+                              {/* Input - repeated agents have the same input, and function
+                                  arguments are part of the call below */}
+                              {span.span_data.input && span.span_data.type !== 'function' &&
+                                (span.span_data.type !== 'agent' || isFirstAppearance) && (
+                                <div className="space-y-2">
+                                  <h4 className="text-sm text-gray-400">Input</h4>
+                                  <pre className="text-sm text-gray-200 bg-[#232323] p-3 rounded-md font-mono whitespace-pre-wrap break-all">
+                                    {JSON.stringify(span.span_data.input, null, 2)}
+                                  </pre>
+                                </div>
+                              )}
+
+                              {/* Output */}
+                              {span.span_data.output && span.span_data.type !== 'function' && (
+                                <div className="space-y-2">
+                                  <h4 className="text-sm text-gray-400">Output</h4>
+                                  <pre className="text-sm text-gray-200 bg-[#232323] p-3 rounded-md font-mono whitespace-pre-wrap break-all">
+                                    {JSON.stringify(span.span_data.output, null, 2)}
+                                  </pre>
+                                </div>
+                              )}
 
-                                {/* Function Call Details */}
-                                {span.span_data.type === 'function' && (
+                              {/* Function Call and its result */}
+                              {span.span_data.type === 'function' && (
+                                <>
                                   <div className="space-y-2">
                                     <h4 className="text-sm text-gray-400">Function Call</h4>
-                                    <div className="text-sm text-gray-200 bg-[#232323] p-3 rounded-md font-mono">
-                                      {span.span_data.name}({JSON.stringify(span.span_data.input, null, 2)})
+                                    <div className="text-sm text-gray-200 bg-[#232323] p-3 rounded-md font-mono whitespace-pre-wrap break-all">
+                                      {span.span_data.name}({getPayloadText(span.span_data.input)})
                                     </div>
                                   </div>
-                                )}
-
-                                {/* Handoff Details */}
-                                {span.span_data.type === 'handoff' && (
-                                  <div className="flex items-center gap-2">
-                                    <ArrowRight className="h-4 w-4 text-orange-500" />
-                                    <span className="text-sm text-gray-200">
-                                      Handoff to {span.span_data.to_agent}
-                                    </span>
+                                  <div className="space-y-2">
+                                    <h4 className="text-sm text-gray-400">Result</h4>
+                                    <ToolResult result={span.span_data.output} error={span.error?.message} />
                                   </div>
-                                )}
-                              </div>
-                            );
-                          })}
+                                </>
+                              )}
+
+                              {/* Handoff Details */}
+                              {span.span_data.type === 'handoff' && (
+                                <div className="flex items-center gap-2">
+                                  <ArrowRight className="h-4 w-4 text-orange-500" />
+                                  <span className="text-sm text-gray-200">
+                                    Handoff to {span.span_data.to_agent}
+                                  </span>
+                                </div>
+                              )}
+                            </div>
+                          ))}
                         </div>
                       )}
                     </div>
                   )}
 
                   {/* Configuration Section */}
-                  {(selectedSpan.span_data.input?.[0]?.temperature || 
-                    selectedSpan.span_data.input?.[0]?.response_format) && (
+                  {(getSpanTemperature(selectedSpan) !== undefined || 
+                    getSpanResponseFormat(selectedSpan)) && (
                     <div className="border-t border-[#2A2A2A]">
                       <div 
                         className="flex items-center justify-between py-3 clickable"
@@ -951,19 +1546,19 @@ function TrajViewer() {
                       </div>
                       {expandedSections.configuration && (
                         <div className="space-y-3 pt-1 pl-4 border-l border-[#2A2A2A] ml-2">
-                          {selectedSpan.span_data.input?.[0]?.temperature && (
+                          {getSpanTemperature(selectedSpan) !== undefined && (
                             <div className="flex justify-between items-start gap-4">
                               <span className="text-sm text-gray-400 flex-shrink-0">Temperature</span>
                               <span className="text-sm text-gray-200 text-right">
-                                {selectedSpan.span_data.input[0].temperature}
+                                {getSpanTemperature(selectedSpan)}
                               </span>
                             </div>
                           )}
-                          {selectedSpan.span_data.input?.[0]?.response_format && (
+                          {getSpanResponseFormat(selectedSpan) && (
                             <div className="flex justify-between items-start gap-4">
                               <span className="text-sm text-gray-400 flex-shrink-0">Response</span>
                               <span className="text-sm text-gray-200 text-right">
-                                {selectedSpan.span_data.input[0].response_format}
+                                {getSpanResponseFormat(selectedSpan)}
                               </span>
                             </div>
                           )}
@@ -973,7 +1568,7 @@ function TrajViewer() {
                   )}
 
                   {/* Instructions Section */}
-                  {selectedSpan.span_data.input?.[0]?.content && (
+                  {getSpanInstructions(selectedSpan) && (
                     <div className="border-t border-[#2A2A2A]">
                       <div 
                         className="flex items-center justify-between py-3 clickable"
@@ -990,7 +1585,7 @@ function TrajViewer() {
                         <div className="space-y-3 pt-1 pl-4 border-l border-[#2A2A2A] ml-2">
                           <h4 className="text-sm text-gray-400">System Instructions</h4>
                           <div className="text-sm text-gray-200 whitespace-pre-wrap break-words bg-[#232323] rounded-md p-3">
-                            {selectedSpan.span_data.input[0].content}
+                            {getSpanInstructions(selectedSpan)}
                           </div>
                         </div>
                       )}
@@ -1043,13 +1638,7 @@ function TrajViewer() {
                             {JSON.stringify(selectedSpan.span_data.input, null, 2)}
                           </pre>
                           <h4 className="text-sm text-gray-400">Output</h4>
-                          {selectedSpan.span_data.output ? (
-                            <pre className="text-sm text-gray-200 bg-[#232323] p-3 rounded-md font-mono whitespace-pre-wrap break-all">
-                              {JSON.stringify(selectedSpan.span_data.output, null, 2)}
-                            </pre>
-                          ) : (
-                            <div className="text-sm text-gray-500">No output</div>
-                          )}
+                          <ToolResult result={selectedSpan.span_data.output} error={selectedSpan.error?.message} />
                         </div>
                       )}
                     </div>
@@ -1078,9 +1667,83 @@ function TrajViewer() {
                       )}
                     </div>
                   )}
+
+                  {/* Labels Section */}
+                  {annotationsTraceId && evaluation && (
+                    <div className="border-t border-[#2A2A2A]">
+                      <div 
+                        className="flex items-center justify-between py-3 clickable"
+                        onClick={() => toggleSection('labels')}
+                      >
+                        <h3 className="text-[13px] font-semibold text-gray-50 responsive-text responsive-text-sm">
+                          Labels{evaluation.span_labels[selectedSpan.id] ? ` (${evaluation.span_labels[selectedSpan.id].length})` : ''}
+                        </h3>
+                        <button className="text-gray-500 hover:text-gray-400 clickable">
+                          <ChevronDown 
+                            className={`h-4 w-4 transition-transform ${expandedSections.labels ? '' : '-rotate-90'}`} 
+                          />
+                        </button>
+                      </div>
+                      {expandedSections.labels && (
+                        <div className="pt-2 pl-4 border-l border-[#2A2A2A] ml-2">
+                          {evaluationError && <p className="mb-3 text-xs text-red-400">{evaluationError}</p>}
+                          <SpanLabelPicker
+                            key={selectedSpan.id}
+                            labels={evaluation.span_labels[selectedSpan.id] ?? []}
+                            onToggle={(label) => updateEvaluation(prev => toggleSpanLabel(prev, selectedSpan.id, label))}
+                          />
+                        </div>
+                      )}
+                    </div>
+                  )}
+
+                  {/* Comments Section */}
+                  {annotationsTraceId && (
+                    <div className="border-t border-[#2A2A2A]">
+                      <div 
+                        className="flex items-center justify-between py-3 clickable"
+                        onClick={() => toggleSection('comments')}
+                      >
+                        <h3 className="text-[13px] font-semibold text-gray-50 responsive-text responsive-text-sm">
+                          Comments{commentCounts.get(selectedSpan.id) ? ` (${commentCounts.get(selectedSpan.id)})` : ''}
+                        </h3>
+                        <button className="text-gray-500 hover:text-gray-400 clickable">
+                          <ChevronDown 
+                            className={`h-4 w-4 transition-transform ${expandedSections.comments ? '' : '-rotate-90'}`} 
+                          />
+                        </button>
+                      </div>
+                      {expandedSections.comments && (
+                        <div className="pt-2 pl-4 border-l border-[#2A2A2A] ml-2">
+                          {commentsError && <p className="mb-3 text-xs text-red-400">{commentsError}</p>}
+                          <CommentThreads
+                            key={selectedSpan.id}
+                            threads={getCommentThreads(comments, selectedSpan.id)}
+                            spanId={selectedSpan.id}
+                            onAdd={addComment}
+                            onResolve={setResolved}
+                          />
+                        </div>
+                      )}
+                    </div>
+                  )}
                 </div>
               ) : (
-                <p className="text-sm text-gray-500 responsive-text responsive-text-sm">Select a span to view details</p>
+                <div className="space-y-6">
+                  <p className="text-sm text-gray-500 responsive-text responsive-text-sm">Select a span to view details</p>
+                  {annotationsTraceId && (
+                    <div className="border-t border-[#2A2A2A] pt-3 space-y-3">
+                      <h3 className="text-[13px] font-semibold text-gray-50">Comments on this trace</h3>
+                      {commentsError && <p className="text-xs text-red-400">{commentsError}</p>}
+                      <CommentThreads
+                        threads={getCommentThreads(comments, null)}
+                        spanId={null}
+                        onAdd={addComment}
+                        onResolve={setResolved}
+                      />
+                    </div>
+                  )}
+                </div>
               )}
             </div>
           </div>
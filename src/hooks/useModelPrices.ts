@@ -0,0 +1,30 @@
+import { useEffect, useState } from 'react';
+import { getSession } from '../services/auth';
+import { DEFAULT_MODEL_PRICES } from '../services/usage';
+import type { ModelPrice } from '../services/usage';
+
+// Stored per signed-in user, like the span filters
+const storageKey = () => `traj-viewer.model-prices.${getSession()?.username ?? 'anonymous'}`;
+
+const loadPrices = (): ModelPrice[] => {
+  try {
+    const raw = localStorage.getItem(storageKey());
+    const parsed: unknown = raw ? JSON.parse(raw) : null;
+    return Array.isArray(parsed) ? parsed : DEFAULT_MODEL_PRICES;
+  } catch {
+    return DEFAULT_MODEL_PRICES;
+  }
+};
+
+/**
+ * The price table used for cost estimates, editable by the user.
+ */
+export const useModelPrices = () => {
+  const [prices, setPrices] = useState<ModelPrice[]>(loadPrices);
+
+  useEffect(() => {
+    localStorage.setItem(storageKey(), JSON.stringify(prices));
+  }, [prices]);
+
+  return { prices, setPrices, resetPrices: () => setPrices(DEFAULT_MODEL_PRICES) };
+};
@@ -0,0 +1,48 @@
+import { useMemo, useRef } from 'react';
+import { createSpanRedactor } from '../services/redaction';
+import type { RedactionRule } from '../services/redaction';
+import type { TraceSpan } from '../services/spans';
+import { emptyTree, mergeSpans } from '../services/traceTree';
+import type { TraceTree } from '../services/traceTree';
+
+interface RedactionState {
+  redact: (span: TraceSpan) => TraceSpan;
+  // Redacted copy per span object, so unchanged spans keep their identity
+  cache: WeakMap<TraceSpan, TraceSpan>;
+  tree: TraceTree;
+}
+
+/**
+ * The trace tree with `rules` applied to every span, or the tree itself when
+ * `enabled` is false. Like the stream, it is updated incrementally: only
+ * spans that changed are redacted again and get new nodes.
+ */
+export const useRedactedTree = (tree: TraceTree, rules: RedactionRule[], enabled: boolean): TraceTree => {
+  const redact = useMemo(() => createSpanRedactor(rules), [rules]);
+  const stateRef = useRef<RedactionState | null>(null);
+
+  return useMemo(() => {
+    if (!enabled) return tree;
+
+    let state = stateRef.current;
+    // Start over for new rules, or when spans were replaced rather than
+    // added to (another trace, an uploaded file)
+    if (!state || state.redact !== redact || [...state.tree.spans.keys()].some(id => !tree.spans.has(id))) {
+      state = { redact, cache: new WeakMap(), tree: emptyTree };
+    }
+
+    const { cache } = state;
+    const redacted = [...tree.spans.values()].map(span => {
+      let copy = cache.get(span);
+      if (!copy) {
+        copy = redact(span);
+        cache.set(span, copy);
+      }
+      return copy;
+    });
+
+    state.tree = mergeSpans(state.tree, redacted).tree;
+    stateRef.current = state;
+    return state.tree;
+  }, [tree, redact, enabled]);
+};
@@ -0,0 +1,67 @@
+import { useEffect, useState } from 'react';
+import { fetchUserSettings, updateUserSettings } from '../services/api';
+import { getSession, UnauthorizedError } from '../services/auth';
+import { DEFAULT_REDACTION_RULES } from '../services/redaction';
+import type { RedactionRule } from '../services/redaction';
+
+// The profile is the source of truth; this copy covers the first render and
+// pages without a session, like /local
+const storageKey = () => `traj-viewer.redaction-rules.${getSession()?.username ?? 'anonymous'}`;
+
+const loadCachedRules = (): RedactionRule[] => {
+  try {
+    const raw = localStorage.getItem(storageKey());
+    const parsed: unknown = raw ? JSON.parse(raw) : null;
+    return Array.isArray(parsed) ? parsed : DEFAULT_REDACTION_RULES;
+  } catch {
+    return DEFAULT_REDACTION_RULES;
+  }
+};
+
+const cacheRules = (rules: RedactionRule[]) => {
+  localStorage.setItem(storageKey(), JSON.stringify(rules));
+};
+
+/**
+ * The signed-in user's redaction rules, loaded from their profile.
+ * `saveRules` throws if the profile can't be updated.
+ */
+export const useRedactionRules = () => {
+  const [rules, setRules] = useState<RedactionRule[]>(loadCachedRules);
+  const [loading, setLoading] = useState(() => getSession() !== null);
+
+  useEffect(() => {
+    if (!getSession()) return;
+    let cancelled = false;
+
+    fetchUserSettings()
+      .then(response => {
+        if (cancelled) return;
+        const saved = response.data?.redaction_rules;
+        const next = Array.isArray(saved) ? saved : DEFAULT_REDACTION_RULES;
+        setRules(next);
+        cacheRules(next);
+      })
+      .catch(error => {
+        // RequireAuth takes care of the redirect once the session is cleared.
+        if (error instanceof UnauthorizedError) return;
+        console.error('Error loading redaction rules:', error);
+      })
+      .finally(() => {
+        if (!cancelled) setLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  const saveRules = async (next: RedactionRule[]) => {
+    const response = await updateUserSettings({ redaction_rules: next });
+    const saved = response.data?.redaction_rules ?? next;
+    setRules(saved);
+    cacheRules(saved);
+  };
+
+  return { rules, loading, saveRules };
+};
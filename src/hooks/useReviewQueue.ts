@@ -0,0 +1,57 @@
+import { useEffect, useState } from 'react';
+import { fetchTraces } from '../services/api';
+import type { TraceData } from '../services/api';
+import { UnauthorizedError } from '../services/auth';
+
+// Enough for a review session; the rest come up once these are graded
+const REVIEW_QUEUE_LIMIT = 100;
+
+/**
+ * Finished traces nobody has graded yet, oldest first. Loaded once, so the
+ * queue keeps its order while the reviewer works through it. Pass false to
+ * skip loading.
+ */
+export const useReviewQueue = (enabled: boolean) => {
+  const [traces, setTraces] = useState<TraceData[]>([]);
+  const [total, setTotal] = useState(0);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    setTraces([]);
+    setTotal(0);
+    setError(null);
+    if (!enabled) return;
+
+    let cancelled = false;
+    setLoading(true);
+    fetchTraces({
+      page: 1,
+      limit: REVIEW_QUEUE_LIMIT,
+      sortBy: 'created_at',
+      sortOrder: 'asc',
+      isComplete: true,
+      labeled: false
+    })
+      .then(response => {
+        if (cancelled) return;
+        setTraces(response.data || []);
+        setTotal(response.pagination?.total ?? response.data?.length ?? 0);
+      })
+      .catch(error => {
+        // RequireAuth takes care of the redirect once the session is cleared.
+        if (cancelled || error instanceof UnauthorizedError) return;
+        console.error('Error fetching review queue:', error);
+        setError('Failed to load the review queue. Please try again.');
+      })
+      .finally(() => {
+        if (!cancelled) setLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [enabled]);
+
+  return { traces, total, loading, error };
+};
@@ -0,0 +1,42 @@
+import { useEffect, useState } from 'react';
+import { fetchSessionTraces } from '../services/api';
+import type { TraceData } from '../services/api';
+import { UnauthorizedError } from '../services/auth';
+
+/**
+ * The traces of a session, oldest first. Pass undefined to skip loading,
+ * e.g. for a trace opened outside any session.
+ */
+export const useSessionTraces = (groupId: string | undefined) => {
+  const [traces, setTraces] = useState<TraceData[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    setTraces([]);
+    setError(null);
+    if (!groupId) return;
+
+    let cancelled = false;
+    setLoading(true);
+    fetchSessionTraces(groupId)
+      .then(sessionTraces => {
+        if (!cancelled) setTraces(sessionTraces);
+      })
+      .catch(error => {
+        // RequireAuth takes care of the redirect once the session is cleared.
+        if (cancelled || error instanceof UnauthorizedError) return;
+        console.error('Error fetching session traces:', error);
+        setError('Failed to load session. Please try again.');
+      })
+      .finally(() => {
+        if (!cancelled) setLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [groupId]);
+
+  return { traces, loading, error };
+};
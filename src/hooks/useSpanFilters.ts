@@ -0,0 +1,35 @@
+import { useCallback, useEffect, useState } from 'react';
+import { getSession } from '../services/auth';
+import { DEFAULT_SPAN_FILTERS } from '../services/spanFilters';
+import type { SpanFilterSettings } from '../services/spanFilters';
+
+// Stored per signed-in user so people sharing a browser keep their own setup
+const storageKey = () => `traj-viewer.span-filters.${getSession()?.username ?? 'anonymous'}`;
+
+const loadFilters = (): SpanFilterSettings => {
+  try {
+    const raw = localStorage.getItem(storageKey());
+    return raw ? { ...DEFAULT_SPAN_FILTERS, ...JSON.parse(raw) } : DEFAULT_SPAN_FILTERS;
+  } catch {
+    return DEFAULT_SPAN_FILTERS;
+  }
+};
+
+/**
+ * The span filters, saved per user. `linked` are filters from a shared link;
+ * they apply to this page but aren't saved until the user changes them.
+ */
+export const useSpanFilters = (linked?: SpanFilterSettings | null) => {
+  const [filters, setFilters] = useState<SpanFilterSettings>(() => linked ?? loadFilters());
+
+  useEffect(() => {
+    if (filters === linked) return;
+    localStorage.setItem(storageKey(), JSON.stringify(filters));
+  }, [filters, linked]);
+
+  const updateFilters = useCallback((patch: Partial<SpanFilterSettings>) => {
+    setFilters(prev => ({ ...prev, ...patch }));
+  }, []);
+
+  return { filters, setFilters, updateFilters };
+};
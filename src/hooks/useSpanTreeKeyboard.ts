@@ -0,0 +1,146 @@
+import { useEffect, useRef } from 'react';
+import type { SpanRowLayout } from '../services/spanLayout';
+import type { SpanNode } from '../services/traceTree';
+
+export interface KeyboardShortcut {
+  keys: string[];
+  description: string;
+}
+
+export const SPAN_TREE_SHORTCUTS: KeyboardShortcut[] = [
+  { keys: ['↑', 'k'], description: 'Previous span' },
+  { keys: ['↓', 'j'], description: 'Next span' },
+  { keys: ['←', 'h'], description: 'Collapse span, or go to parent' },
+  { keys: ['→', 'l'], description: 'Expand span, or go to first child' },
+  { keys: ['p'], description: 'Go to parent span' },
+  { keys: ['Home'], description: 'First span' },
+  { keys: ['End'], description: 'Last span' },
+  { keys: ['e'], description: 'Expand all' },
+  { keys: ['c'], description: 'Collapse all' },
+  { keys: ['Esc'], description: 'Clear selection' },
+  { keys: ['?'], description: 'Show or hide this help' }
+];
+
+interface SpanTreeKeyboardOptions {
+  rows: SpanRowLayout[];
+  selectedSpanId: string | null;
+  onSelect: (span: SpanNode) => void;
+  onClearSelection: () => void;
+  onToggle: (spanId: string) => void;
+  onExpandAll: () => void;
+  onCollapseAll: () => void;
+  // Keys handled by the caller, e.g. digit shortcuts for detail sections
+  onShortcut?: (key: string) => boolean;
+  onToggleHelp: () => void;
+  enabled?: boolean;
+}
+
+const isEditableTarget = (target: EventTarget | null) =>
+  target instanceof HTMLElement &&
+  (target.isContentEditable || ['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName));
+
+/**
+ * Document-level keyboard navigation for the span tree. Moves the selection
+ * through the currently visible rows and expands/collapses through the same
+ * toggle used by the chevrons. Ignored while typing in form fields.
+ */
+export const useSpanTreeKeyboard = (options: SpanTreeKeyboardOptions) => {
+  // Read through a ref so the listener is registered once but always sees
+  // the latest rows and selection.
+  const optionsRef = useRef(options);
+  optionsRef.current = options;
+
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      const {
+        rows, selectedSpanId, onSelect, onClearSelection, onToggle,
+        onExpandAll, onCollapseAll, onShortcut, onToggleHelp, enabled = true
+      } = optionsRef.current;
+
+      if (!enabled || event.defaultPrevented || event.ctrlKey || event.metaKey || event.altKey) return;
+      if (isEditableTarget(event.target)) return;
+
+      const currentIndex = selectedSpanId ? rows.findIndex(row => row.span.id === selectedSpanId) : -1;
+      const current = currentIndex >= 0 ? rows[currentIndex] : null;
+
+      const selectIndex = (index: number) => {
+        const row = rows[Math.min(Math.max(index, 0), rows.length - 1)];
+        if (row) onSelect(row.span);
+      };
+
+      // The parent is the closest row above with a smaller depth. This also
+      // works when filters have moved the span under a different ancestor.
+      const selectParent = () => {
+        if (!current) return;
+        for (let index = currentIndex - 1; index >= 0; index--) {
+          if (rows[index].depth < current.depth) {
+            onSelect(rows[index].span);
+            return;
+          }
+        }
+      };
+
+      let handled = true;
+      switch (event.key) {
+        case 'ArrowDown':
+        case 'j':
+          selectIndex(current ? currentIndex + 1 : 0);
+          break;
+        case 'ArrowUp':
+        case 'k':
+          selectIndex(current ? currentIndex - 1 : rows.length - 1);
+          break;
+        case 'ArrowRight':
+        case 'l':
+          if (current && current.span.children.length > 0) {
+            if (current.isExpanded) {
+              selectIndex(currentIndex + 1);
+            } else {
+              onToggle(current.span.id);
+            }
+          }
+          break;
+        case 'ArrowLeft':
+        case 'h':
+          if (current) {
+            if (current.isExpanded && current.span.children.length > 0) {
+              onToggle(current.span.id);
+            } else {
+              selectParent();
+            }
+          }
+          break;
+        case 'p':
+          selectParent();
+          break;
+        case 'Home':
+          selectIndex(0);
+          break;
+        case 'End':
+          selectIndex(rows.length - 1);
+          break;
+        case 'e':
+          onExpandAll();
+          break;
+        case 'c':
+          onCollapseAll();
+          break;
+        case 'Escape':
+          onClearSelection();
+          break;
+        case '?':
+          onToggleHelp();
+          break;
+        default:
+          handled = onShortcut?.(event.key) ?? false;
+      }
+
+      if (handled) {
+        event.preventDefault();
+      }
+    };
+
+    document.addEventListener('keydown', handleKeyDown);
+    return () => document.removeEventListener('keydown', handleKeyDown);
+  }, []);
+};
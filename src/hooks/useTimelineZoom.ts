@@ -0,0 +1,128 @@
+import { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import type { RefObject } from 'react';
+import { clampTimelineView, getSpanDuration, getSpanStart, panTimelineView, zoomTimelineView } from '../services/spanLayout';
+import type { TimelineBounds } from '../services/spanLayout';
+import type { TraceSpan } from '../services/spans';
+
+// Elements marked with this attribute are waterfall tracks: their width maps
+// onto the visible time window. The ruler's value is "ruler".
+export const WATERFALL_TRACK_ATTRIBUTE = 'data-waterfall-track';
+
+const WHEEL_ZOOM_SPEED = 0.002;
+// Mouse movement below this many pixels still counts as a click
+const DRAG_THRESHOLD_PX = 3;
+// Padding on each side when zooming to a span, as a fraction of its duration
+const ZOOM_TO_SPAN_PADDING = 0.1;
+
+const findTrack = (target: EventTarget | null) =>
+  target instanceof Element ? target.closest<HTMLElement>(`[${WATERFALL_TRACK_ATTRIBUTE}]`) : null;
+
+/**
+ * Visible time window of the waterfall. Zooming and panning are handled on
+ * tracks inside `containerRef`: ctrl/⌘ + wheel (or plain wheel over the ruler)
+ * zooms around the cursor, shift + wheel or a horizontal scroll pans, and
+ * dragging a track pans. Plain vertical scrolling is left to the list.
+ *
+ * While not zoomed the window follows the trace bounds, so a live trace keeps
+ * fitting as spans arrive.
+ */
+export const useTimelineZoom = (bounds: TimelineBounds, containerRef: RefObject<HTMLElement>, enabled = true) => {
+  const [zoomedView, setZoomedView] = useState<TimelineBounds | null>(null);
+  const view = useMemo(
+    () => (zoomedView ? clampTimelineView(zoomedView, bounds) : bounds),
+    [zoomedView, bounds]
+  );
+
+  // Native listeners read the latest window through refs
+  const viewRef = useRef(view);
+  viewRef.current = view;
+  const boundsRef = useRef(bounds);
+  boundsRef.current = bounds;
+
+  const zoomBy = useCallback((factor: number, anchor = 0.5) => {
+    setZoomedView(zoomTimelineView(viewRef.current, boundsRef.current, factor, anchor));
+  }, []);
+
+  const zoomToSpan = useCallback((span: TraceSpan) => {
+    const padding = Math.max(getSpanDuration(span), 1) * ZOOM_TO_SPAN_PADDING;
+    setZoomedView(clampTimelineView({
+      start: getSpanStart(span) - padding,
+      duration: getSpanDuration(span) + padding * 2
+    }, boundsRef.current));
+  }, []);
+
+  const resetZoom = useCallback(() => setZoomedView(null), []);
+
+  useEffect(() => {
+    const container = containerRef.current;
+    if (!container || !enabled) return;
+
+    // Registered natively because React's wheel listeners are passive, and
+    // ctrl + wheel would otherwise zoom the whole page.
+    const handleWheel = (event: WheelEvent) => {
+      const track = findTrack(event.target);
+      if (!track || boundsRef.current.duration <= 0) return;
+
+      const rect = track.getBoundingClientRect();
+      const isRuler = track.getAttribute(WATERFALL_TRACK_ATTRIBUTE) === 'ruler';
+      const isHorizontal = Math.abs(event.deltaX) > Math.abs(event.deltaY);
+
+      if (event.ctrlKey || event.metaKey || (isRuler && !isHorizontal && !event.shiftKey)) {
+        const anchor = (event.clientX - rect.left) / rect.width;
+        zoomBy(Math.exp(event.deltaY * WHEEL_ZOOM_SPEED), Math.min(Math.max(anchor, 0), 1));
+      } else if (event.shiftKey || isHorizontal) {
+        const delta = isHorizontal ? event.deltaX : event.deltaY;
+        setZoomedView(panTimelineView(viewRef.current, boundsRef.current, (delta / rect.width) * viewRef.current.duration));
+      } else {
+        return;
+      }
+      event.preventDefault();
+    };
+
+    const handleMouseDown = (event: MouseEvent) => {
+      const track = findTrack(event.target);
+      if (!track || event.button !== 0 || boundsRef.current.duration <= 0) return;
+
+      const width = track.getBoundingClientRect().width;
+      const startX = event.clientX;
+      const startView = viewRef.current;
+      let dragged = false;
+
+      const handleMouseMove = (moveEvent: MouseEvent) => {
+        const deltaX = moveEvent.clientX - startX;
+        if (!dragged && Math.abs(deltaX) < DRAG_THRESHOLD_PX) return;
+        dragged = true;
+        setZoomedView(panTimelineView(startView, boundsRef.current, (-deltaX / width) * startView.duration));
+      };
+
+      const handleMouseUp = () => {
+        document.removeEventListener('mousemove', handleMouseMove);
+        document.removeEventListener('mouseup', handleMouseUp);
+        if (!dragged) return;
+
+        // Swallow the click that ends the drag so it doesn't select a span
+        const suppressClick = (clickEvent: MouseEvent) => clickEvent.stopPropagation();
+        window.addEventListener('click', suppressClick, { capture: true, once: true });
+        setTimeout(() => window.removeEventListener('click', suppressClick, { capture: true }), 0);
+      };
+
+      document.addEventListener('mousemove', handleMouseMove);
+      document.addEventListener('mouseup', handleMouseUp);
+    };
+
+    container.addEventListener('wheel', handleWheel, { passive: false });
+    container.addEventListener('mousedown', handleMouseDown);
+    return () => {
+      container.removeEventListener('wheel', handleWheel);
+      container.removeEventListener('mousedown', handleMouseDown);
+    };
+  }, [containerRef, enabled, zoomBy]);
+
+  return {
+    view,
+    isZoomed: zoomedView !== null,
+    zoomBy,
+    zoomToSpan,
+    resetZoom
+  };
+};
@@ -0,0 +1,50 @@
+import { useCallback, useEffect, useState } from 'react';
+import { createComment, fetchComments, resolveComment } from '../services/api';
+import type { NewTraceComment, TraceComment } from '../services/api';
+import { UnauthorizedError } from '../services/auth';
+
+/**
+ * The comments on a trace and its spans. Pass undefined to skip loading,
+ * e.g. for uploaded files, which have nowhere to keep comments.
+ * `addComment` and `setResolved` throw if the change can't be saved.
+ */
+export const useTraceComments = (traceId: string | undefined) => {
+  const [comments, setComments] = useState<TraceComment[]>([]);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    setComments([]);
+    setError(null);
+    if (!traceId) return;
+
+    let cancelled = false;
+    fetchComments(traceId)
+      .then(response => {
+        if (!cancelled) setComments(response.data || []);
+      })
+      .catch(error => {
+        // RequireAuth takes care of the redirect once the session is cleared.
+        if (cancelled || error instanceof UnauthorizedError) return;
+        console.error('Error fetching comments:', error);
+        setError('Failed to load comments.');
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [traceId]);
+
+  const addComment = useCallback(async (comment: NewTraceComment) => {
+    if (!traceId) return;
+    const response = await createComment(traceId, comment);
+    setComments(prev => [...prev, response.data]);
+  }, [traceId]);
+
+  const setResolved = useCallback(async (commentId: string, resolved: boolean) => {
+    if (!traceId) return;
+    const response = await resolveComment(traceId, commentId, resolved);
+    setComments(prev => prev.map(comment => (comment.id === commentId ? response.data : comment)));
+  }, [traceId]);
+
+  return { comments, error, addComment, setResolved };
+};
@@ -0,0 +1,81 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { fetchEvaluation, saveEvaluation } from '../services/api';
+import type { TraceEvaluation } from '../services/api';
+import { UnauthorizedError } from '../services/auth';
+import { emptyEvaluation } from '../services/evaluation';
+
+/**
+ * The signed-in reviewer's grading of a trace. Pass undefined to skip
+ * loading, e.g. for uploaded files. Every change is shown right away and
+ * saved in the background; if saving fails the last saved grading comes back
+ * and `error` says so.
+ */
+export const useTraceEvaluation = (traceId: string | undefined) => {
+  const [evaluation, setEvaluation] = useState<TraceEvaluation | null>(null);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  // The latest local version, so quick successive changes build on each other
+  const latestRef = useRef<TraceEvaluation | null>(null);
+  // What the server last confirmed, to fall back to when a save fails
+  const savedRef = useRef<TraceEvaluation | null>(null);
+  const pendingSavesRef = useRef(0);
+
+  useEffect(() => {
+    latestRef.current = null;
+    savedRef.current = null;
+    setEvaluation(null);
+    setError(null);
+    if (!traceId) return;
+
+    let cancelled = false;
+    fetchEvaluation(traceId)
+      .then(response => {
+        if (cancelled) return;
+        const loaded = response.data ?? emptyEvaluation(traceId);
+        latestRef.current = loaded;
+        savedRef.current = loaded;
+        setEvaluation(loaded);
+      })
+      .catch(error => {
+        // RequireAuth takes care of the redirect once the session is cleared.
+        if (cancelled || error instanceof UnauthorizedError) return;
+        console.error('Error fetching evaluation:', error);
+        setError('Failed to load the evaluation.');
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [traceId]);
+
+  const updateEvaluation = useCallback(async (change: (prev: TraceEvaluation) => TraceEvaluation) => {
+    const current = latestRef.current;
+    if (!current) return;
+    const next = change(current);
+    latestRef.current = next;
+    setEvaluation(next);
+    setError(null);
+
+    pendingSavesRef.current += 1;
+    setSaving(true);
+    try {
+      const response = await saveEvaluation(next);
+      // Ignore answers for a trace the user has moved on from
+      if (latestRef.current?.trace_id !== next.trace_id) return;
+      savedRef.current = response.data;
+    } catch (error) {
+      // RequireAuth takes care of the redirect once the session is cleared.
+      if (error instanceof UnauthorizedError) return;
+      if (latestRef.current?.trace_id !== next.trace_id) return;
+      console.error('Error saving evaluation:', error);
+      latestRef.current = savedRef.current;
+      setEvaluation(savedRef.current);
+      setError('Failed to save the evaluation. Please try again.');
+    } finally {
+      pendingSavesRef.current -= 1;
+      if (pendingSavesRef.current === 0) setSaving(false);
+    }
+  }, []);
+
+  return { evaluation, saving, error, updateEvaluation };
+};
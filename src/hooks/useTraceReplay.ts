@@ -0,0 +1,124 @@
+import { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import { emptyTree, mergeSpans } from '../services/traceTree';
+import type { TraceTree } from '../services/traceTree';
+import {
+  buildReplayTimeline,
+  getActiveReplaySpanId,
+  getAdjacentEventTime,
+  getReplayChanges,
+  getReplaySpans
+} from '../services/replay';
+
+const REPLAY_TICK_MS = 100;
+
+interface UseTraceReplayOptions {
+  // Called with the ids of spans that weren't in the tree before a step,
+  // the same as for live updates
+  onSpansAdded?: (spanIds: string[]) => void;
+}
+
+/**
+ * Plays a finished trace back in time order. While active, `tree` holds the
+ * spans as they stood at `time`. Moving forward merges only the spans that
+ * changed, the way live updates are merged, so untouched nodes keep their
+ * identity; moving back rebuilds the tree up to the new time.
+ */
+export const useTraceReplay = (source: TraceTree, options: UseTraceReplayOptions = {}) => {
+  const [active, setActive] = useState(false);
+  const [playing, setPlaying] = useState(false);
+  const [speed, setSpeed] = useState(1);
+  const [time, setTime] = useState(0);
+  const [tree, setTree] = useState<TraceTree>(emptyTree);
+  const treeRef = useRef<TraceTree>(emptyTree);
+  const timeRef = useRef(0);
+  const onSpansAddedRef = useRef(options.onSpansAdded);
+  onSpansAddedRef.current = options.onSpansAdded;
+
+  const timeline = useMemo(
+    () => (active ? buildReplayTimeline([...source.spans.values()]) : null),
+    [active, source]
+  );
+
+  useEffect(() => {
+    if (!timeline) return;
+
+    const previous = timeRef.current;
+    timeRef.current = time;
+    const { tree: next, added } = time >= previous && treeRef.current !== emptyTree
+      ? mergeSpans(treeRef.current, getReplayChanges(timeline, previous, time))
+      : mergeSpans(emptyTree, getReplaySpans(timeline, time));
+    if (next === treeRef.current) return;
+
+    treeRef.current = next;
+    setTree(next);
+    if (added.length > 0) {
+      onSpansAddedRef.current?.(added);
+    }
+  }, [timeline, time]);
+
+  useEffect(() => {
+    if (!playing || !timeline) return;
+    if (time >= timeline.duration) {
+      setPlaying(false);
+      return;
+    }
+
+    const timeout = setTimeout(() => {
+      setTime(prev => Math.min(prev + REPLAY_TICK_MS * speed, timeline.duration));
+    }, REPLAY_TICK_MS);
+    return () => clearTimeout(timeout);
+  }, [playing, timeline, time, speed]);
+
+  const start = useCallback(() => {
+    treeRef.current = emptyTree;
+    timeRef.current = 0;
+    setTree(emptyTree);
+    setTime(0);
+    setActive(true);
+    setPlaying(true);
+  }, []);
+
+  const stop = useCallback(() => {
+    setActive(false);
+    setPlaying(false);
+  }, []);
+
+  const seek = useCallback((next: number) => {
+    if (!timeline) return;
+    setTime(Math.min(Math.max(next, 0), timeline.duration));
+  }, [timeline]);
+
+  const play = useCallback(() => {
+    // From the end, playing starts over
+    if (timeline && time >= timeline.duration) setTime(0);
+    setPlaying(true);
+  }, [timeline, time]);
+
+  const step = useCallback((direction: 1 | -1) => {
+    if (!timeline) return;
+    setPlaying(false);
+    setTime(getAdjacentEventTime(timeline, time, direction));
+  }, [timeline, time]);
+
+  const activeSpanId = useMemo(
+    () => (timeline ? getActiveReplaySpanId(timeline, time) : null),
+    [timeline, time]
+  );
+
+  return {
+    active,
+    tree,
+    time,
+    duration: timeline?.duration ?? 0,
+    playing,
+    speed,
+    activeSpanId,
+    start,
+    stop,
+    play,
+    pause: useCallback(() => setPlaying(false), []),
+    seek,
+    step,
+    setSpeed
+  };
+};
@@ -0,0 +1,172 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { fetchOtlpTrace, fetchTraceById, subscribeToTraceUpdates } from '../services/api';
+import type { TraceData, TraceSource } from '../services/api';
+import { UnauthorizedError } from '../services/auth';
+import { buildTree, emptyTree, mergeSpans } from '../services/traceTree';
+import type { TraceTree } from '../services/traceTree';
+import type { SpanIssue, TraceSpan } from '../services/spans';
+
+// 'local' means the spans came from a file and the server copy is no longer followed
+export type TraceConnectionStatus = 'connecting' | 'live' | 'polling' | 'paused' | 'completed' | 'error' | 'local';
+
+interface UseTraceStreamOptions {
+  // Called with the ids of spans that weren't in the tree before an update
+  onSpansAdded?: (spanIds: string[]) => void;
+  source?: TraceSource;
+}
+
+/**
+ * Loads a trace and, while it is still running, keeps it up to date through
+ * subscribeToTraceUpdates. Incoming spans are merged into the existing tree
+ * rather than rebuilding it, so unchanged nodes keep their identity.
+ */
+export const useTraceStream = (traceId: string | undefined, options: UseTraceStreamOptions = {}) => {
+  const source = options.source ?? 'api';
+  const [tree, setTree] = useState<TraceTree>(emptyTree);
+  const [status, setStatus] = useState<TraceConnectionStatus>('connecting');
+  const [paused, setPaused] = useState(false);
+  const [detached, setDetached] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [issues, setIssues] = useState<SpanIssue[]>([]);
+  // The trace's own fields (workflow name, timestamps, ...), without spans
+  const [trace, setTrace] = useState<TraceData | null>(null);
+  const treeRef = useRef<TraceTree>(emptyTree);
+  const completedRef = useRef(false);
+  const onSpansAddedRef = useRef(options.onSpansAdded);
+  onSpansAddedRef.current = options.onSpansAdded;
+
+  const applySpans = useCallback((spans: TraceSpan[], spanIssues: SpanIssue[]) => {
+    // Issues for a span are replaced whenever a new version of it arrives;
+    // issues for spans that couldn't be parsed at all are kept once.
+    setIssues(prev => {
+      const updatedIds = new Set(spans.map(span => span.id));
+      const seen = new Set(prev.map(issue => `${issue.spanId}:${issue.index}:${issue.path}:${issue.message}`));
+      const next = prev.filter(issue => issue.spanId === null || !updatedIds.has(issue.spanId));
+      spanIssues.forEach(issue => {
+        if (issue.spanId !== null || !seen.has(`${issue.spanId}:${issue.index}:${issue.path}:${issue.message}`)) {
+          next.push(issue);
+        }
+      });
+      return next.length === 0 && prev.length === 0 ? prev : next;
+    });
+
+    const { tree: next, added } = mergeSpans(treeRef.current, spans);
+    if (next === treeRef.current) return;
+
+    treeRef.current = next;
+    setTree(next);
+    if (added.length > 0) {
+      onSpansAddedRef.current?.(added);
+    }
+  }, []);
+
+  // Swaps in a whole new set of spans from an uploaded file. Updates for the
+  // trace in the URL stop, or they would overwrite the file's spans.
+  const replaceSpans = useCallback((spans: TraceSpan[], spanIssues: SpanIssue[] = []) => {
+    const next = buildTree(spans);
+    treeRef.current = next;
+    setTree(next);
+    setIssues(spanIssues);
+    setTrace(null);
+    setError(null);
+    setDetached(true);
+    setStatus('local');
+    onSpansAddedRef.current?.(spans.map(span => span.id));
+  }, []);
+
+  // Drops uploaded spans and loads the trace from the server again
+  const reload = useCallback(() => {
+    treeRef.current = emptyTree;
+    completedRef.current = false;
+    setTree(emptyTree);
+    setIssues([]);
+    setDetached(false);
+  }, []);
+
+  useEffect(() => {
+    treeRef.current = emptyTree;
+    completedRef.current = false;
+    setTree(emptyTree);
+    setIssues([]);
+    setTrace(null);
+    setPaused(false);
+    setDetached(false);
+    setError(null);
+  }, [traceId]);
+
+  useEffect(() => {
+    if (!traceId || detached || completedRef.current) return;
+    if (paused) {
+      setStatus('paused');
+      return;
+    }
+
+    let cancelled = false;
+    let unsubscribe: (() => void) | undefined;
+
+    const handleError = (error: unknown) => {
+      // RequireAuth redirects to the login page once the session is cleared
+      if (error instanceof UnauthorizedError) return;
+      console.error('Error loading trace data:', error);
+      setError('Failed to load trace. Please try again.');
+    };
+
+    const markComplete = () => {
+      completedRef.current = true;
+      setStatus('completed');
+    };
+
+    setStatus('connecting');
+    const fetchTrace = source === 'otlp' ? fetchOtlpTrace : fetchTraceById;
+    fetchTrace(traceId)
+      .then(response => {
+        if (cancelled) return;
+
+        if (!response.success || !response.data) {
+          console.error('Error loading trace data: Invalid response format');
+          setError('Invalid trace data format received');
+          setStatus('error');
+          return;
+        }
+
+        applySpans(response.data.spans || [], response.issues);
+        setTrace({ ...response.data, spans: undefined });
+        setError(null);
+
+        if (response.data.isComplete) {
+          markComplete();
+          return;
+        }
+
+        unsubscribe = subscribeToTraceUpdates(traceId, response.data.updated_at, {
+          onTransport: transport => setStatus(transport === 'stream' ? 'live' : 'polling'),
+          onSpans: applySpans,
+          onComplete: markComplete,
+          onError: handleError
+        });
+      })
+      .catch(error => {
+        if (cancelled) return;
+        handleError(error);
+        setStatus('error');
+      });
+
+    return () => {
+      cancelled = true;
+      unsubscribe?.();
+    };
+  }, [traceId, source, paused, detached, applySpans]);
+
+  return {
+    tree,
+    trace,
+    status,
+    error,
+    issues,
+    paused,
+    pause: useCallback(() => setPaused(true), []),
+    resume: useCallback(() => setPaused(false), []),
+    replaceSpans,
+    reload
+  };
+};
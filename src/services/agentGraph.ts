@@ -0,0 +1,220 @@
+import type { SpanNode } from './traceTree';
+
+// Who handed off to whom in a multi-agent run. Agents are nodes, handoff
+// spans are directed edges between them, and the tools each agent called hang
+// off it. The `tools` and `handoffs` declared on agent spans add the paths
+// that were available but never taken.
+
+export type AgentGraphNodeKind = 'agent' | 'tool';
+
+export interface AgentGraphNode {
+    id: string;
+    kind: AgentGraphNodeKind;
+    name: string;
+    // The agent a tool belongs to; null for tools called outside any agent
+    agent: string | null;
+    // Agent or function spans for this node, in tree order
+    spanIds: string[];
+    errorCount: number;
+    // Only known from a declaration, never ran
+    declaredOnly: boolean;
+}
+
+export interface AgentGraphEdge {
+    id: string;
+    kind: 'handoff' | 'tool';
+    from: string;
+    to: string;
+    // Handoff or function spans behind the edge. For unused edges, the agent
+    // spans that declared them instead.
+    spanIds: string[];
+    count: number;
+    used: boolean;
+}
+
+export interface AgentGraph {
+    nodes: AgentGraphNode[];
+    edges: AgentGraphEdge[];
+}
+
+const agentNodeId = (name: string) => `agent:${name}`;
+const toolNodeId = (agent: string | null, name: string) => `tool:${agent ?? ''}:${name}`;
+
+/**
+ * Builds the graph from the span tree. Nodes are ordered by first
+ * appearance; declared-only nodes and edges come after the used ones.
+ */
+export const buildAgentGraph = (roots: SpanNode[]): AgentGraph => {
+    const nodes = new Map<string, AgentGraphNode>();
+    const edges = new Map<string, AgentGraphEdge>();
+    // Declarations per agent, with the spans that made them
+    const declarations: { agent: string; kind: 'tool' | 'handoff'; target: string; spanId: string }[] = [];
+
+    const getNode = (id: string, kind: AgentGraphNodeKind, name: string, agent: string | null) => {
+        let node = nodes.get(id);
+        if (!node) {
+            node = { id, kind, name, agent, spanIds: [], errorCount: 0, declaredOnly: true };
+            nodes.set(id, node);
+        }
+        return node;
+    };
+
+    const addToNode = (node: AgentGraphNode, span: SpanNode) => {
+        node.spanIds.push(span.id);
+        node.declaredOnly = false;
+        if (span.error) node.errorCount++;
+    };
+
+    const addEdge = (kind: AgentGraphEdge['kind'], from: string, to: string, spanId: string) => {
+        const id = `${kind}:${from}->${to}`;
+        const edge = edges.get(id) ?? { id, kind, from, to, spanIds: [], count: 0, used: true };
+        edge.spanIds.push(spanId);
+        edge.count++;
+        edges.set(id, edge);
+    };
+
+    const visit = (span: SpanNode, agent: string | null) => {
+        const data = span.span_data;
+        let currentAgent = agent;
+
+        if (data.type === 'agent') {
+            currentAgent = data.name || 'Agent';
+            addToNode(getNode(agentNodeId(currentAgent), 'agent', currentAgent, null), span);
+            data.tools?.forEach(target => declarations.push({ agent: currentAgent!, kind: 'tool', target, spanId: span.id }));
+            data.handoffs?.forEach(target => declarations.push({ agent: currentAgent!, kind: 'handoff', target, spanId: span.id }));
+        } else if (data.type === 'function') {
+            const name = data.name || 'function';
+            const tool = getNode(toolNodeId(agent, name), 'tool', name, agent);
+            addToNode(tool, span);
+            if (agent) addEdge('tool', agentNodeId(agent), tool.id, span.id);
+        } else if (data.type === 'handoff') {
+            const from = data.from_agent || agent;
+            const to = data.to_agent;
+            if (from && to) {
+                getNode(agentNodeId(from), 'agent', from, null);
+                getNode(agentNodeId(to), 'agent', to, null);
+                addEdge('handoff', agentNodeId(from), agentNodeId(to), span.id);
+            }
+        }
+
+        span.children.forEach(child => visit(child, currentAgent));
+    };
+    roots.forEach(root => visit(root, null));
+
+    // A handoff target that never ran is still part of the run's path
+    edges.forEach(edge => {
+        if (edge.kind === 'handoff') nodes.get(edge.to)!.declaredOnly = false;
+    });
+
+    declarations.forEach(({ agent, kind, target, spanId }) => {
+        const from = agentNodeId(agent);
+        const to = kind === 'tool'
+            ? getNode(toolNodeId(agent, target), 'tool', target, agent).id
+            : getNode(agentNodeId(target), 'agent', target, null).id;
+        const id = `${kind}:${from}->${to}`;
+        const edge = edges.get(id);
+        if (!edge) {
+            edges.set(id, { id, kind, from, to, spanIds: [spanId], count: 0, used: false });
+        } else if (!edge.used && !edge.spanIds.includes(spanId)) {
+            edge.spanIds.push(spanId);
+        }
+    });
+
+    const byUse = <T extends { declaredOnly?: boolean; used?: boolean }>(items: T[]) => [
+        ...items.filter(item => !item.declaredOnly && item.used !== false),
+        ...items.filter(item => item.declaredOnly || item.used === false)
+    ];
+
+    return {
+        nodes: byUse([...nodes.values()]),
+        edges: byUse([...edges.values()])
+    };
+};
+
+export interface NodePosition {
+    x: number;
+    y: number;
+    width: number;
+    height: number;
+}
+
+export interface AgentGraphLayout {
+    width: number;
+    height: number;
+    positions: Map<string, NodePosition>;
+    // Horizontal reach of each handoff arc to the left of the agent column
+    arcDepths: Map<string, number>;
+}
+
+export const AGENT_GRAPH_SIZES = {
+    arcArea: 180,
+    agentWidth: 170,
+    agentHeight: 40,
+    toolGap: 56,
+    toolWidth: 150,
+    toolHeight: 26,
+    toolSpacing: 34,
+    rowGap: 28,
+    padding: 16
+};
+
+/**
+ * Places agents in one column in order of appearance with their tools in a
+ * column to the right. Handoffs are drawn as arcs on the left; longer jumps
+ * reach further out so arcs between the same rows stay apart.
+ */
+export const layoutAgentGraph = (graph: AgentGraph): AgentGraphLayout => {
+    const sizes = AGENT_GRAPH_SIZES;
+    const positions = new Map<string, NodePosition>();
+    const agentX = sizes.padding + sizes.arcArea;
+    const toolX = agentX + sizes.agentWidth + sizes.toolGap;
+    const agents = graph.nodes.filter(node => node.kind === 'agent');
+    const rowOf = new Map<string, number>();
+
+    let top = sizes.padding;
+    const placeTools = (tools: AgentGraphNode[], rowTop: number) => {
+        tools.forEach((tool, index) => positions.set(tool.id, {
+            x: toolX,
+            y: rowTop + index * sizes.toolSpacing,
+            width: sizes.toolWidth,
+            height: sizes.toolHeight
+        }));
+    };
+
+    agents.forEach((agent, index) => {
+        const tools = graph.nodes.filter(node => node.kind === 'tool' && node.agent === agent.name);
+        const toolsHeight = tools.length > 0 ? (tools.length - 1) * sizes.toolSpacing + sizes.toolHeight : 0;
+        const rowHeight = Math.max(sizes.agentHeight, toolsHeight);
+        positions.set(agent.id, {
+            x: agentX,
+            y: top + (rowHeight - sizes.agentHeight) / 2,
+            width: sizes.agentWidth,
+            height: sizes.agentHeight
+        });
+        placeTools(tools, top + (rowHeight - toolsHeight) / 2);
+        rowOf.set(agent.id, index);
+        top += rowHeight + sizes.rowGap;
+    });
+
+    // Tools called outside any agent go last, beside an empty agent column
+    const loose = graph.nodes.filter(node => node.kind === 'tool' && node.agent === null);
+    if (loose.length > 0) {
+        placeTools(loose, top);
+        top += loose.length * sizes.toolSpacing + sizes.rowGap;
+    }
+
+    const arcDepths = new Map<string, number>();
+    graph.edges.forEach(edge => {
+        if (edge.kind !== 'handoff') return;
+        const distance = Math.abs((rowOf.get(edge.to) ?? 0) - (rowOf.get(edge.from) ?? 0));
+        const upward = (rowOf.get(edge.to) ?? 0) < (rowOf.get(edge.from) ?? 0);
+        arcDepths.set(edge.id, Math.min(sizes.arcArea, 36 + distance * 36 + (upward ? 18 : 0)));
+    });
+
+    return {
+        width: toolX + sizes.toolWidth + sizes.padding,
+        height: Math.max(top - sizes.rowGap + sizes.padding, sizes.padding * 2),
+        positions,
+        arcDepths
+    };
+};
@@ -1,4 +1,8 @@
-import { getAuthHeaders } from './auth';
+import { clearSession, getAuthHeaders, refreshSession, UnauthorizedError, USE_MOCK_API } from './auth';
+import { parseOtlpTrace } from './otlp';
+import type { RedactionRule } from './redaction';
+import { parseSpans } from './spans';
+import type { SpanIssue, TokenUsage, TraceSpan } from './spans';
 
 const API_BASE_URL = import.meta.env.VITE_API_BASE_URL;
 
@@ -7,9 +11,16 @@ export interface TraceData {
     trace_id: string;
     workflow_name: string;
     group_id: string | null;
-    metadata: any;
-    spans?: any[];
+    metadata: Record<string, unknown> | null;
+    spans?: TraceSpan[];
     isComplete: boolean;
+    // Number of spans with an error; only included in list responses
+    error_count?: number;
+    // Token totals; only included in list responses
+    usage?: TraceUsage;
+    // Comments on the trace and its spans, replies included; only included
+    // in list responses
+    comment_count?: number;
     created_at: string;
     updated_at: string;
 }
@@ -25,15 +36,77 @@ export interface ApiResponse<T> {
     };
 }
 
-export const fetchTraces = async (page: number, limit: number): Promise<ApiResponse<TraceData[]>> => {
-    const response = await fetch(
-        `${API_BASE_URL}/traces?page=${page}&limit=${limit}`,
-        {
-            headers: {
-                ...getAuthHeaders()
-            }
-        }
-    );
+/**
+ * fetch() with the current session's bearer token. A 401 gets one refresh and
+ * retry; if that still fails the session is dropped and UnauthorizedError is
+ * thrown so the caller can send the user back to the login page.
+ */
+const authorizedFetch = async (url: string, init: RequestInit = {}): Promise<Response> => {
+    const send = async () => {
+        // Headers accepts every form callers may pass (object, tuples or a
+        // Headers instance), which spreading would silently drop
+        const headers = new Headers(init.headers);
+        Object.entries(await getAuthHeaders()).forEach(([name, value]) => headers.set(name, value));
+        return fetch(url, { ...init, headers });
+    };
+
+    let response = await send();
+    if (response.status === 401) {
+        await refreshSession();
+        response = await send();
+    }
+    if (response.status === 401) {
+        clearSession();
+        throw new UnauthorizedError();
+    }
+
+    return response;
+};
+
+export interface TraceUsage extends TokenUsage {
+    // Per model, so the client can price it with the user's price table
+    by_model?: Record<string, TokenUsage>;
+}
+
+// No cost sort: traces are priced with the user's own price table, which the
+// server doesn't know, so the list sorts a loaded page by cost itself
+export type TraceSortField = 'workflow_name' | 'trace_id' | 'created_at' | 'updated_at' | 'total_tokens';
+
+export interface TraceQuery {
+    page: number;
+    limit: number;
+    search?: string;
+    sortBy?: TraceSortField;
+    sortOrder?: 'asc' | 'desc';
+    groupId?: string;
+    isComplete?: boolean;
+    // ISO dates (YYYY-MM-DD or full timestamps), both inclusive
+    createdFrom?: string;
+    createdTo?: string;
+    // Only traces with (true) or without (false) a saved evaluation
+    labeled?: boolean;
+}
+
+const buildTraceQueryString = (query: TraceQuery): string => {
+    const params = new URLSearchParams({
+        page: String(query.page),
+        limit: String(query.limit)
+    });
+
+    if (query.search) params.set('search', query.search);
+    if (query.sortBy) params.set('sort_by', query.sortBy);
+    if (query.sortOrder) params.set('sort_order', query.sortOrder);
+    if (query.groupId) params.set('group_id', query.groupId);
+    if (query.isComplete !== undefined) params.set('is_complete', String(query.isComplete));
+    if (query.createdFrom) params.set('created_from', query.createdFrom);
+    if (query.createdTo) params.set('created_to', query.createdTo);
+    if (query.labeled !== undefined) params.set('labeled', String(query.labeled));
+
+    return params.toString();
+};
+
+export const fetchTraces = async (query: TraceQuery): Promise<ApiResponse<TraceData[]>> => {
+    const response = await authorizedFetch(`${API_BASE_URL}/traces?${buildTraceQueryString(query)}`);
     
     if (!response.ok) {
         throw new Error('Failed to fetch traces');
@@ -42,19 +115,534 @@ export const fetchTraces = async (page: number, limit: number): Promise<ApiRespo
     return response.json();
 };
 
-export const fetchTraceById = async (traceId: string): Promise<ApiResponse<TraceData>> => {
-    const response = await fetch(
-        `${API_BASE_URL}/traces/${traceId}`,
-        {
+// A single trace with its spans validated into the typed model. `issues` lists
+// the schema problems found while parsing them.
+export interface TraceResponse extends ApiResponse<TraceData> {
+    issues: SpanIssue[];
+}
+
+/**
+ * Validates the spans of a raw trace envelope, as returned by the API or
+ * stored in a .traj file.
+ */
+export const parseTraceResponse = (raw: unknown): TraceResponse => {
+    const envelope = raw as ApiResponse<Omit<TraceData, 'spans'> & { spans?: unknown }> | null;
+    if (!envelope || typeof envelope !== 'object' || !envelope.data || typeof envelope.data !== 'object') {
+        throw new Error('Invalid trace data format received');
+    }
+
+    const { spans, issues } = parseSpans(envelope.data.spans ?? []);
+    return {
+        ...envelope,
+        data: { ...envelope.data, spans },
+        issues
+    };
+};
+
+export const fetchTraceById = async (traceId: string): Promise<TraceResponse> => {
+    const response = await authorizedFetch(`${API_BASE_URL}/traces/${encodeURIComponent(traceId)}`);
+    
+    if (!response.ok) {
+        throw new Error('Failed to fetch trace');
+    }
+    
+    return parseTraceResponse(await response.json());
+};
+
+// Where the viewer loads a trace from: this app's API, or the OpenTelemetry
+// backend configured with VITE_OTLP_TRACE_URL
+export type TraceSource = 'api' | 'otlp';
+
+const OTLP_TRACE_URL = import.meta.env.VITE_OTLP_TRACE_URL;
+
+/**
+ * Loads a trace from an OpenTelemetry query API that returns OTLP JSON, such
+ * as Jaeger (/api/v3/traces/{traceId}) or Tempo (/api/traces/{traceId}). That
+ * is a different service, so our credentials aren't sent. Such traces are
+ * always treated as complete; there is no live update stream for them.
+ */
+export const fetchOtlpTrace = async (traceId: string): Promise<TraceResponse> => {
+    if (!OTLP_TRACE_URL) {
+        throw new Error('No OpenTelemetry source configured (VITE_OTLP_TRACE_URL)');
+    }
+
+    const response = await fetch(OTLP_TRACE_URL.replace('{traceId}', encodeURIComponent(traceId)), {
+        headers: { Accept: 'application/json' }
+    });
+
+    if (!response.ok) {
+        throw new Error('Failed to fetch trace');
+    }
+
+    const { spans, issues, serviceName } = parseOtlpTrace(await response.json());
+    const startedAt = spans.reduce((earliest, span) => (span.started_at < earliest ? span.started_at : earliest), spans[0]?.started_at ?? '');
+    const endedAt = spans.reduce((latest, span) => (span.ended_at > latest ? span.ended_at : latest), startedAt);
+
+    return {
+        success: true,
+        data: {
+            _id: traceId,
+            trace_id: traceId,
+            workflow_name: serviceName ?? '',
+            group_id: null,
+            metadata: null,
+            spans,
+            isComplete: true,
+            created_at: startedAt,
+            updated_at: endedAt
+        },
+        issues
+    };
+};
+
+// Traces sharing a group_id, e.g. the turns of one conversation
+export interface SessionSummary {
+    group_id: string;
+    trace_count: number;
+    // Total spans with an error across the session's traces
+    error_count: number;
+    workflow_names: string[];
+    // Creation of the first trace and last update of the latest one
+    started_at: string;
+    ended_at: string;
+    isComplete: boolean;
+}
+
+export interface SessionQuery {
+    page: number;
+    limit: number;
+    search?: string;
+}
+
+// Sessions are usually short enough for one page, but longer ones are paged
+// through so none of their traces go missing
+const SESSION_TRACES_PAGE_SIZE = 100;
+
+export const fetchSessions = async (query: SessionQuery): Promise<ApiResponse<SessionSummary[]>> => {
+    const params = new URLSearchParams({
+        page: String(query.page),
+        limit: String(query.limit)
+    });
+    if (query.search) params.set('search', query.search);
+
+    const response = await authorizedFetch(`${API_BASE_URL}/sessions?${params}`);
+
+    if (!response.ok) {
+        throw new Error('Failed to fetch sessions');
+    }
+
+    return response.json();
+};
+
+// Every trace of one session, across all pages, in the order they were created
+export const fetchSessionTraces = async (groupId: string): Promise<TraceData[]> => {
+    const traces: TraceData[] = [];
+    for (let page = 1; ; page++) {
+        const response = await fetchTraces({
+            page,
+            limit: SESSION_TRACES_PAGE_SIZE,
+            groupId,
+            sortBy: 'created_at',
+            sortOrder: 'asc'
+        });
+        const batch = response.data || [];
+        traces.push(...batch);
+        const total = response.pagination?.total ?? 0;
+        if (batch.length < SESSION_TRACES_PAGE_SIZE || traces.length >= total) return traces;
+    }
+};
+
+export type TraceUpdateTransport = 'stream' | 'polling';
+
+export interface TraceUpdateHandlers {
+    onTransport: (transport: TraceUpdateTransport) => void;
+    // Only new or changed spans when streaming; the full span list when polling
+    onSpans: (spans: TraceSpan[], issues: SpanIssue[]) => void;
+    onComplete: () => void;
+    onError: (error: unknown) => void;
+}
+
+const POLL_INTERVAL_MS = 1000;
+
+// Minimal text/event-stream reader. EventSource can't send our Authorization
+// header, so the stream is read through fetch instead.
+const readEventStream = async (
+    body: ReadableStream<Uint8Array>,
+    onEvent: (event: string, data: string) => void
+) => {
+    const reader = body.pipeThrough(new TextDecoderStream()).getReader();
+    let buffer = '';
+
+    for (;;) {
+        const { value, done } = await reader.read();
+        if (done) return;
+
+        buffer += value.replace(/\r\n?/g, '\n');
+        let boundary = buffer.indexOf('\n\n');
+        while (boundary !== -1) {
+            const message = buffer.slice(0, boundary);
+            buffer = buffer.slice(boundary + 2);
+            boundary = buffer.indexOf('\n\n');
+
+            let event = 'message';
+            const data: string[] = [];
+            message.split('\n').forEach(line => {
+                if (line.startsWith('event:')) {
+                    event = line.slice(6).trim();
+                } else if (line.startsWith('data:')) {
+                    data.push(line.slice(5).replace(/^ /, ''));
+                }
+            });
+            if (data.length > 0) {
+                onEvent(event, data.join('\n'));
+            }
+        }
+    }
+};
+
+/**
+ * Subscribes to updates for a trace that is still running. Prefers the
+ * server-sent event stream (`spans` events carrying new/changed spans and a
+ * final `complete` event) and falls back to polling fetchTraceById when the
+ * stream is unavailable or drops before the trace completes.
+ *
+ * `since` is the `updated_at` of the snapshot the caller already has, so the
+ * stream can replay anything that changed in between. Returns an unsubscribe
+ * function.
+ */
+export const subscribeToTraceUpdates = (
+    traceId: string,
+    since: string | null,
+    handlers: TraceUpdateHandlers
+): (() => void) => {
+    const controller = new AbortController();
+    let pollTimeout: ReturnType<typeof setTimeout> | undefined;
+    let stopped = false;
+
+    const poll = async () => {
+        try {
+            const response = await fetchTraceById(traceId);
+            if (stopped) return;
+
+            handlers.onSpans(response.data.spans || [], response.issues);
+            if (response.data.isComplete) {
+                handlers.onComplete();
+                return;
+            }
+        } catch (error) {
+            if (stopped) return;
+            handlers.onError(error);
+            if (error instanceof UnauthorizedError) return;
+        }
+        pollTimeout = setTimeout(poll, POLL_INTERVAL_MS);
+    };
+
+    const stream = async () => {
+        const query = since ? `?since=${encodeURIComponent(since)}` : '';
+        const response = await authorizedFetch(`${API_BASE_URL}/traces/${encodeURIComponent(traceId)}/stream${query}`, {
             headers: {
-                ...getAuthHeaders()
+                'Accept': 'text/event-stream'
+            },
+            signal: controller.signal
+        });
+
+        if (!response.ok || !response.body) {
+            throw new Error('Trace stream unavailable');
+        }
+
+        handlers.onTransport('stream');
+        let completed = false;
+        await readEventStream(response.body, (event, data) => {
+            if (event === 'spans') {
+                const { spans, issues } = parseSpans((JSON.parse(data) as { spans?: unknown }).spans);
+                handlers.onSpans(spans, issues);
+            } else if (event === 'complete') {
+                completed = true;
+                handlers.onComplete();
             }
+        });
+
+        if (!completed) {
+            throw new Error('Trace stream closed before the trace completed');
+        }
+    };
+
+    stream().catch(error => {
+        if (stopped) return;
+        if (error instanceof UnauthorizedError) {
+            handlers.onError(error);
+            return;
         }
+
+        console.warn('Trace stream unavailable, falling back to polling:', error);
+        handlers.onTransport('polling');
+        poll();
+    });
+
+    return () => {
+        stopped = true;
+        controller.abort();
+        clearTimeout(pollTimeout);
+    };
+};
+
+// Workflow dashboard aggregates. With USE_MOCK_API (see auth.ts) these come
+// from the generated data in mockDashboard.ts instead, for offline work.
+
+export type MetricsInterval = 'hour' | 'day';
+
+export interface WorkflowMetricsQuery {
+    workflowName: string;
+    // ISO dates, both inclusive
+    from?: string;
+    to?: string;
+    interval?: MetricsInterval;
+}
+
+// One time bucket of runs, keyed by when they were created
+export interface WorkflowMetricsBucket {
+    start: string;
+    run_count: number;
+    completed_count: number;
+    // Runs with at least one failing span
+    error_count: number;
+    duration_p50_ms: number | null;
+    duration_p95_ms: number | null;
+    total_tokens: number;
+}
+
+export interface ToolLatencyStat {
+    name: string;
+    calls: number;
+    p50_ms: number;
+    p95_ms: number;
+    error_count: number;
+}
+
+export interface FailureSpanStat {
+    name: string;
+    type: string;
+    count: number;
+    last_error: string | null;
+    last_trace_id: string;
+}
+
+export interface WorkflowMetrics {
+    workflow_name: string;
+    interval: MetricsInterval;
+    buckets: WorkflowMetricsBucket[];
+    slowest_tools: ToolLatencyStat[];
+    top_failures: FailureSpanStat[];
+}
+
+export const fetchWorkflowNames = async (): Promise<ApiResponse<string[]>> => {
+    if (USE_MOCK_API) {
+        const { mockWorkflowNames } = await import('./mockDashboard');
+        return { success: true, data: mockWorkflowNames() };
+    }
+
+    const response = await authorizedFetch(`${API_BASE_URL}/workflows`);
+
+    if (!response.ok) {
+        throw new Error('Failed to fetch workflows');
+    }
+
+    return response.json();
+};
+
+export const fetchWorkflowMetrics = async (query: WorkflowMetricsQuery): Promise<ApiResponse<WorkflowMetrics>> => {
+    if (USE_MOCK_API) {
+        const { mockWorkflowMetrics } = await import('./mockDashboard');
+        return { success: true, data: mockWorkflowMetrics(query) };
+    }
+
+    const params = new URLSearchParams({ interval: query.interval ?? 'day' });
+    if (query.from) params.set('from', query.from);
+    if (query.to) params.set('to', query.to);
+
+    const response = await authorizedFetch(
+        `${API_BASE_URL}/workflows/${encodeURIComponent(query.workflowName)}/metrics?${params}`
     );
-    
+
     if (!response.ok) {
-        throw new Error('Failed to fetch trace');
+        throw new Error('Failed to fetch workflow metrics');
     }
-    
+
     return response.json();
-}; 
\ No newline at end of file
+};
+
+// Settings kept with the signed-in user's profile
+export interface UserSettings {
+    // Unset until the user first saves their own rules
+    redaction_rules?: RedactionRule[];
+}
+
+export const fetchUserSettings = async (): Promise<ApiResponse<UserSettings>> => {
+    const response = await authorizedFetch(`${API_BASE_URL}/profile/settings`);
+
+    if (!response.ok) {
+        throw new Error('Failed to fetch settings');
+    }
+
+    return response.json();
+};
+
+export const updateUserSettings = async (settings: UserSettings): Promise<ApiResponse<UserSettings>> => {
+    const response = await authorizedFetch(`${API_BASE_URL}/profile/settings`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(settings)
+    });
+
+    if (!response.ok) {
+        throw new Error('Failed to save settings');
+    }
+
+    return response.json();
+};
+
+export interface RedactionRevealEvent {
+    trace_id: string | null;
+    // false when the user hides the values again
+    revealed: boolean;
+}
+
+/**
+ * Records that the user showed (or hid) unredacted payloads. The server adds
+ * the user and time from the request.
+ */
+export const logRedactionReveal = async (event: RedactionRevealEvent): Promise<void> => {
+    const response = await authorizedFetch(`${API_BASE_URL}/audit/redaction-reveals`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(event)
+    });
+
+    if (!response.ok) {
+        throw new Error('Failed to log reveal');
+    }
+};
+
+// A comment on a trace, or on one of its spans. Replies point at the comment
+// that starts their thread; only that one can be resolved.
+export interface TraceComment {
+    id: string;
+    trace_id: string;
+    // null for comments on the trace as a whole
+    span_id: string | null;
+    parent_id: string | null;
+    author: string;
+    body: string;
+    created_at: string;
+    resolved: boolean;
+    resolved_by: string | null;
+    resolved_at: string | null;
+}
+
+export interface NewTraceComment {
+    span_id: string | null;
+    parent_id: string | null;
+    body: string;
+}
+
+const commentsUrl = (traceId: string) => `${API_BASE_URL}/traces/${encodeURIComponent(traceId)}/comments`;
+
+export const fetchComments = async (traceId: string): Promise<ApiResponse<TraceComment[]>> => {
+    const response = await authorizedFetch(commentsUrl(traceId));
+
+    if (!response.ok) {
+        throw new Error('Failed to fetch comments');
+    }
+
+    return response.json();
+};
+
+/**
+ * Adds a comment as the signed-in user; the server sets the author and time.
+ */
+export const createComment = async (traceId: string, comment: NewTraceComment): Promise<ApiResponse<TraceComment>> => {
+    const response = await authorizedFetch(commentsUrl(traceId), {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(comment)
+    });
+
+    if (!response.ok) {
+        throw new Error('Failed to add comment');
+    }
+
+    return response.json();
+};
+
+export const resolveComment = async (
+    traceId: string,
+    commentId: string,
+    resolved: boolean
+): Promise<ApiResponse<TraceComment>> => {
+    const response = await authorizedFetch(`${commentsUrl(traceId)}/${encodeURIComponent(commentId)}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ resolved })
+    });
+
+    if (!response.ok) {
+        throw new Error('Failed to update comment');
+    }
+
+    return response.json();
+};
+
+export type TraceVerdict = 'up' | 'down';
+
+// A reviewer's grading of one trace (see evaluation.ts for the rubric and
+// span labels)
+export interface TraceEvaluation {
+    trace_id: string;
+    verdict: TraceVerdict | null;
+    // Rubric criterion key to score
+    scores: Record<string, number>;
+    // Labels per span id
+    span_labels: Record<string, string[]>;
+    note: string;
+    // Set by the server
+    reviewer?: string;
+    updated_at?: string;
+}
+
+const evaluationUrl = (traceId: string) => `${API_BASE_URL}/traces/${encodeURIComponent(traceId)}/evaluation`;
+
+// `data` is null for traces nobody has graded yet
+export const fetchEvaluation = async (traceId: string): Promise<ApiResponse<TraceEvaluation | null>> => {
+    const response = await authorizedFetch(evaluationUrl(traceId));
+
+    if (!response.ok) {
+        throw new Error('Failed to fetch evaluation');
+    }
+
+    return response.json();
+};
+
+export const saveEvaluation = async (evaluation: TraceEvaluation): Promise<ApiResponse<TraceEvaluation>> => {
+    const response = await authorizedFetch(evaluationUrl(evaluation.trace_id), {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(evaluation)
+    });
+
+    if (!response.ok) {
+        throw new Error('Failed to save evaluation');
+    }
+
+    return response.json();
+};
+
+export const fetchEvaluations = async (page: number, limit: number): Promise<ApiResponse<TraceEvaluation[]>> => {
+    const params = new URLSearchParams({ page: String(page), limit: String(limit) });
+    const response = await authorizedFetch(`${API_BASE_URL}/evaluations?${params}`);
+
+    if (!response.ok) {
+        throw new Error('Failed to fetch evaluations');
+    }
+
+    return response.json();
+};
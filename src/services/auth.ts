@@ -1,6 +1,204 @@
-export const getAuthHeaders = () => {
-    const credentials = btoa('admin:password123');
+const API_BASE_URL = import.meta.env.VITE_API_BASE_URL;
+
+// Set VITE_USE_MOCK_API=true to work offline: sign-in accepts any username
+// and password without a server, and the workflow dashboard serves generated
+// data (see api.ts)
+export const USE_MOCK_API = import.meta.env.VITE_USE_MOCK_API === 'true';
+
+// Mock sessions don't expire, so nothing ever tries to refresh them
+const MOCK_SESSION_LIFETIME_S = 365 * 24 * 60 * 60;
+
+const SESSION_STORAGE_KEY = 'traj-viewer.session';
+
+// Refresh a little before the access token actually expires so in-flight
+// requests don't race the expiry.
+const REFRESH_LEEWAY_MS = 30 * 1000;
+
+export interface AuthSession {
+    username: string;
+    accessToken: string;
+    refreshToken: string;
+    expiresAt: number;
+}
+
+interface TokenResponse {
+    success: boolean;
+    data: {
+        access_token: string;
+        refresh_token: string;
+        expires_in: number;
+    };
+}
+
+export class UnauthorizedError extends Error {
+    constructor(message: string = 'Your session has expired. Please sign in again.') {
+        super(message);
+        this.name = 'UnauthorizedError';
+    }
+}
+
+type SessionListener = (session: AuthSession | null) => void;
+
+const listeners = new Set<SessionListener>();
+let refreshInFlight: Promise<AuthSession> | null = null;
+
+const readSession = (): AuthSession | null => {
+    const raw = localStorage.getItem(SESSION_STORAGE_KEY);
+    if (!raw) return null;
+
+    try {
+        return JSON.parse(raw) as AuthSession;
+    } catch {
+        localStorage.removeItem(SESSION_STORAGE_KEY);
+        return null;
+    }
+};
+
+const writeSession = (session: AuthSession | null) => {
+    if (session) {
+        localStorage.setItem(SESSION_STORAGE_KEY, JSON.stringify(session));
+    } else {
+        localStorage.removeItem(SESSION_STORAGE_KEY);
+    }
+    listeners.forEach(listener => listener(session));
+};
+
+const toSession = (username: string, response: TokenResponse): AuthSession => ({
+    username,
+    accessToken: response.data.access_token,
+    refreshToken: response.data.refresh_token,
+    expiresAt: Date.now() + response.data.expires_in * 1000
+});
+
+export const getSession = (): AuthSession | null => readSession();
+
+export const isAuthenticated = (): boolean => readSession() !== null;
+
+export const onSessionChange = (listener: SessionListener) => {
+    listeners.add(listener);
+    return () => {
+        listeners.delete(listener);
+    };
+};
+
+const mockTokenResponse = (): TokenResponse => ({
+    success: true,
+    data: { access_token: 'mock', refresh_token: 'mock', expires_in: MOCK_SESSION_LIFETIME_S }
+});
+
+export const login = async (username: string, password: string): Promise<AuthSession> => {
+    if (USE_MOCK_API) {
+        const session = toSession(username, mockTokenResponse());
+        writeSession(session);
+        return session;
+    }
+
+    const response = await fetch(`${API_BASE_URL}/auth/login`, {
+        method: 'POST',
+        headers: {
+            'Content-Type': 'application/json'
+        },
+        body: JSON.stringify({ username, password })
+    });
+
+    if (response.status === 401) {
+        throw new UnauthorizedError('Invalid username or password.');
+    }
+    if (!response.ok) {
+        throw new Error('Failed to sign in');
+    }
+
+    const session = toSession(username, await response.json());
+    writeSession(session);
+    return session;
+};
+
+export const logout = async () => {
+    const session = readSession();
+    writeSession(null);
+
+    if (session && !USE_MOCK_API) {
+        // Best effort: the local session is already gone either way.
+        try {
+            await fetch(`${API_BASE_URL}/auth/logout`, {
+                method: 'POST',
+                headers: {
+                    'Content-Type': 'application/json'
+                },
+                body: JSON.stringify({ refresh_token: session.refreshToken })
+            });
+        } catch (error) {
+            console.error('Error revoking session:', error);
+        }
+    }
+};
+
+/**
+ * Drops the stored session without contacting the server. Used when the API
+ * rejects our credentials outright.
+ */
+export const clearSession = () => {
+    writeSession(null);
+};
+
+export const refreshSession = async (): Promise<AuthSession> => {
+    if (refreshInFlight) return refreshInFlight;
+
+    const session = readSession();
+    if (!session) {
+        throw new UnauthorizedError();
+    }
+
+    if (USE_MOCK_API) {
+        const refreshed = toSession(session.username, mockTokenResponse());
+        writeSession(refreshed);
+        return refreshed;
+    }
+
+    refreshInFlight = (async () => {
+        try {
+            const response = await fetch(`${API_BASE_URL}/auth/refresh`, {
+                method: 'POST',
+                headers: {
+                    'Content-Type': 'application/json'
+                },
+                body: JSON.stringify({ refresh_token: session.refreshToken })
+            });
+
+            if (!response.ok) {
+                clearSession();
+                throw new UnauthorizedError();
+            }
+
+            const refreshed = toSession(session.username, await response.json());
+            writeSession(refreshed);
+            return refreshed;
+        } finally {
+            refreshInFlight = null;
+        }
+    })();
+
+    return refreshInFlight;
+};
+
+/**
+ * Returns a session whose access token is good for at least the refresh
+ * leeway, refreshing it first if needed.
+ */
+export const getValidSession = async (): Promise<AuthSession> => {
+    const session = readSession();
+    if (!session) {
+        throw new UnauthorizedError();
+    }
+    if (session.expiresAt - Date.now() > REFRESH_LEEWAY_MS) {
+        return session;
+    }
+    return refreshSession();
+};
+
+export const getAuthHeaders = async (): Promise<Record<string, string>> => {
+    const session = await getValidSession();
     return {
-        'Authorization': `Basic ${credentials}`
+        'Authorization': `Bearer ${session.accessToken}`
     };
-}; 
\ No newline at end of file
+};
@@ -0,0 +1,51 @@
+import type { TraceComment } from './api';
+
+export interface CommentThread {
+    root: TraceComment;
+    // Oldest first
+    replies: TraceComment[];
+}
+
+const byCreatedAt = (a: TraceComment, b: TraceComment) => a.created_at.localeCompare(b.created_at);
+
+/**
+ * Groups comments into threads, oldest thread first. `spanId` picks the
+ * threads on one span, or with null the ones on the trace itself. A reply to
+ * a reply joins the thread of the comment it ultimately answers; replies
+ * whose thread is missing are shown as threads of their own.
+ */
+export const getCommentThreads = (comments: TraceComment[], spanId: string | null): CommentThread[] => {
+    const own = comments.filter(comment => comment.span_id === spanId).sort(byCreatedAt);
+    const byId = new Map(own.map(comment => [comment.id, comment]));
+
+    const getRoot = (comment: TraceComment) => {
+        let root = comment;
+        const seen = new Set([root.id]);
+        while (root.parent_id && byId.has(root.parent_id) && !seen.has(root.parent_id)) {
+            root = byId.get(root.parent_id)!;
+            seen.add(root.id);
+        }
+        return root;
+    };
+
+    const threads = new Map<string, CommentThread>();
+    own.forEach(comment => {
+        const root = getRoot(comment);
+        const thread = threads.get(root.id) ?? { root, replies: [] };
+        if (comment !== root) thread.replies.push(comment);
+        threads.set(root.id, thread);
+    });
+    return [...threads.values()].sort((a, b) => byCreatedAt(a.root, b.root));
+};
+
+/**
+ * Number of comments per span id, replies included. Trace-level comments
+ * are left out.
+ */
+export const countCommentsBySpan = (comments: TraceComment[]): Map<string, number> => {
+    const counts = new Map<string, number>();
+    comments.forEach(comment => {
+        if (comment.span_id) counts.set(comment.span_id, (counts.get(comment.span_id) ?? 0) + 1);
+    });
+    return counts;
+};
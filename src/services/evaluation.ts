@@ -0,0 +1,143 @@
+import type { TraceData, TraceEvaluation } from './api';
+import type { SessionPosition } from './sessions';
+import type { TraceSpan } from './spans';
+import type { ExportFile } from './traceExport';
+import { buildTranscript, getSpansBefore } from './transcript';
+import { buildTree } from './traceTree';
+
+// Human grading of runs: a thumbs up/down and rubric scores per trace, labels
+// per span, and the JSONL dataset built from graded traces for regression
+// evals.
+
+export interface RubricCriterion {
+    key: string;
+    label: string;
+    description: string;
+}
+
+export const REVIEW_PATH = '/review';
+
+// The trace viewer, opened with the review queue's step-through controls
+export const reviewTracePath = (traceId: string) => `${REVIEW_PATH}/trace/${encodeURIComponent(traceId)}`;
+
+/**
+ * Where a trace sits in the review queue. A trace that has left the queue,
+ * e.g. after a reload once it was graded, steps on to the first one.
+ */
+export const getReviewPosition = (queue: TraceData[], traceId: string | undefined): SessionPosition => {
+    const index = queue.findIndex(trace => trace.trace_id === traceId);
+    return {
+        index,
+        previous: index > 0 ? queue[index - 1] : null,
+        next: index >= 0 ? queue[index + 1] ?? null : queue[0] ?? null
+    };
+};
+
+export const RUBRIC_CRITERIA: RubricCriterion[] = [
+    { key: 'correctness', label: 'Correctness', description: 'The final answer or change is right' },
+    { key: 'tool_use', label: 'Tool use', description: 'Right tools, called with the right arguments' },
+    { key: 'efficiency', label: 'Efficiency', description: 'No unnecessary steps, loops or retries' },
+    { key: 'instructions', label: 'Instructions', description: 'Followed the user and system instructions' }
+];
+
+export const RUBRIC_SCALE = [1, 2, 3, 4, 5];
+
+// Offered as one-click labels; reviewers can add their own
+export const SPAN_LABELS = ['wrong tool', 'bad arguments', 'hallucination', 'unnecessary step', 'incorrect output', 'good step'];
+
+export const emptyEvaluation = (traceId: string): TraceEvaluation => ({
+    trace_id: traceId,
+    verdict: null,
+    scores: {},
+    span_labels: {},
+    note: ''
+});
+
+export const isEvaluationEmpty = (evaluation: TraceEvaluation) =>
+    evaluation.verdict === null &&
+    Object.keys(evaluation.scores).length === 0 &&
+    Object.keys(evaluation.span_labels).length === 0 &&
+    !evaluation.note.trim();
+
+/**
+ * Adds the label to the span, or removes it if it's already there. Spans
+ * without labels are dropped from the map.
+ */
+export const toggleSpanLabel = (evaluation: TraceEvaluation, spanId: string, label: string): TraceEvaluation => {
+    const current = evaluation.span_labels[spanId] ?? [];
+    const next = current.includes(label) ? current.filter(item => item !== label) : [...current, label];
+    const spanLabels = { ...evaluation.span_labels, [spanId]: next };
+    if (next.length === 0) delete spanLabels[spanId];
+    return { ...evaluation, span_labels: spanLabels };
+};
+
+export interface DatasetSpan {
+    span_id: string;
+    type: string;
+    name: string | null;
+    labels: string[];
+    input: unknown;
+    output: unknown;
+    error: string | null;
+}
+
+export interface DatasetRecord {
+    trace_id: string;
+    workflow_name: string;
+    created_at: string;
+    // The first user message and the last assistant message of the run
+    input: string | null;
+    output: string | null;
+    verdict: TraceEvaluation['verdict'];
+    scores: Record<string, number>;
+    note: string;
+    // Only the spans that have labels
+    labeled_spans: DatasetSpan[];
+    reviewer: string | null;
+}
+
+/**
+ * One dataset line for a graded trace. `trace` must include its spans.
+ */
+export const buildDatasetRecord = (trace: TraceData, evaluation: TraceEvaluation): DatasetRecord => {
+    const spans: TraceSpan[] = trace.spans ?? [];
+    const transcript = buildTranscript(getSpansBefore(null, buildTree(spans).roots));
+    const messages = transcript.filter(entry => entry.kind === 'message');
+    const firstInput = messages.find(entry => entry.role === 'user');
+    const lastOutput = [...messages].reverse().find(entry => entry.role === 'assistant');
+    const spansById = new Map(spans.map(span => [span.id, span]));
+
+    return {
+        trace_id: trace.trace_id,
+        workflow_name: trace.workflow_name,
+        created_at: trace.created_at,
+        input: firstInput?.content ?? null,
+        output: lastOutput?.content ?? null,
+        verdict: evaluation.verdict,
+        scores: evaluation.scores,
+        note: evaluation.note,
+        labeled_spans: Object.entries(evaluation.span_labels).flatMap(([spanId, labels]) => {
+            const span = spansById.get(spanId);
+            if (!span) return [];
+            return [{
+                span_id: spanId,
+                type: span.span_data.type,
+                name: span.span_data.name ?? null,
+                labels,
+                input: span.span_data.input ?? null,
+                output: span.span_data.output ?? null,
+                error: span.error?.message ?? null
+            }];
+        }),
+        reviewer: evaluation.reviewer ?? null
+    };
+};
+
+/**
+ * The records as a JSONL file, one graded trace per line.
+ */
+export const buildDatasetFile = (records: DatasetRecord[]): ExportFile => ({
+    fileName: `evaluations-${new Date().toISOString().slice(0, 10)}.jsonl`,
+    mimeType: 'application/x-ndjson',
+    content: records.map(record => JSON.stringify(record)).join('\n') + '\n'
+});
@@ -0,0 +1,75 @@
+import type { FailureSpanStat, ToolLatencyStat, WorkflowMetrics, WorkflowMetricsBucket, WorkflowMetricsQuery } from './api';
+
+// Generated stand-ins for the workflow metrics endpoints, used when
+// VITE_USE_MOCK_API=true. Values are seeded from the workflow name and bucket
+// so the charts look the same on every load.
+
+const MOCK_WORKFLOWS = ['Code review agent', 'Customer support triage', 'Research assistant'];
+const MOCK_TOOLS = ['execute_command', 'read_file', 'list_files', 'search_web', 'write_file'];
+const DEFAULT_RANGE_DAYS = 14;
+const DAY_MS = 24 * 60 * 60 * 1000;
+const HOUR_MS = 60 * 60 * 1000;
+
+// Small deterministic PRNG (mulberry32) seeded from a string
+const createRandom = (seed: string) => {
+    let state = [...seed].reduce((hash, char) => Math.imul(hash ^ char.charCodeAt(0), 2654435761), 1779033703);
+    return () => {
+        state = (state + 0x6d2b79f5) | 0;
+        let t = Math.imul(state ^ (state >>> 15), 1 | state);
+        t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+        return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+    };
+};
+
+export const mockWorkflowNames = () => MOCK_WORKFLOWS;
+
+export const mockWorkflowMetrics = (query: WorkflowMetricsQuery): WorkflowMetrics => {
+    const interval = query.interval ?? 'day';
+    const step = interval === 'hour' ? HOUR_MS : DAY_MS;
+    const to = query.to ? new Date(`${query.to}T23:59:59Z`).getTime() : Date.now();
+    const from = query.from ? new Date(`${query.from}T00:00:00Z`).getTime() : to - DEFAULT_RANGE_DAYS * DAY_MS;
+
+    const buckets: WorkflowMetricsBucket[] = [];
+    for (let start = Math.floor(from / step) * step; start <= to; start += step) {
+        const random = createRandom(`${query.workflowName}:${start}`);
+        const runCount = Math.round(random() * 40 + 5);
+        const p50 = 8000 + random() * 12000;
+        buckets.push({
+            start: new Date(start).toISOString(),
+            run_count: runCount,
+            completed_count: Math.round(runCount * (0.8 + random() * 0.2)),
+            error_count: Math.round(runCount * random() * 0.25),
+            duration_p50_ms: Math.round(p50),
+            duration_p95_ms: Math.round(p50 * (1.5 + random() * 1.5)),
+            total_tokens: Math.round(runCount * (15000 + random() * 20000))
+        });
+    }
+
+    const random = createRandom(query.workflowName);
+    const slowestTools: ToolLatencyStat[] = MOCK_TOOLS
+        .map(name => {
+            const p50 = Math.round(50 + random() * 3000);
+            return {
+                name,
+                calls: Math.round(50 + random() * 500),
+                p50_ms: p50,
+                p95_ms: Math.round(p50 * (2 + random() * 3)),
+                error_count: Math.round(random() * 20)
+            };
+        })
+        .sort((a, b) => b.p95_ms - a.p95_ms);
+
+    const topFailures: FailureSpanStat[] = [
+        { name: 'execute_command', type: 'function', count: 42, last_error: 'Command exited with status 1', last_trace_id: 'trace_mock_1' },
+        { name: 'read_file', type: 'function', count: 17, last_error: 'File not found: config.yaml', last_trace_id: 'trace_mock_2' },
+        { name: 'Planner', type: 'agent', count: 6, last_error: 'Max turns exceeded', last_trace_id: 'trace_mock_3' }
+    ];
+
+    return {
+        workflow_name: query.workflowName,
+        interval,
+        buckets,
+        slowest_tools: slowestTools,
+        top_failures: topFailures
+    };
+};
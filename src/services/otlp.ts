@@ -0,0 +1,345 @@
+import { parseSpans } from './spans';
+import type { ParseSpansResult, SpanMessage } from './spans';
+
+// Converts OpenTelemetry traces in the OTLP JSON encoding into the viewer's
+// span model. Spans following the GenAI semantic conventions become agent,
+// generation and function spans; everything else is kept as a custom span
+// carrying its attributes. The result goes through parseSpans like any other
+// input, so the same validation applies.
+
+type RawObject = Record<string, unknown>;
+type Attributes = Record<string, unknown>;
+
+interface OtlpKeyValue {
+    key: string;
+    value?: RawObject;
+}
+
+interface OtlpEvent {
+    name?: string;
+    timeUnixNano?: string | number;
+    attributes?: OtlpKeyValue[];
+}
+
+interface OtlpSpan {
+    traceId?: string;
+    spanId?: string;
+    parentSpanId?: string;
+    name?: string;
+    kind?: number | string;
+    startTimeUnixNano?: string | number;
+    endTimeUnixNano?: string | number;
+    attributes?: OtlpKeyValue[];
+    events?: OtlpEvent[];
+    status?: { code?: number | string; message?: string };
+}
+
+export interface OtlpParseResult extends ParseSpansResult {
+    traceId?: string;
+    // service.name of the first resource
+    serviceName?: string;
+}
+
+const isObject = (value: unknown): value is RawObject =>
+    typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const asList = <T>(value: unknown): T[] => (Array.isArray(value) ? value as T[] : []);
+
+// resourceSpans is the standard envelope; Jaeger wraps it in `result` and
+// older Tempo versions call it `batches`.
+const getResourceSpans = (json: unknown): RawObject[] | null => {
+    if (!isObject(json)) return null;
+    const container = isObject(json.result) ? json.result : json;
+    const resourceSpans = container.resourceSpans ?? container.batches;
+    return Array.isArray(resourceSpans) ? resourceSpans.filter(isObject) : null;
+};
+
+/**
+ * Whether a parsed JSON document looks like an OTLP trace export.
+ */
+export const isOtlpTrace = (json: unknown) => getResourceSpans(json) !== null;
+
+const readAnyValue = (value: unknown): unknown => {
+    if (!isObject(value)) return value;
+    if ('stringValue' in value) return value.stringValue;
+    if ('boolValue' in value) return value.boolValue;
+    // int64 is encoded as a string in OTLP JSON
+    if ('intValue' in value) return Number(value.intValue);
+    if ('doubleValue' in value) return Number(value.doubleValue);
+    if ('bytesValue' in value) return value.bytesValue;
+    if (isObject(value.arrayValue)) return asList(value.arrayValue.values).map(readAnyValue);
+    if (isObject(value.kvlistValue)) return readAttributes(asList(value.kvlistValue.values));
+    return null;
+};
+
+const readAttributes = (keyValues: OtlpKeyValue[] | undefined): Attributes => {
+    const attributes: Attributes = {};
+    (keyValues ?? []).forEach(({ key, value }) => {
+        attributes[key] = readAnyValue(value);
+    });
+    return attributes;
+};
+
+const toIsoTime = (nanos: string | number | undefined): string | undefined => {
+    if (nanos === undefined || nanos === '' || Number(nanos) === 0) return undefined;
+    // Split strings before converting; the full count is past exact float precision
+    const millis = typeof nanos === 'number'
+        ? nanos / 1e6
+        : Number(nanos.slice(0, -6) || '0') + Number(nanos.slice(-6)) / 1e6;
+    return Number.isFinite(millis) ? new Date(millis).toISOString() : undefined;
+};
+
+const stringAttr = (attributes: Attributes, key: string) => {
+    const value = attributes[key];
+    return typeof value === 'string' && value ? value : undefined;
+};
+
+const numberAttr = (attributes: Attributes, key: string) => {
+    const value = attributes[key];
+    return typeof value === 'number' && Number.isFinite(value) ? value : undefined;
+};
+
+// Structured attributes are often recorded as JSON strings
+const parseJsonAttr = (attributes: Attributes, key: string): unknown => {
+    const value = attributes[key];
+    if (typeof value !== 'string') return value;
+    try {
+        return JSON.parse(value);
+    } catch {
+        return value;
+    }
+};
+
+// gen_ai.input.messages style: { role, parts: [{ type: 'text', content }] }
+const toMessage = (raw: unknown): SpanMessage => {
+    if (!isObject(raw)) return { content: raw };
+    const { parts, ...rest } = raw;
+    if (!Array.isArray(parts)) return rest;
+
+    const texts = parts.map(part =>
+        isObject(part) && part.type === 'text' && typeof part.content === 'string' ? part.content : null);
+    return {
+        ...rest,
+        content: texts.every(text => text !== null) ? texts.join('\n') : parts
+    };
+};
+
+const readMessageList = (value: unknown): SpanMessage[] | undefined =>
+    Array.isArray(value) && value.length > 0 ? value.map(toMessage) : undefined;
+
+// Older instrumentations flatten messages into gen_ai.prompt.0.role,
+// gen_ai.prompt.0.content, ...
+const readIndexedMessages = (attributes: Attributes, prefix: string): SpanMessage[] | undefined => {
+    const messages: SpanMessage[] = [];
+    Object.entries(attributes).forEach(([key, value]) => {
+        const match = key.match(new RegExp(`^${prefix.replace(/\./g, '\\.')}\\.(\\d+)\\.(\\w+)$`));
+        if (!match) return;
+        const index = Number(match[1]);
+        messages[index] = { ...messages[index], [match[2]]: value };
+    });
+    const present = messages.filter(Boolean);
+    return present.length > 0 ? present : undefined;
+};
+
+// Message events from earlier versions of the conventions
+const MESSAGE_EVENTS: Record<string, string> = {
+    'gen_ai.system.message': 'system',
+    'gen_ai.user.message': 'user',
+    'gen_ai.assistant.message': 'assistant',
+    'gen_ai.tool.message': 'tool'
+};
+
+const readEventMessages = (events: OtlpEvent[]) => {
+    const input: SpanMessage[] = [];
+    const output: SpanMessage[] = [];
+    events.forEach(event => {
+        const attributes = readAttributes(event.attributes);
+        const content = parseJsonAttr(attributes, 'content') ?? parseJsonAttr(attributes, 'gen_ai.event.content');
+        if (event.name && MESSAGE_EVENTS[event.name]) {
+            input.push({ role: MESSAGE_EVENTS[event.name], content });
+        } else if (event.name === 'gen_ai.choice') {
+            const message = parseJsonAttr(attributes, 'message');
+            output.push(isObject(message) ? message : { role: 'assistant', content });
+        }
+    });
+    return {
+        input: input.length > 0 ? input : undefined,
+        output: output.length > 0 ? output : undefined
+    };
+};
+
+const GENERATION_OPERATIONS = ['chat', 'text_completion', 'generate_content', 'embeddings'];
+
+const getSpanType = (attributes: Attributes): 'agent' | 'generation' | 'function' | 'custom' => {
+    const operation = stringAttr(attributes, 'gen_ai.operation.name');
+    if (operation === 'invoke_agent' || operation === 'create_agent') return 'agent';
+    if (operation === 'execute_tool') return 'function';
+    if (operation && GENERATION_OPERATIONS.includes(operation)) return 'generation';
+    if (stringAttr(attributes, 'gen_ai.tool.name')) return 'function';
+    if (stringAttr(attributes, 'gen_ai.agent.name')) return 'agent';
+    if (stringAttr(attributes, 'gen_ai.request.model') || stringAttr(attributes, 'gen_ai.system')) return 'generation';
+    return 'custom';
+};
+
+const buildSpanData = (span: OtlpSpan, attributes: Attributes): RawObject => {
+    const name = span.name || 'span';
+    const events = span.events ?? [];
+
+    switch (getSpanType(attributes)) {
+        case 'agent': {
+            // A list of parts, like message content
+            const instructions = parseJsonAttr(attributes, 'gen_ai.system_instructions');
+            const model = stringAttr(attributes, 'gen_ai.request.model');
+            const input = readMessageList(parseJsonAttr(attributes, 'gen_ai.input.messages'));
+            // Like native agent spans, the first input message carries the
+            // instructions and settings
+            const settings: SpanMessage = {
+                role: 'system',
+                content: Array.isArray(instructions) ? toMessage({ parts: instructions }).content : instructions,
+                ...(model ? { model } : {})
+            };
+            const hasSettings = settings.content !== undefined || model !== undefined;
+            return {
+                type: 'agent',
+                name: stringAttr(attributes, 'gen_ai.agent.name') ?? name,
+                input: hasSettings ? [settings, ...(input ?? [])] : input,
+                output: readMessageList(parseJsonAttr(attributes, 'gen_ai.output.messages'))
+            };
+        }
+        case 'function': {
+            const args = parseJsonAttr(attributes, 'gen_ai.tool.call.arguments');
+            const result = parseJsonAttr(attributes, 'gen_ai.tool.call.result');
+            return {
+                type: 'function',
+                name: stringAttr(attributes, 'gen_ai.tool.name') ?? name,
+                input: args === undefined ? undefined : [{ content: args }],
+                output: result === undefined ? undefined : [{ content: result }]
+            };
+        }
+        case 'generation': {
+            const eventMessages = readEventMessages(events);
+            const inputTokens = numberAttr(attributes, 'gen_ai.usage.input_tokens') ?? numberAttr(attributes, 'gen_ai.usage.prompt_tokens');
+            const outputTokens = numberAttr(attributes, 'gen_ai.usage.output_tokens') ?? numberAttr(attributes, 'gen_ai.usage.completion_tokens');
+            const modelConfig: RawObject = {};
+            Object.entries(attributes).forEach(([key, value]) => {
+                if (key.startsWith('gen_ai.request.') && key !== 'gen_ai.request.model') {
+                    modelConfig[key.slice('gen_ai.request.'.length)] = value;
+                }
+            });
+            return {
+                type: 'generation',
+                name,
+                model: stringAttr(attributes, 'gen_ai.response.model') ?? stringAttr(attributes, 'gen_ai.request.model'),
+                model_config: Object.keys(modelConfig).length > 0 ? modelConfig : undefined,
+                usage: inputTokens === undefined && outputTokens === undefined ? undefined : {
+                    input_tokens: inputTokens,
+                    output_tokens: outputTokens,
+                    total_tokens: (inputTokens ?? 0) + (outputTokens ?? 0)
+                },
+                input: readMessageList(parseJsonAttr(attributes, 'gen_ai.input.messages'))
+                    ?? readIndexedMessages(attributes, 'gen_ai.prompt')
+                    ?? eventMessages.input,
+                output: readMessageList(parseJsonAttr(attributes, 'gen_ai.output.messages'))
+                    ?? readIndexedMessages(attributes, 'gen_ai.completion')
+                    ?? eventMessages.output
+            };
+        }
+        default:
+            return {
+                type: 'custom',
+                name,
+                data: {
+                    ...attributes,
+                    ...(span.kind !== undefined ? { 'otel.span_kind': span.kind } : {}),
+                    ...(events.length > 0 ? {
+                        'otel.events': events.map(event => ({
+                            name: event.name,
+                            time: toIsoTime(event.timeUnixNano),
+                            attributes: readAttributes(event.attributes)
+                        }))
+                    } : {})
+                }
+            };
+    }
+};
+
+const isErrorStatus = (code: number | string | undefined) => code === 2 || code === 'STATUS_CODE_ERROR';
+
+const buildError = (span: OtlpSpan): RawObject | null => {
+    if (!isErrorStatus(span.status?.code)) return null;
+
+    const exception = (span.events ?? []).find(event => event.name === 'exception');
+    const details = exception ? readAttributes(exception.attributes) : {};
+    return {
+        message: span.status?.message || stringAttr(details, 'exception.message') || 'Error',
+        data: exception ? {
+            type: details['exception.type'],
+            stacktrace: details['exception.stacktrace']
+        } : null
+    };
+};
+
+const convertSpan = (span: OtlpSpan): RawObject => {
+    const attributes = readAttributes(span.attributes);
+    return {
+        object: 'trace.span',
+        id: span.spanId,
+        trace_id: span.traceId ?? '',
+        parent_id: span.parentSpanId || null,
+        started_at: toIsoTime(span.startTimeUnixNano),
+        // Unfinished spans have no end time yet
+        ended_at: toIsoTime(span.endTimeUnixNano),
+        span_data: buildSpanData(span, attributes),
+        error: buildError(span)
+    };
+};
+
+/**
+ * Converts one or more OTLP trace exports (e.g. the lines of a collector's
+ * file exporter output) into validated spans.
+ */
+export const parseOtlpTrace = (...documents: unknown[]): OtlpParseResult => {
+    let serviceName: string | undefined;
+    // By span id; a span exported again (e.g. once it ended) replaces the earlier copy
+    const rawSpans = new Map<unknown, RawObject>();
+
+    documents.forEach(json => {
+        (getResourceSpans(json) ?? []).forEach(resourceSpan => {
+            const resource = isObject(resourceSpan.resource) ? resourceSpan.resource : {};
+            serviceName ??= stringAttr(readAttributes(asList(resource.attributes)), 'service.name');
+
+            const scopeSpans = asList<RawObject>(resourceSpan.scopeSpans ?? resourceSpan.instrumentationLibrarySpans);
+            scopeSpans.forEach(scopeSpan => {
+                asList<OtlpSpan>(scopeSpan.spans).forEach(span => rawSpans.set(span.spanId || rawSpans.size, convertSpan(span)));
+            });
+        });
+    });
+
+    // In start order, like spans from the API
+    const ordered = [...rawSpans.values()].sort((a, b) => String(a.started_at ?? '').localeCompare(String(b.started_at ?? '')));
+    const parsed = parseSpans(ordered);
+
+    // A parent that isn't in the export (another service's span, or one that
+    // was dropped) would leave the span out of the tree, so it becomes a root
+    const spanIds = new Set(parsed.spans.map(span => span.id));
+    const inputIndex = new Map(ordered.map((span, index) => [span.id, index]));
+    const issues = [...parsed.issues];
+    const spans = parsed.spans.map(span => {
+        if (!span.parent_id || spanIds.has(span.parent_id)) return span;
+        issues.push({
+            spanId: span.id,
+            index: inputIndex.get(span.id) ?? -1,
+            path: 'parentSpanId',
+            message: `parent ${span.parent_id} is not in the export, span shown as a root`,
+            severity: 'warning'
+        });
+        return { ...span, parent_id: null };
+    });
+
+    return {
+        spans,
+        issues,
+        traceId: spans.find(span => span.trace_id)?.trace_id,
+        serviceName
+    };
+};
@@ -0,0 +1,183 @@
+import type { SpanData, SpanError, TraceSpan } from './spans';
+
+// Masks credentials and personal data in span payloads before they are shown
+// or leave the app. Two kinds of rules, both editable per user:
+// - regex rules replace every match inside any string value
+// - JSON-path rules replace a named field's whole value. Paths are evaluated
+//   against each span, e.g. `$.span_data.output` or `$..password`, but only
+//   `span_data` and `error` are touched so ids and timing stay intact.
+// Neither kind touches the fields that say what a span is (its type, name,
+// model and so on), only its payload: input, output, data and the error.
+
+export const REDACTED = '[REDACTED]';
+
+export type RedactionRuleType = 'regex' | 'path';
+
+export interface RedactionRule {
+    id: string;
+    type: RedactionRuleType;
+    name: string;
+    // A regular expression source for 'regex', a JSON path for 'path'
+    pattern: string;
+    enabled: boolean;
+}
+
+const fieldRule = (field: string): RedactionRule => ({
+    id: `field-${field}`,
+    type: 'path',
+    name: `${field} fields`,
+    pattern: `$..${field}`,
+    enabled: true
+});
+
+export const DEFAULT_REDACTION_RULES: RedactionRule[] = [
+    { id: 'api-keys', type: 'regex', name: 'OpenAI / Anthropic style API keys', pattern: '\\bsk-[A-Za-z0-9_-]{16,}', enabled: true },
+    { id: 'aws-keys', type: 'regex', name: 'AWS access key ids', pattern: '\\bAKIA[0-9A-Z]{16}\\b', enabled: true },
+    { id: 'github-tokens', type: 'regex', name: 'GitHub tokens', pattern: '\\bgh[pousr]_[A-Za-z0-9]{20,}\\b', enabled: true },
+    { id: 'bearer-tokens', type: 'regex', name: 'Bearer tokens', pattern: '\\b[Bb]earer\\s+[A-Za-z0-9._~+/-]+=*', enabled: true },
+    { id: 'emails', type: 'regex', name: 'Email addresses', pattern: '[A-Za-z0-9._%+-]+@[A-Za-z0-9.-]+\\.[A-Za-z]{2,}', enabled: true },
+    ...['api_key', 'authorization', 'password', 'client_secret', 'access_token', 'refresh_token', 'cookie'].map(fieldRule)
+];
+
+// One step of a JSON path. `deep` is the `..` descendant operator.
+interface PathSegment {
+    key: string | null;
+    deep: boolean;
+}
+
+const PATH_SEGMENT = /^(\.\.|\.)?(?:([A-Za-z_$][\w$-]*)|(\*)|\[(?:(\d+)|(\*)|'([^']*)'|"([^"]*)")\])/;
+
+/**
+ * Parses the supported JSON path subset: `$`, `.name`, `..name`, `*`,
+ * `[0]`, `[*]` and `['name']`. Returns null for anything else.
+ */
+export const parseJsonPath = (path: string): PathSegment[] | null => {
+    let rest = path.trim();
+    if (!rest.startsWith('$')) return null;
+    rest = rest.slice(1);
+
+    const segments: PathSegment[] = [];
+    while (rest) {
+        const match = PATH_SEGMENT.exec(rest);
+        if (!match) return null;
+        const [text, dots, name, star, index, bracketStar, single, double] = match;
+        // Names and `*` need a leading dot; brackets may go without
+        if (!dots && !text.startsWith('[')) return null;
+        segments.push({
+            key: star || bracketStar ? null : (name ?? index ?? single ?? double).toLowerCase(),
+            deep: dots === '..'
+        });
+        rest = rest.slice(text.length);
+    }
+    return segments.length > 0 ? segments : null;
+};
+
+/**
+ * Why a rule can't be used, or null when it's fine. Regexes that match empty
+ * text are refused since they would put the marker between every character.
+ */
+export const validateRule = (rule: RedactionRule): string | null => {
+    if (!rule.pattern.trim()) return 'Enter a pattern.';
+    if (rule.type === 'path') {
+        return parseJsonPath(rule.pattern) ? null : 'Use a path like $..password or $.span_data.output[*].content.';
+    }
+    try {
+        return new RegExp(rule.pattern).test('') ? 'The pattern matches empty text.' : null;
+    } catch (error) {
+        return error instanceof Error ? error.message : 'Invalid regular expression.';
+    }
+};
+
+interface CompiledRules {
+    patterns: RegExp[];
+    paths: PathSegment[][];
+}
+
+// Disabled and invalid rules are left out
+const compileRules = (rules: RedactionRule[]): CompiledRules => {
+    const usable = rules.filter(rule => rule.enabled && validateRule(rule) === null);
+    return {
+        patterns: usable.filter(rule => rule.type === 'regex').map(rule => new RegExp(rule.pattern, 'g')),
+        paths: usable.filter(rule => rule.type === 'path').map(rule => parseJsonPath(rule.pattern)!)
+    };
+};
+
+// Field names match case-insensitively, so `$..authorization` also covers
+// an `Authorization` header
+const applyPath = (value: unknown, segments: PathSegment[], index: number): unknown => {
+    if (index === segments.length) {
+        return value === null || value === undefined ? value : REDACTED;
+    }
+    if (!value || typeof value !== 'object') return value;
+
+    const { key, deep } = segments[index];
+    const visit = (childKey: string, child: unknown) => {
+        const matches = key === null || key === childKey.toLowerCase();
+        const next = matches ? applyPath(child, segments, index + 1) : child;
+        return deep ? applyPath(next, segments, index) : next;
+    };
+
+    return Array.isArray(value)
+        ? value.map((item, i) => visit(String(i), item))
+        : Object.fromEntries(Object.entries(value).map(([childKey, child]) => [childKey, visit(childKey, child)]));
+};
+
+// Keys that give messages and content parts their shape ({ role, content },
+// { type: 'text', text }). Regex rules leave their values alone wherever they
+// are, so transcripts can still tell who said what.
+const MESSAGE_SHAPE_KEYS = new Set(['role', 'type']);
+
+const applyPatterns = (value: unknown, patterns: RegExp[]): unknown => {
+    if (typeof value === 'string') {
+        return patterns.reduce((text, pattern) => text.replace(pattern, REDACTED), value);
+    }
+    if (Array.isArray(value)) return value.map(item => applyPatterns(item, patterns));
+    if (value && typeof value === 'object') {
+        return Object.fromEntries(Object.entries(value).map(([key, item]) => [
+            key,
+            MESSAGE_SHAPE_KEYS.has(key) && typeof item === 'string' ? item : applyPatterns(item, patterns)
+        ]));
+    }
+    return value;
+};
+
+/**
+ * Deep copy of a JSON-like value with the rules applied. Path rules see the
+ * value as the document root.
+ */
+export const redactValue = (value: unknown, rules: RedactionRule[] = DEFAULT_REDACTION_RULES): unknown => {
+    const { patterns, paths } = compileRules(rules);
+    return applyPatterns(paths.reduce((current, path) => applyPath(current, path, 0), value), patterns);
+};
+
+// Fields of span_data that identify the span rather than carry its payload.
+// Rendering, transcripts and trace diffs rely on them, `type` above all as
+// the union discriminant, so a broad rule must not rewrite them.
+const STRUCTURAL_SPAN_FIELDS = new Set([
+    'type', 'name', 'from_agent', 'to_agent', 'model', 'response_id', 'usage', 'triggered', 'tools', 'handoffs', 'output_type'
+]);
+
+/**
+ * Returns a function redacting one span at a time, for callers that redact
+ * spans as they arrive. Spans come back with ids, timing, structure and
+ * structural span_data fields untouched so they still form the same tree.
+ */
+export const createSpanRedactor = (rules: RedactionRule[]) => {
+    const { patterns, paths } = compileRules(rules);
+    return (span: TraceSpan): TraceSpan => {
+        const fields = Object.entries(span.span_data);
+        const structure = Object.fromEntries(fields.filter(([key]) => STRUCTURAL_SPAN_FIELDS.has(key)));
+        const payload = paths.reduce<unknown>(
+            (current, path) => applyPath(current, path, 0),
+            {
+                span_data: Object.fromEntries(fields.filter(([key]) => !STRUCTURAL_SPAN_FIELDS.has(key))),
+                error: span.error
+            }
+        );
+        const { span_data, error } = applyPatterns(payload, patterns) as { span_data: Partial<SpanData>; error: SpanError | null };
+        return { ...span, span_data: { ...span_data, ...structure } as SpanData, error };
+    };
+};
+
+export const redactSpans = (spans: TraceSpan[], rules: RedactionRule[] = DEFAULT_REDACTION_RULES): TraceSpan[] =>
+    spans.map(createSpanRedactor(rules));
@@ -0,0 +1,97 @@
+import { getSpanEnd, getSpanStart } from './spanLayout';
+import type { TraceSpan } from './spans';
+
+// Playback of a finished trace along its timestamps. Times are milliseconds
+// since the start of the first span.
+
+export const REPLAY_SPEEDS = [0.5, 1, 2, 5, 10, 50];
+
+export interface ReplayTimeline {
+    start: number;
+    duration: number;
+    // Ordered by start time
+    spans: TraceSpan[];
+    // Every moment a span starts or ends, in order, without duplicates
+    eventTimes: number[];
+}
+
+export const buildReplayTimeline = (spans: TraceSpan[]): ReplayTimeline => {
+    if (spans.length === 0) return { start: 0, duration: 0, spans: [], eventTimes: [] };
+
+    const sorted = [...spans].sort((a, b) => getSpanStart(a) - getSpanStart(b));
+    const start = getSpanStart(sorted[0]);
+    const end = sorted.reduce((latest, span) => Math.max(latest, getSpanEnd(span)), start);
+    const eventTimes = [...new Set(sorted.flatMap(span => [getSpanStart(span) - start, getSpanEnd(span) - start]))]
+        .sort((a, b) => a - b);
+
+    return { start, duration: end - start, spans: sorted, eventTimes };
+};
+
+const isRunningAt = (span: TraceSpan, at: number) => getSpanEnd(span) > at;
+
+// A span that hasn't finished yet looks like it does in a live trace: cut off
+// at the current time, with no output or error so far
+const getSpanAt = (span: TraceSpan, at: number): TraceSpan =>
+    isRunningAt(span, at)
+        ? {
+            ...span,
+            ended_at: new Date(at).toISOString(),
+            span_data: { ...span.span_data, output: undefined },
+            error: null
+        }
+        : span;
+
+/**
+ * The spans as they stood `time` ms into the trace.
+ */
+export const getReplaySpans = (timeline: ReplayTimeline, time: number): TraceSpan[] => {
+    const at = timeline.start + time;
+    const result: TraceSpan[] = [];
+    for (const span of timeline.spans) {
+        if (getSpanStart(span) > at) break;
+        result.push(getSpanAt(span, at));
+    }
+    return result;
+};
+
+/**
+ * The spans that changed when moving forward from `from` to `to`: those
+ * that started, were still running, or finished in between. Merging these
+ * into the tree at `from` gives the tree at `to`.
+ */
+export const getReplayChanges = (timeline: ReplayTimeline, from: number, to: number): TraceSpan[] => {
+    const previous = timeline.start + from;
+    const at = timeline.start + to;
+    const result: TraceSpan[] = [];
+    for (const span of timeline.spans) {
+        if (getSpanStart(span) > at) break;
+        if (isRunningAt(span, previous)) result.push(getSpanAt(span, at));
+    }
+    return result;
+};
+
+/**
+ * The span to follow at `time`: the latest one to have started among those
+ * still running, or else the last one to have finished.
+ */
+export const getActiveReplaySpanId = (timeline: ReplayTimeline, time: number): string | null => {
+    const at = timeline.start + time;
+    let running: TraceSpan | null = null;
+    let finished: TraceSpan | null = null;
+    for (const span of timeline.spans) {
+        if (getSpanStart(span) > at) break;
+        if (isRunningAt(span, at)) {
+            running = span;
+        } else if (!finished || getSpanEnd(span) >= getSpanEnd(finished)) {
+            finished = span;
+        }
+    }
+    return (running ?? finished)?.id ?? null;
+};
+
+// The nearest event after (direction 1) or before (-1) `time`, or the end
+// (start) of the trace if there is none
+export const getAdjacentEventTime = (timeline: ReplayTimeline, time: number, direction: 1 | -1): number => {
+    if (direction > 0) return timeline.eventTimes.find(eventTime => eventTime > time) ?? timeline.duration;
+    return [...timeline.eventTimes].reverse().find(eventTime => eventTime < time) ?? 0;
+};
@@ -0,0 +1,74 @@
+import type { SessionSummary, TraceData } from './api';
+
+export const sessionPath = (groupId: string) => `/sessions/${encodeURIComponent(groupId)}`;
+
+// The trace viewer, opened with the session's step-through controls
+export const sessionTracePath = (groupId: string, traceId: string) => `${sessionPath(groupId)}/trace/${encodeURIComponent(traceId)}`;
+
+const elapsed = (from: string, to: string) => Math.max(0, new Date(to).getTime() - new Date(from).getTime());
+
+/**
+ * Wall-clock time from a trace's creation to its last update.
+ */
+export const getTraceDuration = (trace: TraceData) => elapsed(trace.created_at, trace.updated_at);
+
+/**
+ * Time from the start of the first trace to the last update of any trace.
+ */
+export const getSessionDuration = (session: Pick<SessionSummary, 'started_at' | 'ended_at'>) =>
+    elapsed(session.started_at, session.ended_at);
+
+/**
+ * The same totals the sessions endpoint reports, computed from the traces
+ * themselves so the detail page stays in step as they are loaded.
+ */
+export const summarizeSessionTraces = (groupId: string, traces: TraceData[]): SessionSummary | null => {
+    if (traces.length === 0) return null;
+
+    const byCreation = [...traces].sort((a, b) => a.created_at.localeCompare(b.created_at));
+    const endedAt = traces.reduce(
+        (latest, trace) => (trace.updated_at > latest ? trace.updated_at : latest),
+        byCreation[0].updated_at
+    );
+
+    return {
+        group_id: groupId,
+        trace_count: traces.length,
+        error_count: traces.reduce((total, trace) => total + (trace.error_count ?? 0), 0),
+        workflow_names: [...new Set(byCreation.map(trace => trace.workflow_name))],
+        started_at: byCreation[0].created_at,
+        ended_at: endedAt,
+        isComplete: traces.every(trace => trace.isComplete)
+    };
+};
+
+export interface SessionPosition {
+    // -1 when the trace is not part of the session
+    index: number;
+    previous: TraceData | null;
+    next: TraceData | null;
+}
+
+/**
+ * Where a trace sits in its session's ordered traces, with its neighbours.
+ */
+export const getSessionPosition = (traces: TraceData[], traceId: string | undefined): SessionPosition => {
+    const index = traces.findIndex(trace => trace.trace_id === traceId);
+    return {
+        index,
+        previous: index > 0 ? traces[index - 1] : null,
+        next: index >= 0 && index < traces.length - 1 ? traces[index + 1] : null
+    };
+};
+
+/**
+ * Coarse duration for session-length spans of time, e.g. "4m 12s".
+ */
+export const formatElapsed = (ms: number) => {
+    const seconds = Math.round(ms / 1000);
+    if (seconds < 60) return `${seconds}s`;
+    const minutes = Math.floor(seconds / 60);
+    if (minutes < 60) return `${minutes}m ${seconds % 60}s`;
+    const hours = Math.floor(minutes / 60);
+    return `${hours}h ${minutes % 60}m`;
+};
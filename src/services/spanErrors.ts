@@ -0,0 +1,34 @@
+import type { SpanNode } from './traceTree';
+
+/**
+ * Failing spans in tree order.
+ */
+export const collectErrorSpans = (roots: SpanNode[]): SpanNode[] => {
+    const errors: SpanNode[] = [];
+    const visit = (nodes: SpanNode[]) => {
+        nodes.forEach(node => {
+            if (node.error) errors.push(node);
+            visit(node.children);
+        });
+    };
+    visit(roots);
+    return errors;
+};
+
+/**
+ * Number of failing descendants per span, for spans that have any. Used to
+ * badge ancestors so errors stay visible when their subtree is collapsed.
+ */
+export const countDescendantErrors = (roots: SpanNode[]): Map<string, number> => {
+    const counts = new Map<string, number>();
+    const visit = (node: SpanNode): number => {
+        const descendantErrors = node.children.reduce(
+            (total, child) => total + visit(child) + (child.error ? 1 : 0),
+            0
+        );
+        if (descendantErrors > 0) counts.set(node.id, descendantErrors);
+        return descendantErrors;
+    };
+    roots.forEach(visit);
+    return counts;
+};
@@ -0,0 +1,80 @@
+import { getSpanDuration } from './spanLayout';
+import type { TraceSpan } from './spans';
+import type { SpanNode } from './traceTree';
+
+// The categories the tree distinguishes visually (see getSpanIcon)
+export type SpanCategory = 'agent' | 'handoff' | 'function' | 'file' | 'generation' | 'other';
+
+export const SPAN_CATEGORIES: { category: SpanCategory; label: string }[] = [
+    { category: 'agent', label: 'Agents' },
+    { category: 'handoff', label: 'Handoffs' },
+    { category: 'function', label: 'Functions' },
+    { category: 'file', label: 'File operations' },
+    { category: 'generation', label: 'Generations' },
+    { category: 'other', label: 'Other' }
+];
+
+export interface SpanFilterSettings {
+    hiddenCategories: SpanCategory[];
+    errorsOnly: boolean;
+    minDurationMs: number;
+}
+
+export const DEFAULT_SPAN_FILTERS: SpanFilterSettings = {
+    hiddenCategories: [],
+    errorsOnly: false,
+    minDurationMs: 0
+};
+
+// Keeps the agent/function/handoff structure and drops LLM round-trips
+export const HIDE_NOISE_FILTERS: SpanFilterSettings = {
+    hiddenCategories: ['generation', 'other'],
+    errorsOnly: false,
+    minDurationMs: 0
+};
+
+export const getSpanCategory = (span: TraceSpan): SpanCategory => {
+    const { type, name } = span.span_data;
+    if (type === 'agent' || type === 'handoff' || type === 'function') return type;
+    if (name === 'read_file' || name === 'list_files') return 'file';
+    if (name?.startsWith('POST') || type === 'generation') return 'generation';
+    return 'other';
+};
+
+export const isFilterActive = (filters: SpanFilterSettings) =>
+    filters.hiddenCategories.length > 0 || filters.errorsOnly || filters.minDurationMs > 0;
+
+const isSpanVisible = (span: TraceSpan, filters: SpanFilterSettings) =>
+    !filters.hiddenCategories.includes(getSpanCategory(span)) &&
+    (!filters.errorsOnly || span.error !== null) &&
+    getSpanDuration(span) >= filters.minDurationMs;
+
+/**
+ * Removes spans hidden by the filters, moving their visible descendants up to
+ * the nearest visible ancestor so the tree stays connected. Subtrees that come
+ * through unchanged keep their node identity.
+ */
+export const filterSpanTree = (roots: SpanNode[], filters: SpanFilterSettings): SpanNode[] => {
+    if (!isFilterActive(filters)) return roots;
+
+    const filterNodes = (nodes: SpanNode[]): SpanNode[] => {
+        const result: SpanNode[] = [];
+        nodes.forEach(node => {
+            const children = filterNodes(node.children);
+            if (!isSpanVisible(node, filters)) {
+                result.push(...children);
+                return;
+            }
+
+            const unchanged = children.length === node.children.length &&
+                children.every((child, index) => child === node.children[index]);
+            result.push(unchanged ? node : { ...node, children });
+        });
+        return result;
+    };
+
+    return filterNodes(roots);
+};
+
+export const countSpans = (roots: SpanNode[]): number =>
+    roots.reduce((count, node) => count + 1 + countSpans(node.children), 0);
@@ -0,0 +1,174 @@
+import type { TraceSpan } from './spans';
+import type { SpanNode } from './traceTree';
+
+export interface SpanRowLayout {
+    span: SpanNode;
+    depth: number;
+    isExpanded: boolean;
+}
+
+export interface TimelineBounds {
+    start: number;
+    duration: number;
+}
+
+// What the waterfall rows need to draw their bars: the visible window, the
+// trace start the axis is relative to, and the axis ticks as offsets from it
+export interface WaterfallView {
+    view: TimelineBounds;
+    traceStart: number;
+    ticks: number[];
+}
+
+export const getSpanStart = (span: TraceSpan) => new Date(span.started_at).getTime();
+
+export const getSpanEnd = (span: TraceSpan) => new Date(span.ended_at).getTime();
+
+export const getSpanDuration = (span: TraceSpan) => getSpanEnd(span) - getSpanStart(span);
+
+/**
+ * Flattens the visible part of the hierarchy (roots plus the children of
+ * expanded spans) into rows in display order. Iterative so very deep traces
+ * don't blow the stack.
+ */
+export const flattenSpanTree = (roots: SpanNode[], expandedSpans: Set<string>): SpanRowLayout[] => {
+    const rows: SpanRowLayout[] = [];
+    const stack: { span: SpanNode; depth: number }[] = [];
+
+    for (let i = roots.length - 1; i >= 0; i--) {
+        stack.push({ span: roots[i], depth: 0 });
+    }
+
+    while (stack.length > 0) {
+        const { span, depth } = stack.pop()!;
+        const isExpanded = expandedSpans.has(span.id);
+        rows.push({ span, depth, isExpanded });
+
+        if (isExpanded) {
+            for (let i = span.children.length - 1; i >= 0; i--) {
+                stack.push({ span: span.children[i], depth: depth + 1 });
+            }
+        }
+    }
+
+    return rows;
+};
+
+// Every span under the roots, each parent before its children
+const collectSpans = (roots: SpanNode[]): SpanNode[] => {
+    const spans: SpanNode[] = [];
+    const stack = [...roots];
+    while (stack.length > 0) {
+        const span = stack.pop()!;
+        spans.push(span);
+        stack.push(...span.children);
+    }
+    return spans;
+};
+
+/**
+ * When each span's subtree finished: the latest end among the span and
+ * everything under it. A span still running in a live trace ends where it
+ * started (see parseSpan), so its children are what show how far it got.
+ */
+const getSubtreeEnds = (roots: SpanNode[]): Map<string, number> => {
+    const ends = new Map<string, number>();
+    // Children come after their parent, so walking backwards sees them first
+    collectSpans(roots).reverse().forEach(span => {
+        ends.set(span.id, span.children.reduce((end, child) => Math.max(end, ends.get(child.id)!), getSpanEnd(span)));
+    });
+    return ends;
+};
+
+// Time range covered by every span in the trace, used to scale the timeline
+// bars. Not just the roots: in a live trace they are still running.
+export const getTimelineBounds = (roots: SpanNode[]): TimelineBounds => {
+    const spans = collectSpans(roots);
+    if (!spans.length) return { start: 0, duration: 0 };
+
+    let start = getSpanStart(spans[0]);
+    let end = getSpanEnd(spans[0]);
+    spans.forEach(span => {
+        start = Math.min(start, getSpanStart(span));
+        end = Math.max(end, getSpanEnd(span));
+    });
+
+    return { start, duration: end - start };
+};
+
+// Narrowest window the waterfall can be zoomed to
+export const MIN_VIEW_DURATION_MS = 1;
+
+/**
+ * Keeps a zoomed waterfall window inside the trace and at least
+ * MIN_VIEW_DURATION_MS wide.
+ */
+export const clampTimelineView = (view: TimelineBounds, bounds: TimelineBounds): TimelineBounds => {
+    if (bounds.duration <= 0) return bounds;
+
+    const duration = Math.min(Math.max(view.duration, MIN_VIEW_DURATION_MS), bounds.duration);
+    const start = Math.min(Math.max(view.start, bounds.start), bounds.start + bounds.duration - duration);
+    return start === view.start && duration === view.duration ? view : { start, duration };
+};
+
+// Scales the window by `factor` (< 1 zooms in) around `anchor`, a 0-1
+// position within it that stays put, e.g. the cursor
+export const zoomTimelineView = (view: TimelineBounds, bounds: TimelineBounds, factor: number, anchor = 0.5) => {
+    const duration = view.duration * factor;
+    const pivot = view.start + view.duration * anchor;
+    return clampTimelineView({ start: pivot - duration * anchor, duration }, bounds);
+};
+
+export const panTimelineView = (view: TimelineBounds, bounds: TimelineBounds, deltaMs: number) =>
+    clampTimelineView({ start: view.start + deltaMs, duration: view.duration }, bounds);
+
+/**
+ * Axis ticks for the visible window as offsets from the trace start, spaced
+ * at a round 1/2/5 step so there are at most `maxTicks` of them.
+ */
+export const getTimeTicks = (view: TimelineBounds, bounds: TimelineBounds, maxTicks: number): number[] => {
+    if (view.duration <= 0 || maxTicks <= 0) return [];
+
+    const roughStep = Math.max(view.duration / maxTicks, MIN_VIEW_DURATION_MS);
+    const magnitude = 10 ** Math.floor(Math.log10(roughStep));
+    const step = [1, 2, 5, 10].map(multiple => multiple * magnitude).find(candidate => candidate >= roughStep)!;
+
+    const ticks: number[] = [];
+    const firstIndex = Math.ceil((view.start - bounds.start) / step);
+    // Multiplied rather than accumulated so sub-millisecond steps don't drift
+    for (let index = firstIndex; bounds.start + index * step <= view.start + view.duration; index++) {
+        ticks.push(index * step);
+    }
+    return ticks;
+};
+
+/**
+ * Spans on the critical path: the chain of work that determined when the
+ * trace finished. Walking back from the end of a span, the child that
+ * finished last is what the span was waiting on; before that child started,
+ * it was waiting on whichever child finished last before then, and so on.
+ * Roots are treated as the children of the whole trace. Spans end where their
+ * subtree does, the same as for the timeline bounds, so a span still running
+ * in a live trace leads on to the children it is waiting on.
+ */
+export const getCriticalPath = (roots: SpanNode[]): Set<string> => {
+    const ends = getSubtreeEnds(roots);
+    const getEnd = (span: SpanNode) => ends.get(span.id)!;
+    const path = new Set<string>();
+    const pending: { spans: SpanNode[]; end: number }[] = [{ spans: roots, end: Infinity }];
+
+    while (pending.length > 0) {
+        const { spans, end } = pending.pop()!;
+        const byEnd = [...spans].sort((a, b) => getEnd(b) - getEnd(a));
+
+        let cursor = end;
+        byEnd.forEach(span => {
+            if (getEnd(span) > cursor) return;
+            path.add(span.id);
+            pending.push({ spans: span.children, end: getEnd(span) });
+            cursor = getSpanStart(span);
+        });
+    }
+
+    return path;
+};
@@ -0,0 +1,121 @@
+import type { TraceSpan } from './spans';
+import type { SpanNode } from './traceTree';
+
+// Query syntax: whitespace-separated terms that must all match. A term can be
+// scoped to a field (`type:function name:read_file`), quoted to include spaces
+// (`"config.yaml not found"`), or be a regular expression (`/read_.*/` or
+// `name:/^list_/i`). Unscoped terms match any field.
+
+export type SearchField = 'name' | 'type' | 'agent' | 'input' | 'output';
+
+export const SEARCH_FIELDS: SearchField[] = ['name', 'type', 'agent', 'input', 'output'];
+
+interface SearchTerm {
+    field: SearchField | null;
+    test: (text: string) => boolean;
+}
+
+export interface SearchQuery {
+    terms: SearchTerm[];
+    error: string | null;
+}
+
+const TOKEN_PATTERN = /(?:(\w+):)?(?:"([^"]*)"|\/((?:\\.|[^/\\])+)\/([gimsuy]*)|(\S+))/g;
+
+export const parseSearchQuery = (query: string): SearchQuery => {
+    const terms: SearchTerm[] = [];
+
+    for (const match of query.matchAll(TOKEN_PATTERN)) {
+        const [token, fieldName, quoted, pattern, flags, plain] = match;
+        const field = SEARCH_FIELDS.find(candidate => candidate === fieldName?.toLowerCase()) ?? null;
+
+        // Something like `http://...` isn't a field scope, search for it as-is
+        if (fieldName && !field) {
+            const needle = token.toLowerCase();
+            terms.push({ field: null, test: text => text.toLowerCase().includes(needle) });
+            continue;
+        }
+
+        if (pattern !== undefined) {
+            try {
+                // Case-insensitive unless flags are given explicitly; `g` and
+                // `y` would make test() depend on lastIndex left over from the
+                // previous span, so they're dropped.
+                const regex = new RegExp(pattern, (flags || 'i').replace(/[gy]/g, ''));
+                terms.push({ field, test: text => regex.test(text) });
+            } catch (error) {
+                return { terms: [], error: (error as Error).message };
+            }
+            continue;
+        }
+
+        const needle = (quoted ?? plain ?? '').toLowerCase();
+        if (needle) {
+            terms.push({ field, test: text => text.toLowerCase().includes(needle) });
+        }
+    }
+
+    return { terms, error: null };
+};
+
+// Payload JSON is by far the most expensive text to build; spans are immutable
+// once parsed, so it's cached per span object.
+const payloadCache = new WeakMap<TraceSpan, { input: string; output: string }>();
+
+const getPayloadText = (span: TraceSpan) => {
+    let cached = payloadCache.get(span);
+    if (!cached) {
+        cached = {
+            input: span.span_data.input ? JSON.stringify(span.span_data.input) : '',
+            output: span.span_data.output ? JSON.stringify(span.span_data.output) : ''
+        };
+        payloadCache.set(span, cached);
+    }
+    return cached;
+};
+
+const getFieldText = (span: TraceSpan, field: SearchField): string => {
+    switch (field) {
+        case 'name':
+            return span.span_data.name || '';
+        case 'type':
+            return span.span_data.type;
+        case 'agent':
+            if (span.span_data.type === 'agent') return span.span_data.name;
+            if (span.span_data.type === 'handoff') {
+                return [span.span_data.from_agent, span.span_data.to_agent].filter(Boolean).join(' ');
+            }
+            return '';
+        case 'input':
+            return getPayloadText(span).input;
+        case 'output':
+            return getPayloadText(span).output;
+    }
+};
+
+export const spanMatchesQuery = (span: TraceSpan, query: SearchQuery): boolean =>
+    query.terms.length > 0 &&
+    query.terms.every(term => term.field
+        ? term.test(getFieldText(span, term.field))
+        : SEARCH_FIELDS.some(field => term.test(getFieldText(span, field))));
+
+/**
+ * Ids of all spans matching the query, in tree order, including spans under
+ * collapsed parents.
+ */
+export const findMatchingSpans = (roots: SpanNode[], query: SearchQuery): string[] => {
+    if (query.terms.length === 0) return [];
+
+    const matches: string[] = [];
+    const stack = [...roots].reverse();
+    while (stack.length > 0) {
+        const span = stack.pop()!;
+        if (spanMatchesQuery(span, query)) {
+            matches.push(span.id);
+        }
+        for (let i = span.children.length - 1; i >= 0; i--) {
+            stack.push(span.children[i]);
+        }
+    }
+    return matches;
+};
@@ -0,0 +1,398 @@
+// Typed model for trace spans and a validating parser that turns raw API or
+// file JSON into it. The parser is lenient: anything it can coerce is kept and
+// reported as a warning, and only spans it can't place in a tree at all (no id)
+// are dropped and reported as errors.
+
+export type SpanType = 'agent' | 'function' | 'handoff' | 'generation' | 'response' | 'guardrail' | 'custom';
+
+export const SPAN_TYPES: SpanType[] = ['agent', 'function', 'handoff', 'generation', 'response', 'guardrail', 'custom'];
+
+/**
+ * A chat-style message as recorded in span inputs/outputs. The first input
+ * message of agent and generation spans also carries the request settings
+ * (model, temperature, ...) and the system instructions as its content.
+ */
+export interface SpanMessage {
+    role?: string;
+    content?: unknown;
+    model?: string;
+    tokens?: number;
+    temperature?: number;
+    response_format?: string;
+    [key: string]: unknown;
+}
+
+export interface TokenUsage {
+    input_tokens?: number;
+    output_tokens?: number;
+    total_tokens?: number;
+}
+
+interface BaseSpanData {
+    name?: string;
+    input?: SpanMessage[];
+    output?: SpanMessage[];
+}
+
+export interface AgentSpanData extends BaseSpanData {
+    type: 'agent';
+    name: string;
+    tools?: string[];
+    handoffs?: string[];
+    output_type?: string | null;
+}
+
+export interface FunctionSpanData extends BaseSpanData {
+    type: 'function';
+    name: string;
+}
+
+export interface HandoffSpanData extends BaseSpanData {
+    type: 'handoff';
+    from_agent?: string;
+    to_agent?: string;
+}
+
+export interface GenerationSpanData extends BaseSpanData {
+    type: 'generation';
+    model?: string;
+    model_config?: Record<string, unknown>;
+    usage?: TokenUsage;
+}
+
+export interface ResponseSpanData extends BaseSpanData {
+    type: 'response';
+    response_id?: string;
+    usage?: TokenUsage;
+}
+
+export interface GuardrailSpanData extends BaseSpanData {
+    type: 'guardrail';
+    name: string;
+    triggered: boolean;
+}
+
+export interface CustomSpanData extends BaseSpanData {
+    type: 'custom';
+    name: string;
+    data?: Record<string, unknown>;
+}
+
+export type SpanData =
+    | AgentSpanData
+    | FunctionSpanData
+    | HandoffSpanData
+    | GenerationSpanData
+    | ResponseSpanData
+    | GuardrailSpanData
+    | CustomSpanData;
+
+export interface SpanError {
+    message: string;
+    data?: Record<string, unknown> | null;
+}
+
+export interface TraceSpan {
+    object: string;
+    id: string;
+    trace_id: string;
+    parent_id: string | null;
+    started_at: string;
+    ended_at: string;
+    span_data: SpanData;
+    error: SpanError | null;
+}
+
+export interface SpanIssue {
+    // null when the span didn't have a usable id
+    spanId: string | null;
+    // position of the span in the input it was parsed from
+    index: number;
+    path: string;
+    message: string;
+    severity: 'error' | 'warning';
+}
+
+export interface ParseSpansResult {
+    spans: TraceSpan[];
+    issues: SpanIssue[];
+}
+
+type RawObject = Record<string, unknown>;
+
+const isObject = (value: unknown): value is RawObject =>
+    typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const isValidTimestamp = (value: unknown): value is string =>
+    typeof value === 'string' && !Number.isNaN(new Date(value).getTime());
+
+interface SpanReporter {
+    warn: (path: string, message: string) => void;
+    fail: (path: string, message: string) => void;
+}
+
+const createReporter = (issues: SpanIssue[], index: number, spanId: string | null): SpanReporter => ({
+    warn: (path, message) => {
+        issues.push({ spanId, index, path, message, severity: 'warning' });
+    },
+    fail: (path, message) => {
+        issues.push({ spanId, index, path, message, severity: 'error' });
+    }
+});
+
+const readString = (raw: RawObject, key: string, path: string, report: SpanReporter): string | undefined => {
+    const value = raw[key];
+    if (value === undefined || value === null) return undefined;
+    if (typeof value === 'string') return value;
+    report.warn(`${path}.${key}`, `expected a string, got ${typeof value}`);
+    return String(value);
+};
+
+const readStringList = (raw: RawObject, key: string, path: string, report: SpanReporter): string[] | undefined => {
+    const value = raw[key];
+    if (value === undefined || value === null) return undefined;
+    if (Array.isArray(value) && value.every(item => typeof item === 'string')) return value;
+    report.warn(`${path}.${key}`, 'expected a list of strings');
+    return Array.isArray(value) ? value.map(item => String(item)) : undefined;
+};
+
+const readUsage = (raw: RawObject, path: string, report: SpanReporter): TokenUsage | undefined => {
+    const value = raw.usage;
+    if (value === undefined || value === null) return undefined;
+    if (!isObject(value)) {
+        report.warn(`${path}.usage`, 'expected an object');
+        return undefined;
+    }
+
+    const usage: TokenUsage = {};
+    (['input_tokens', 'output_tokens', 'total_tokens'] as const).forEach(key => {
+        if (value[key] === undefined || value[key] === null) return;
+        if (typeof value[key] === 'number') {
+            usage[key] = value[key];
+        } else {
+            report.warn(`${path}.usage.${key}`, 'expected a number');
+        }
+    });
+    return usage;
+};
+
+// Inputs and outputs should be lists of message objects. Other shapes are
+// wrapped so the UI always sees the same structure.
+const readMessages = (raw: RawObject, key: 'input' | 'output', path: string, report: SpanReporter): SpanMessage[] | undefined => {
+    const value = raw[key];
+    if (value === undefined || value === null) return undefined;
+
+    if (!Array.isArray(value)) {
+        report.warn(`${path}.${key}`, `expected a list of messages, got ${typeof value}`);
+        return [isObject(value) ? value : { content: value }];
+    }
+
+    return value.map((item, itemIndex) => {
+        if (isObject(item)) return item;
+        report.warn(`${path}.${key}[${itemIndex}]`, `expected a message object, got ${typeof item}`);
+        return { content: item };
+    });
+};
+
+const parseSpanData = (raw: unknown, report: SpanReporter): SpanData => {
+    const path = 'span_data';
+    if (!isObject(raw)) {
+        report.warn(path, 'missing span_data, shown as a custom span');
+        return { type: 'custom', name: 'unknown' };
+    }
+
+    const rawType = readString(raw, 'type', path, report);
+    const base: BaseSpanData = {
+        name: readString(raw, 'name', path, report),
+        input: readMessages(raw, 'input', path, report),
+        output: readMessages(raw, 'output', path, report)
+    };
+
+    const requireName = (fallback: string) => {
+        if (!base.name) {
+            report.warn(`${path}.name`, `missing name for ${rawType} span`);
+        }
+        return base.name || fallback;
+    };
+
+    switch (rawType) {
+        case 'agent':
+            return {
+                ...base,
+                type: 'agent',
+                name: requireName('agent'),
+                tools: readStringList(raw, 'tools', path, report),
+                handoffs: readStringList(raw, 'handoffs', path, report),
+                output_type: readString(raw, 'output_type', path, report)
+            };
+        case 'function':
+            return { ...base, type: 'function', name: requireName('function') };
+        case 'handoff': {
+            const toAgent = readString(raw, 'to_agent', path, report);
+            if (!toAgent) {
+                report.warn(`${path}.to_agent`, 'handoff without a target agent');
+            }
+            return {
+                ...base,
+                type: 'handoff',
+                from_agent: readString(raw, 'from_agent', path, report),
+                to_agent: toAgent
+            };
+        }
+        case 'generation':
+            return {
+                ...base,
+                type: 'generation',
+                model: readString(raw, 'model', path, report),
+                model_config: isObject(raw.model_config) ? raw.model_config : undefined,
+                usage: readUsage(raw, path, report)
+            };
+        case 'response':
+            return {
+                ...base,
+                type: 'response',
+                response_id: readString(raw, 'response_id', path, report),
+                usage: readUsage(raw, path, report)
+            };
+        case 'guardrail':
+            if (typeof raw.triggered !== 'boolean') {
+                report.warn(`${path}.triggered`, 'expected a boolean');
+            }
+            return { ...base, type: 'guardrail', name: requireName('guardrail'), triggered: raw.triggered === true };
+        case 'custom':
+            return {
+                ...base,
+                type: 'custom',
+                name: requireName('custom'),
+                data: isObject(raw.data) ? raw.data : undefined
+            };
+        default:
+            report.warn(`${path}.type`, rawType
+                ? `unknown span type "${rawType}", shown as a custom span`
+                : 'missing span type, shown as a custom span');
+            return {
+                ...base,
+                type: 'custom',
+                name: base.name || rawType || 'unknown',
+                data: raw
+            };
+    }
+};
+
+const parseSpanError = (raw: unknown, report: SpanReporter): SpanError | null => {
+    if (raw === undefined || raw === null) return null;
+    if (typeof raw === 'string') return { message: raw };
+    if (!isObject(raw)) {
+        report.warn('error', `expected an error object, got ${typeof raw}`);
+        return { message: String(raw) };
+    }
+
+    if (typeof raw.message !== 'string') {
+        report.warn('error.message', 'error without a message');
+    }
+    return {
+        message: typeof raw.message === 'string' ? raw.message : 'Unknown error',
+        data: isObject(raw.data) ? raw.data : null
+    };
+};
+
+const parseSpan = (raw: unknown, index: number, issues: SpanIssue[]): TraceSpan | null => {
+    if (!isObject(raw)) {
+        createReporter(issues, index, null).fail('', 'span is not an object');
+        return null;
+    }
+
+    const id = typeof raw.id === 'string' && raw.id ? raw.id : null;
+    const report = createReporter(issues, index, id);
+    if (!id) {
+        report.fail('id', 'span has no id and was skipped');
+        return null;
+    }
+
+    if (raw.parent_id !== undefined && raw.parent_id !== null && typeof raw.parent_id !== 'string') {
+        report.warn('parent_id', 'expected a string or null, span shown as a root');
+    }
+
+    let startedAt = raw.started_at;
+    if (!isValidTimestamp(startedAt)) {
+        report.warn('started_at', 'missing or invalid timestamp');
+        startedAt = isValidTimestamp(raw.ended_at) ? raw.ended_at : new Date(0).toISOString();
+    }
+    let endedAt = raw.ended_at;
+    if (!isValidTimestamp(endedAt)) {
+        // Spans that are still running in a live trace have no end yet
+        if (endedAt !== undefined && endedAt !== null) {
+            report.warn('ended_at', 'invalid timestamp');
+        }
+        endedAt = startedAt;
+    }
+
+    return {
+        object: typeof raw.object === 'string' ? raw.object : 'trace.span',
+        id,
+        trace_id: typeof raw.trace_id === 'string' ? raw.trace_id : '',
+        parent_id: typeof raw.parent_id === 'string' && raw.parent_id ? raw.parent_id : null,
+        started_at: startedAt as string,
+        ended_at: endedAt as string,
+        span_data: parseSpanData(raw.span_data, report),
+        error: parseSpanError(raw.error, report)
+    };
+};
+
+export const parseSpans = (raw: unknown): ParseSpansResult => {
+    const issues: SpanIssue[] = [];
+    if (!Array.isArray(raw)) {
+        issues.push({ spanId: null, index: -1, path: 'spans', message: 'expected a list of spans', severity: 'error' });
+        return { spans: [], issues };
+    }
+
+    const spans = raw
+        .map((item, index) => parseSpan(item, index, issues))
+        .filter((span): span is TraceSpan => span !== null);
+
+    return { spans, issues };
+};
+
+// Accessors for values that different producers store in different places:
+// the typed span_data fields first, then the first input message.
+
+const firstInput = (span: TraceSpan): SpanMessage | undefined => span.span_data.input?.[0];
+
+export const getSpanModel = (span: TraceSpan): string | undefined => {
+    if (span.span_data.type === 'generation' && span.span_data.model) {
+        return span.span_data.model;
+    }
+    const model = firstInput(span)?.model;
+    return typeof model === 'string' ? model : undefined;
+};
+
+export const getSpanTokens = (span: TraceSpan): number | undefined => {
+    if (span.span_data.type === 'generation' || span.span_data.type === 'response') {
+        const usage = span.span_data.usage;
+        if (usage?.total_tokens !== undefined) return usage.total_tokens;
+        if (usage?.input_tokens !== undefined || usage?.output_tokens !== undefined) {
+            return (usage.input_tokens || 0) + (usage.output_tokens || 0);
+        }
+    }
+    const tokens = firstInput(span)?.tokens;
+    return typeof tokens === 'number' ? tokens : undefined;
+};
+
+export const getSpanTemperature = (span: TraceSpan): number | undefined => {
+    if (span.span_data.type === 'generation') {
+        const temperature = span.span_data.model_config?.temperature;
+        if (typeof temperature === 'number') return temperature;
+    }
+    const temperature = firstInput(span)?.temperature;
+    return typeof temperature === 'number' ? temperature : undefined;
+};
+
+export const getSpanResponseFormat = (span: TraceSpan): string | undefined => {
+    const format = firstInput(span)?.response_format;
+    return typeof format === 'string' ? format : undefined;
+};
+
+export const getSpanInstructions = (span: TraceSpan): string | undefined => {
+    const content = firstInput(span)?.content;
+    return typeof content === 'string' && content ? content : undefined;
+};
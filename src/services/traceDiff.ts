@@ -0,0 +1,276 @@
+import { getSpanTokens } from './spans';
+import type { TraceSpan } from './spans';
+import { getSpanDuration } from './spanLayout';
+import type { SpanNode } from './traceTree';
+
+export type DiffStatus = 'unchanged' | 'changed' | 'added' | 'removed';
+
+export type SpanDiffField = 'duration' | 'tokens' | 'input' | 'output' | 'error';
+
+export interface SpanDiffNode {
+    // Position in the aligned tree; stable for a given pair of traces
+    id: string;
+    status: DiffStatus;
+    before: SpanNode | null;
+    after: SpanNode | null;
+    changes: SpanDiffField[];
+    children: SpanDiffNode[];
+    // Whether any descendant differs, so unchanged subtrees can be skipped
+    hasChangesBelow: boolean;
+}
+
+export interface DiffRowLayout {
+    node: SpanDiffNode;
+    depth: number;
+    isExpanded: boolean;
+}
+
+export interface DiffLine {
+    type: 'same' | 'added' | 'removed';
+    text: string;
+}
+
+export interface DiffSummary {
+    added: number;
+    removed: number;
+    changed: number;
+}
+
+// Durations always jitter between runs; only flag differences above this
+// fraction of the slower run
+const DURATION_CHANGE_THRESHOLD = 0.25;
+
+// Past this many LCS cells the table gets too big to build: a line diff shows
+// both sides whole instead, and sibling spans are matched up greedily
+const MAX_LCS_CELLS = 4_000_000;
+
+// Spans are matched up by what they are rather than by id, which differs
+// between runs
+const getAlignmentKey = (span: TraceSpan) => {
+    const name = span.span_data.type === 'handoff' ? span.span_data.to_agent : span.span_data.name;
+    return `${span.span_data.type}:${name ?? ''}`;
+};
+
+const toJson = (value: unknown) => (value === undefined ? '' : JSON.stringify(value, null, 2));
+
+/**
+ * Indices of the longest common subsequence of `a` and `b` under `equals`,
+ * as [indexInA, indexInB] pairs in order.
+ */
+const longestCommonSubsequence = <T>(a: T[], b: T[], equals: (x: T, y: T) => boolean): [number, number][] => {
+    const lengths = Array.from({ length: a.length + 1 }, () => new Uint32Array(b.length + 1));
+    for (let i = a.length - 1; i >= 0; i--) {
+        for (let j = b.length - 1; j >= 0; j--) {
+            lengths[i][j] = equals(a[i], b[j])
+                ? lengths[i + 1][j + 1] + 1
+                : Math.max(lengths[i + 1][j], lengths[i][j + 1]);
+        }
+    }
+
+    const pairs: [number, number][] = [];
+    let i = 0;
+    let j = 0;
+    while (i < a.length && j < b.length) {
+        if (equals(a[i], b[j])) {
+            pairs.push([i, j]);
+            i++;
+            j++;
+        } else if (lengths[i + 1][j] >= lengths[i][j + 1]) {
+            i++;
+        } else {
+            j++;
+        }
+    }
+    return pairs;
+};
+
+/**
+ * A cheap stand-in for the longest common subsequence of `a` and `b` by
+ * `key`: each item of `a` is paired with the first unpaired item of `b` with
+ * the same key after the last pair, so pairs stay in order on both sides.
+ */
+const greedyCommonSubsequence = <T>(a: T[], b: T[], key: (item: T) => string): [number, number][] => {
+    const indicesByKey = new Map<string, number[]>();
+    b.forEach((item, index) => {
+        const indices = indicesByKey.get(key(item));
+        if (indices) indices.push(index);
+        else indicesByKey.set(key(item), [index]);
+    });
+
+    // Per key, the first of its indices in `b` that may still be paired
+    const cursors = new Map<string, number>();
+    const pairs: [number, number][] = [];
+    let last = -1;
+    a.forEach((item, index) => {
+        const itemKey = key(item);
+        const indices = indicesByKey.get(itemKey);
+        if (!indices) return;
+        let cursor = cursors.get(itemKey) ?? 0;
+        // Indices at or before the last pair can never be used again
+        while (cursor < indices.length && indices[cursor] <= last) cursor++;
+        if (cursor < indices.length) {
+            last = indices[cursor];
+            pairs.push([index, last]);
+            cursor++;
+        }
+        cursors.set(itemKey, cursor);
+    });
+    return pairs;
+};
+
+export const getSpanChanges = (before: TraceSpan, after: TraceSpan): SpanDiffField[] => {
+    const changes: SpanDiffField[] = [];
+
+    const durationBefore = getSpanDuration(before);
+    const durationAfter = getSpanDuration(after);
+    const slower = Math.max(durationBefore, durationAfter);
+    if (slower > 0 && Math.abs(durationAfter - durationBefore) / slower > DURATION_CHANGE_THRESHOLD) {
+        changes.push('duration');
+    }
+    if (getSpanTokens(before) !== getSpanTokens(after)) changes.push('tokens');
+    if (toJson(before.span_data.input) !== toJson(after.span_data.input)) changes.push('input');
+    if (toJson(before.span_data.output) !== toJson(after.span_data.output)) changes.push('output');
+    if (before.error?.message !== after.error?.message) changes.push('error');
+
+    return changes;
+};
+
+// A span that only exists on one side, along with everything under it
+const buildOneSided = (span: SpanNode, status: 'added' | 'removed', id: string): SpanDiffNode => ({
+    id,
+    status,
+    before: status === 'removed' ? span : null,
+    after: status === 'added' ? span : null,
+    changes: [],
+    children: span.children.map((child, index) => buildOneSided(child, status, `${id}/${index}`)),
+    hasChangesBelow: span.children.length > 0
+});
+
+/**
+ * Aligns two span hierarchies and marks what was added, removed or changed.
+ * Siblings are matched by type and name, keeping their order (a longest
+ * common subsequence), and matched spans have their children aligned the same
+ * way. Spans that only appear on one side are placed where they occurred.
+ * Very long sibling lists are matched greedily instead.
+ */
+export const diffSpanTrees = (before: SpanNode[], after: SpanNode[], parentId = ''): SpanDiffNode[] => {
+    const pairs = before.length * after.length > MAX_LCS_CELLS
+        ? greedyCommonSubsequence(before, after, getAlignmentKey)
+        : longestCommonSubsequence(before, after, (a, b) => getAlignmentKey(a) === getAlignmentKey(b));
+    const nodes: SpanDiffNode[] = [];
+    let i = 0;
+    let j = 0;
+
+    const nextId = () => `${parentId}/${nodes.length}`;
+    const flushUnmatched = (untilBefore: number, untilAfter: number) => {
+        for (; i < untilBefore; i++) nodes.push(buildOneSided(before[i], 'removed', nextId()));
+        for (; j < untilAfter; j++) nodes.push(buildOneSided(after[j], 'added', nextId()));
+    };
+
+    pairs.forEach(([beforeIndex, afterIndex]) => {
+        flushUnmatched(beforeIndex, afterIndex);
+
+        const id = nextId();
+        const changes = getSpanChanges(before[i], after[j]);
+        const children = diffSpanTrees(before[i].children, after[j].children, id);
+        nodes.push({
+            id,
+            status: changes.length > 0 ? 'changed' : 'unchanged',
+            before: before[i],
+            after: after[j],
+            changes,
+            children,
+            hasChangesBelow: children.some(child => child.status !== 'unchanged' || child.hasChangesBelow)
+        });
+        i++;
+        j++;
+    });
+    flushUnmatched(before.length, after.length);
+
+    return nodes;
+};
+
+export const summarizeDiff = (roots: SpanDiffNode[]): DiffSummary => {
+    const summary: DiffSummary = { added: 0, removed: 0, changed: 0 };
+    const stack = [...roots];
+    while (stack.length > 0) {
+        const node = stack.pop()!;
+        if (node.status !== 'unchanged') summary[node.status]++;
+        stack.push(...node.children);
+    }
+    return summary;
+};
+
+/**
+ * Flattens the visible part of the aligned tree into rows, like
+ * flattenSpanTree. With `changesOnly`, unchanged spans with nothing changed
+ * below them are left out.
+ */
+export const flattenDiffTree = (roots: SpanDiffNode[], expanded: Set<string>, changesOnly: boolean): DiffRowLayout[] => {
+    const rows: DiffRowLayout[] = [];
+    const isVisible = (node: SpanDiffNode) => !changesOnly || node.status !== 'unchanged' || node.hasChangesBelow;
+    const stack: { node: SpanDiffNode; depth: number }[] = [];
+
+    for (let index = roots.length - 1; index >= 0; index--) {
+        if (isVisible(roots[index])) stack.push({ node: roots[index], depth: 0 });
+    }
+
+    while (stack.length > 0) {
+        const { node, depth } = stack.pop()!;
+        const isExpanded = expanded.has(node.id);
+        rows.push({ node, depth, isExpanded });
+
+        if (isExpanded) {
+            for (let index = node.children.length - 1; index >= 0; index--) {
+                if (isVisible(node.children[index])) stack.push({ node: node.children[index], depth: depth + 1 });
+            }
+        }
+    }
+
+    return rows;
+};
+
+// Ids of every node with changes below it, i.e. what to expand to show all
+// differences
+export const getChangedPathIds = (roots: SpanDiffNode[]): Set<string> => {
+    const ids = new Set<string>();
+    const stack = [...roots];
+    while (stack.length > 0) {
+        const node = stack.pop()!;
+        if (node.hasChangesBelow && node.status !== 'added' && node.status !== 'removed') {
+            ids.add(node.id);
+            stack.push(...node.children);
+        }
+    }
+    return ids;
+};
+
+/**
+ * Line diff of two values' pretty-printed JSON, for the input/output panes.
+ */
+export const diffJsonLines = (before: unknown, after: unknown): DiffLine[] => {
+    const beforeLines = before === undefined ? [] : toJson(before).split('\n');
+    const afterLines = after === undefined ? [] : toJson(after).split('\n');
+
+    if (beforeLines.length * afterLines.length > MAX_LCS_CELLS) {
+        return [
+            ...beforeLines.map(text => ({ type: 'removed' as const, text })),
+            ...afterLines.map(text => ({ type: 'added' as const, text }))
+        ];
+    }
+
+    const lines: DiffLine[] = [];
+    let i = 0;
+    let j = 0;
+    longestCommonSubsequence(beforeLines, afterLines, (a, b) => a === b).forEach(([beforeIndex, afterIndex]) => {
+        for (; i < beforeIndex; i++) lines.push({ type: 'removed', text: beforeLines[i] });
+        for (; j < afterIndex; j++) lines.push({ type: 'added', text: afterLines[j] });
+        lines.push({ type: 'same', text: beforeLines[i] });
+        i++;
+        j++;
+    });
+    for (; i < beforeLines.length; i++) lines.push({ type: 'removed', text: beforeLines[i] });
+    for (; j < afterLines.length; j++) lines.push({ type: 'added', text: afterLines[j] });
+
+    return lines;
+};
@@ -0,0 +1,264 @@
+import type { TraceData } from './api';
+import { redactSpans } from './redaction';
+import type { RedactionRule } from './redaction';
+import { getSpanDuration, getSpanStart, getTimelineBounds } from './spanLayout';
+import { getSpanModel, getSpanTokens } from './spans';
+import type { TraceSpan } from './spans';
+import { buildTranscript, getPayloadText } from './transcript';
+import { buildTree } from './traceTree';
+import type { SpanNode } from './traceTree';
+
+// Exports of a trace, or of one span's subtree, for sharing outside the app:
+// the .traj envelope the viewer can load again, a Markdown transcript for
+// issues and chat, and a static HTML report that needs nothing but a browser.
+
+export type ExportFormat = 'traj' | 'markdown' | 'html';
+export type ExportScope = 'trace' | 'selection';
+
+export interface ExportOptions {
+    format: ExportFormat;
+    scope: ExportScope;
+    redact: boolean;
+}
+
+// What is known about the trace besides its spans
+export type ExportTraceInfo = Partial<Omit<TraceData, 'spans'>>;
+
+export interface ExportFile {
+    fileName: string;
+    mimeType: string;
+    content: string;
+}
+
+const FILE_TYPES: Record<ExportFormat, { extension: string; mimeType: string }> = {
+    traj: { extension: 'traj', mimeType: 'application/json' },
+    markdown: { extension: 'md', mimeType: 'text/markdown' },
+    html: { extension: 'html', mimeType: 'text/html' }
+};
+
+const formatSeconds = (ms: number) => (ms >= 1000 ? `${(ms / 1000).toFixed(2)} s` : `${Math.round(ms)} ms`);
+
+const getSpanLabel = (span: TraceSpan) =>
+    span.span_data.type === 'handoff'
+        ? `Handoff → ${span.span_data.to_agent ?? 'unknown'}`
+        : span.span_data.name || span.span_data.type;
+
+/**
+ * The spans under `root` (or the whole trace) in tree order, without the
+ * tree's child links. An exported subtree's root becomes a root itself, or
+ * it would wait for a parent that never arrives when loaded again.
+ */
+export const getExportSpans = (roots: SpanNode[], root: SpanNode | null): TraceSpan[] => {
+    const spans: TraceSpan[] = [];
+    const stack = [...(root ? [root] : roots)].reverse();
+    while (stack.length > 0) {
+        const { children, ...span } = stack.pop()!;
+        spans.push(span.id === root?.id ? { ...span, parent_id: null } : span);
+        for (let i = children.length - 1; i >= 0; i--) {
+            stack.push(children[i]);
+        }
+    }
+    return spans;
+};
+
+const summarize = (spans: TraceSpan[]) => {
+    const roots = buildTree(spans).roots;
+    const bounds = getTimelineBounds(roots);
+    return {
+        roots,
+        bounds,
+        errors: spans.filter(span => span.error)
+    };
+};
+
+const buildTrajFile = (info: ExportTraceInfo, spans: TraceSpan[]) => {
+    const { bounds } = summarize(spans);
+    const data: TraceData = {
+        _id: info._id ?? info.trace_id ?? '',
+        trace_id: info.trace_id ?? spans[0]?.trace_id ?? '',
+        workflow_name: info.workflow_name ?? '',
+        group_id: info.group_id ?? null,
+        metadata: info.metadata ?? null,
+        isComplete: info.isComplete ?? true,
+        created_at: info.created_at ?? new Date(bounds.start).toISOString(),
+        updated_at: info.updated_at ?? new Date(bounds.start + bounds.duration).toISOString(),
+        spans
+    };
+    return JSON.stringify({ success: true, data }, null, 2);
+};
+
+// A code fence longer than any backtick run in the text, so it can't end early
+const fence = (text: string, language = '') => {
+    const longestRun = Math.max(2, ...(text.match(/`+/g) ?? []).map(run => run.length));
+    const marker = '`'.repeat(longestRun + 1);
+    return `${marker}${language}\n${text}\n${marker}`;
+};
+
+const quote = (text: string) => text.split('\n').map(line => `> ${line}`).join('\n');
+
+const buildMarkdown = (info: ExportTraceInfo, spans: TraceSpan[], subtreeRoot: SpanNode | null) => {
+    const { bounds, errors } = summarize(spans);
+    const lines: string[] = [
+        `# ${info.workflow_name || 'Trace'}`,
+        '',
+        `- Trace: \`${info.trace_id ?? spans[0]?.trace_id ?? 'unknown'}\``
+    ];
+    if (subtreeRoot) {
+        lines.push(`- Subtree: ${getSpanLabel(subtreeRoot)} (\`${subtreeRoot.id}\`)`);
+    }
+    lines.push(
+        `- Spans: ${spans.length}`,
+        `- Duration: ${formatSeconds(bounds.duration)}`,
+        `- Errors: ${errors.length}`,
+        '',
+        '## Transcript',
+        ''
+    );
+
+    buildTranscript(spans).forEach(entry => {
+        switch (entry.kind) {
+            case 'system':
+                lines.push(`**System** · ${entry.agent}`, '', quote(entry.content), '');
+                return;
+            case 'message':
+                lines.push(`**${entry.role === 'user' ? 'User' : 'Assistant'}**${entry.agent ? ` · ${entry.agent}` : ''}`, '', entry.content, '');
+                return;
+            case 'tool': {
+                lines.push(`**Tool** \`${entry.name}\`${entry.agent ? ` · ${entry.agent}` : ''}`, '');
+                const args = getPayloadText(entry.args);
+                if (args) lines.push(fence(args, 'json'), '');
+                const result = getPayloadText(entry.result);
+                if (result) lines.push('Result:', '', fence(result), '');
+                if (entry.error) lines.push(`**Error:** ${entry.error}`, '');
+                return;
+            }
+            case 'handoff':
+                lines.push(`**Handoff** ${entry.from ?? 'unknown'} → ${entry.to ?? 'unknown'}`, '');
+        }
+    });
+
+    if (errors.length > 0) {
+        lines.push('## Errors', '');
+        errors.forEach(span => lines.push(`- ${getSpanLabel(span)} (\`${span.id}\`): ${span.error?.message}`));
+        lines.push('');
+    }
+
+    return lines.join('\n');
+};
+
+const escapeHtml = (text: string) =>
+    text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+const HTML_STYLES = `
+body { margin: 0; padding: 24px; background: #1C1C1C; color: #E5E5E5; font: 14px/1.5 system-ui, sans-serif; }
+h1 { font-size: 18px; margin: 0 0 4px; }
+.meta { color: #9CA3AF; margin: 0 0 24px; }
+details { border-left: 1px solid #2A2A2A; margin-left: 12px; }
+summary { display: flex; align-items: center; gap: 8px; padding: 6px 8px; cursor: pointer; }
+summary:hover { background: #232323; }
+.type { font-size: 11px; text-transform: uppercase; color: #9CA3AF; background: #2A2A2A; border-radius: 4px; padding: 0 6px; }
+.name { flex: 1; min-width: 0; overflow: hidden; text-overflow: ellipsis; white-space: nowrap; }
+.duration { color: #9CA3AF; font-family: monospace; font-size: 12px; }
+.bar { width: 160px; height: 6px; background: #232323; border-radius: 3px; flex-shrink: 0; }
+.bar span { display: block; height: 100%; background: #3B82F6; border-radius: 3px; min-width: 2px; }
+.error > summary .bar span { background: #EF4444; }
+.error-badge { color: #F87171; font-size: 12px; }
+.body { padding: 4px 8px 8px 20px; }
+.body h3 { font-size: 12px; color: #9CA3AF; margin: 8px 0 4px; }
+.body .error-message { color: #FCA5A5; }
+pre { background: #232323; padding: 8px 12px; border-radius: 6px; white-space: pre-wrap; word-break: break-all; font-size: 12px; margin: 0; }
+`;
+
+const renderHtmlSpan = (span: SpanNode, bounds: { start: number; duration: number }): string => {
+    const duration = getSpanDuration(span);
+    const scale = bounds.duration || 1;
+    const offset = ((getSpanStart(span) - bounds.start) / scale) * 100;
+    const width = (duration / scale) * 100;
+    const { input, output } = span.span_data;
+    const model = getSpanModel(span);
+    const tokens = getSpanTokens(span);
+
+    const sections = [
+        span.error && `<h3>Error</h3><pre class="error-message">${escapeHtml(span.error.message)}${span.error.data ? `\n${escapeHtml(JSON.stringify(span.error.data, null, 2))}` : ''}</pre>`,
+        (model || tokens !== undefined) && `<h3>Model</h3><pre>${escapeHtml([model, tokens !== undefined ? `${tokens} tokens` : ''].filter(Boolean).join(' · '))}</pre>`,
+        input && `<h3>Input</h3><pre>${escapeHtml(JSON.stringify(input, null, 2))}</pre>`,
+        output && `<h3>Output</h3><pre>${escapeHtml(JSON.stringify(output, null, 2))}</pre>`
+    ].filter(Boolean).join('');
+
+    return `<details open${span.error ? ' class="error"' : ''}>` +
+        '<summary>' +
+        `<span class="type">${escapeHtml(span.span_data.type)}</span>` +
+        `<span class="name">${escapeHtml(getSpanLabel(span))}</span>` +
+        (span.error ? '<span class="error-badge">error</span>' : '') +
+        `<span class="duration">${formatSeconds(duration)}</span>` +
+        `<span class="bar"><span style="margin-left:${offset.toFixed(2)}%;width:${width.toFixed(2)}%"></span></span>` +
+        '</summary>' +
+        (sections ? `<div class="body">${sections}</div>` : '') +
+        span.children.map(child => renderHtmlSpan(child, bounds)).join('') +
+        '</details>';
+};
+
+const buildHtml = (info: ExportTraceInfo, spans: TraceSpan[]) => {
+    const { roots, bounds, errors } = summarize(spans);
+    const title = info.workflow_name || 'Trace';
+    const traceId = info.trace_id ?? spans[0]?.trace_id ?? '';
+    const meta = [traceId, `${spans.length} spans`, formatSeconds(bounds.duration), `${errors.length} errors`]
+        .filter(Boolean)
+        .map(escapeHtml)
+        .join(' · ');
+
+    return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<title>${escapeHtml(title)}</title>
+<style>${HTML_STYLES}</style>
+</head>
+<body>
+<h1>${escapeHtml(title)}</h1>
+<p class="meta">${meta}</p>
+${roots.map(root => renderHtmlSpan(root, bounds)).join('\n')}
+</body>
+</html>
+`;
+};
+
+/**
+ * Builds the export for the given options. `selected` is only used for the
+ * 'selection' scope, `rules` only when redacting.
+ */
+export const buildExport = (
+    options: ExportOptions,
+    info: ExportTraceInfo,
+    roots: SpanNode[],
+    selected: SpanNode | null,
+    rules?: RedactionRule[]
+): ExportFile => {
+    const subtreeRoot = options.scope === 'selection' ? selected : null;
+    const exported = getExportSpans(roots, subtreeRoot);
+    const spans = options.redact ? redactSpans(exported, rules) : exported;
+
+    const content =
+        options.format === 'traj' ? buildTrajFile(info, spans) :
+        options.format === 'markdown' ? buildMarkdown(info, spans, subtreeRoot) :
+        buildHtml(info, spans);
+
+    const { extension, mimeType } = FILE_TYPES[options.format];
+    const baseName = info.trace_id || spans[0]?.trace_id || 'trace';
+    return {
+        fileName: `${baseName}${subtreeRoot ? `-${subtreeRoot.id}` : ''}.${extension}`,
+        mimeType,
+        content
+    };
+};
+
+export const downloadFile = ({ fileName, mimeType, content }: ExportFile) => {
+    const url = URL.createObjectURL(new Blob([content], { type: mimeType }));
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = fileName;
+    link.click();
+    // Revoked after the click has been handled, or the download can fail
+    setTimeout(() => URL.revokeObjectURL(url), 0);
+};
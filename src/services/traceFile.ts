@@ -0,0 +1,157 @@
+import { parseTraceResponse } from './api';
+import type { TraceData } from './api';
+import { isOtlpTrace, parseOtlpTrace } from './otlp';
+import { parseSpans } from './spans';
+import type { SpanIssue, TraceSpan } from './spans';
+
+// Reading traces from local files. Accepted layouts:
+// - the API envelope, `{ "success": true, "data": { ..., "spans": [...] } }`
+//   (what the viewer has always saved as .traj), or its bare `data` object
+// - a JSON array of spans
+// - JSONL, one span per line. A span id may appear on several lines as it is
+//   updated; the last line wins. `"object": "trace"` lines carry trace info.
+// - OpenTelemetry OTLP JSON (see otlp.ts), as one document or one export per
+//   line like the collector's file exporter writes
+
+export type TraceFileFormat = 'envelope' | 'spans' | 'jsonl' | 'otlp';
+
+export interface TraceFile {
+    format: TraceFileFormat;
+    spans: TraceSpan[];
+    issues: SpanIssue[];
+    // Whatever the file says about the trace itself
+    traceId?: string;
+    workflowName?: string;
+}
+
+/**
+ * A file that can't be read as a trace; the message is meant for the user.
+ */
+export class TraceFileError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'TraceFileError';
+    }
+}
+
+type RawObject = Record<string, unknown>;
+
+const isObject = (value: unknown): value is RawObject =>
+    typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const errorMessage = (error: unknown) => (error instanceof Error ? error.message : String(error));
+
+const optionalString = (value: unknown) => (typeof value === 'string' && value ? value : undefined);
+
+const parseJsonLines = (text: string): unknown[] => {
+    const items: unknown[] = [];
+    text.split(/\r?\n/).forEach((line, index) => {
+        if (!line.trim()) return;
+        try {
+            items.push(JSON.parse(line));
+        } catch (error) {
+            throw new TraceFileError(`Line ${index + 1} is not valid JSON (${errorMessage(error)})`);
+        }
+    });
+    return items;
+};
+
+const fromEnvelope = (raw: unknown): TraceFile => {
+    const { data, issues } = parseTraceResponse(raw);
+    return {
+        format: 'envelope',
+        spans: data.spans ?? [],
+        issues,
+        traceId: optionalString(data.trace_id),
+        workflowName: optionalString(data.workflow_name)
+    };
+};
+
+const fromOtlp = (documents: unknown[]): TraceFile => {
+    const { spans, issues, traceId, serviceName } = parseOtlpTrace(...documents);
+    return { format: 'otlp', spans, issues, traceId, workflowName: serviceName };
+};
+
+const fromSpanStream = (items: unknown[]): TraceFile => {
+    if (items.length > 0 && items.every(isOtlpTrace)) {
+        return fromOtlp(items);
+    }
+
+    const traceRecord = items.find(item => isObject(item) && item.object === 'trace') as RawObject | undefined;
+    const { spans, issues } = parseSpans(items.filter(item => item !== traceRecord));
+
+    // Later versions of a span replace earlier ones but keep its position
+    const latest = new Map<string, TraceSpan>();
+    spans.forEach(span => latest.set(span.id, span));
+
+    return {
+        format: 'jsonl',
+        spans: [...latest.values()],
+        issues,
+        traceId: optionalString(traceRecord?.id) ?? spans.find(span => span.trace_id)?.trace_id,
+        workflowName: optionalString(traceRecord?.workflow_name)
+    };
+};
+
+const detectFormat = (text: string): TraceFile => {
+    let json: unknown;
+    try {
+        json = JSON.parse(text);
+    } catch (error) {
+        // Not a single JSON document; several lines means it may be JSONL
+        if (!text.includes('\n')) {
+            throw new TraceFileError(`The file is not valid JSON (${errorMessage(error)})`);
+        }
+        return fromSpanStream(parseJsonLines(text));
+    }
+
+    if (Array.isArray(json)) {
+        const { spans, issues } = parseSpans(json);
+        return {
+            format: 'spans',
+            spans,
+            issues,
+            traceId: spans.find(span => span.trace_id)?.trace_id
+        };
+    }
+    if (isOtlpTrace(json)) {
+        return fromOtlp([json]);
+    }
+    if (isObject(json) && isObject(json.data)) {
+        return fromEnvelope(json);
+    }
+    if (isObject(json) && Array.isArray(json.spans)) {
+        return fromEnvelope({ success: true, data: json as Partial<TraceData> });
+    }
+    if (isObject(json) && 'span_data' in json) {
+        // JSONL with a single line
+        return fromSpanStream([json]);
+    }
+
+    throw new TraceFileError(
+        'Unrecognized file contents. Expected a trace envelope ({ "data": { "spans": [...] } }), ' +
+        'a JSON array of spans, one span per line (JSONL), or OTLP JSON ({ "resourceSpans": [...] }).'
+    );
+};
+
+/**
+ * Reads a trace from the text of a local file, in any of the layouts above.
+ * Throws TraceFileError when the file is unusable: not JSON, an unknown
+ * layout, or no span in it could be read.
+ */
+export const parseTraceFile = (text: string): TraceFile => {
+    const trimmed = text.trim();
+    if (!trimmed) {
+        throw new TraceFileError('The file is empty.');
+    }
+
+    const file = detectFormat(trimmed);
+    if (file.spans.length === 0) {
+        const firstError = file.issues.find(issue => issue.severity === 'error');
+        throw new TraceFileError(firstError
+            ? `None of the spans could be read. First problem: ${firstError.path}: ${firstError.message}.`
+            : 'The file contains no spans.');
+    }
+
+    return file;
+};
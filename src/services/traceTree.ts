@@ -0,0 +1,120 @@
+import type { TraceSpan } from './spans';
+
+export type SpanNode = TraceSpan & { children: SpanNode[] };
+
+export interface TraceTree {
+    roots: SpanNode[];
+    nodes: Map<string, SpanNode>;
+    spans: Map<string, TraceSpan>;
+    // Child ids per parent id in arrival order; `null` holds the roots. Spans
+    // whose parent hasn't arrived yet wait here until it does.
+    childIds: Map<string | null, string[]>;
+}
+
+export interface MergeResult {
+    tree: TraceTree;
+    added: string[];
+    changed: string[];
+}
+
+export const emptyTree: TraceTree = {
+    roots: [],
+    nodes: new Map(),
+    spans: new Map(),
+    childIds: new Map()
+};
+
+const isSameSpan = (a: TraceSpan, b: TraceSpan) =>
+    a === b || JSON.stringify(a) === JSON.stringify(b);
+
+const removeChildId = (childIds: Map<string | null, string[]>, parentId: string | null, id: string) => {
+    const siblings = childIds.get(parentId);
+    if (siblings) {
+        childIds.set(parentId, siblings.filter(siblingId => siblingId !== id));
+    }
+};
+
+const appendChildId = (childIds: Map<string | null, string[]>, parentId: string | null, id: string) => {
+    childIds.set(parentId, [...(childIds.get(parentId) || []), id]);
+};
+
+/**
+ * Merges new or updated spans into an existing tree. Unchanged spans are
+ * skipped, and only the changed spans and their ancestors get new node
+ * objects, so untouched subtrees keep their identity between updates.
+ */
+export const mergeSpans = (tree: TraceTree, incoming: TraceSpan[]): MergeResult => {
+    const spans = new Map(tree.spans);
+    const childIds = new Map(tree.childIds);
+    const dirty = new Set<string>();
+    const added: string[] = [];
+    const changed: string[] = [];
+
+    incoming.forEach(span => {
+        const previous = spans.get(span.id);
+        if (previous && isSameSpan(previous, span)) return;
+
+        if (!previous) {
+            added.push(span.id);
+            appendChildId(childIds, span.parent_id || null, span.id);
+        } else {
+            changed.push(span.id);
+            if (previous.parent_id !== span.parent_id) {
+                removeChildId(childIds, previous.parent_id || null, span.id);
+                appendChildId(childIds, span.parent_id || null, span.id);
+                // The old parent lost a child, so it needs rebuilding too
+                if (previous.parent_id) dirty.add(previous.parent_id);
+            }
+        }
+
+        spans.set(span.id, span);
+        dirty.add(span.id);
+    });
+
+    if (dirty.size === 0) {
+        return { tree, added, changed };
+    }
+
+    // Every ancestor of a dirty span needs a new node for its children array
+    [...dirty].forEach(id => {
+        let parentId = spans.get(id)?.parent_id;
+        while (parentId && !dirty.has(parentId)) {
+            dirty.add(parentId);
+            parentId = spans.get(parentId)?.parent_id;
+        }
+    });
+
+    const nodes = new Map(tree.nodes);
+    const build = (id: string): SpanNode => {
+        const existing = tree.nodes.get(id);
+        if (existing && !dirty.has(id)) return existing;
+
+        const node: SpanNode = {
+            ...spans.get(id)!,
+            children: (childIds.get(id) || []).map(build)
+        };
+        nodes.set(id, node);
+        return node;
+    };
+
+    const roots = (childIds.get(null) || []).map(build);
+
+    return {
+        tree: { roots, nodes, spans, childIds },
+        added,
+        changed
+    };
+};
+
+export const buildTree = (spans: TraceSpan[]): TraceTree => mergeSpans(emptyTree, spans).tree;
+
+// Ids of the span's ancestors, nearest first
+export const getAncestorIds = (tree: TraceTree, spanId: string): string[] => {
+    const ancestors: string[] = [];
+    let parentId = tree.spans.get(spanId)?.parent_id;
+    while (parentId && !ancestors.includes(parentId)) {
+        ancestors.push(parentId);
+        parentId = tree.spans.get(parentId)?.parent_id;
+    }
+    return ancestors;
+};
@@ -0,0 +1,193 @@
+import { getSpanInstructions } from './spans';
+import type { SpanMessage, TraceSpan } from './spans';
+import type { SpanNode } from './traceTree';
+
+// A run rebuilt as a chat: what each agent was told, what was said, which
+// tools ran with what result, and where control passed between agents.
+export type TranscriptEntry =
+    | { kind: 'system'; spanId: string; agent: string; content: string }
+    | { kind: 'message'; spanId: string; agent: string | null; role: 'user' | 'assistant'; content: string }
+    | { kind: 'tool'; spanId: string; agent: string | null; name: string; args: unknown; result: unknown; error: string | null }
+    | { kind: 'handoff'; spanId: string; from: string | null; to: string | null };
+
+/**
+ * Spans that come before the given one in tree order (depth first, each
+ * parent before its children), i.e. everything leading up to it. Without a
+ * span that's the whole trace.
+ */
+export const getSpansBefore = (span: TraceSpan | null, roots: SpanNode[]): TraceSpan[] => {
+    const result: TraceSpan[] = [];
+    const stack = [...roots].reverse();
+    while (stack.length > 0) {
+        const current = stack.pop()!;
+        if (current.id === span?.id) break;
+        result.push(current);
+        for (let i = current.children.length - 1; i >= 0; i--) {
+            stack.push(current.children[i]);
+        }
+    }
+    return result;
+};
+
+// Message content is either plain text or a list of parts ({ text } or
+// { type: 'text', text }); anything else is shown as JSON.
+export const getMessageText = (content: unknown): string => {
+    if (typeof content === 'string') return content;
+    if (Array.isArray(content)) {
+        const parts = content.map(part =>
+            typeof part === 'string' ? part :
+            part && typeof part === 'object' && typeof (part as { text?: unknown }).text === 'string'
+                ? (part as { text: string }).text
+                : null);
+        if (parts.every(part => part !== null)) return parts.join('\n');
+    }
+    return content === undefined || content === null ? '' : JSON.stringify(content, null, 2);
+};
+
+const toRole = (message: SpanMessage): 'user' | 'assistant' | 'system' | null => {
+    switch (message.role) {
+        case 'user':
+        case 'assistant':
+        case 'system':
+            return message.role;
+        case 'developer':
+            return 'system';
+        default:
+            return null;
+    }
+};
+
+/**
+ * Rebuilds the conversation from spans in tree order (see getSpansBefore).
+ * Each agent's system instructions appear once, at its first turn. LLM inputs
+ * repeat the whole conversation so far, so a message is only added the first
+ * time it is seen. Function spans become tool calls paired with their result.
+ */
+export const buildTranscript = (spans: TraceSpan[]): TranscriptEntry[] => {
+    const entries: TranscriptEntry[] = [];
+    const seenAgents = new Set<string>();
+    const seenMessages = new Set<string>();
+    // Nearest enclosing agent per span; parents always come before children
+    const agentBySpan = new Map<string, string | null>();
+
+    const addMessages = (span: TraceSpan, messages: SpanMessage[] | undefined, agent: string | null, defaultRole: 'user' | 'assistant') => {
+        messages?.forEach(message => {
+            const role = toRole(message) ?? defaultRole;
+            // System prompts are covered by the agent's system entry
+            if (role === 'system') return;
+
+            const content = getMessageText(message.content);
+            const key = `${role}:${content}`;
+            if (!content || seenMessages.has(key)) return;
+            seenMessages.add(key);
+            entries.push({ kind: 'message', spanId: span.id, agent, role, content });
+        });
+    };
+
+    spans.forEach(span => {
+        const parentAgent = span.parent_id ? agentBySpan.get(span.parent_id) ?? null : null;
+        const data = span.span_data;
+
+        switch (data.type) {
+            case 'agent': {
+                agentBySpan.set(span.id, data.name);
+                if (!seenAgents.has(data.name)) {
+                    seenAgents.add(data.name);
+                    const instructions = getSpanInstructions(span);
+                    if (instructions) {
+                        entries.push({ kind: 'system', spanId: span.id, agent: data.name, content: instructions });
+                    }
+                }
+                // The first input message holds the instructions and settings
+                addMessages(span, data.input?.slice(1), data.name, 'user');
+                addMessages(span, data.output, data.name, 'assistant');
+                return;
+            }
+            case 'generation':
+            case 'response':
+                agentBySpan.set(span.id, parentAgent);
+                addMessages(span, data.input, parentAgent, 'user');
+                addMessages(span, data.output, parentAgent, 'assistant');
+                return;
+            case 'function':
+                agentBySpan.set(span.id, parentAgent);
+                entries.push({
+                    kind: 'tool',
+                    spanId: span.id,
+                    agent: parentAgent,
+                    name: data.name || 'function',
+                    args: data.input,
+                    result: data.output,
+                    error: span.error?.message ?? null
+                });
+                return;
+            case 'handoff':
+                agentBySpan.set(span.id, parentAgent);
+                entries.push({ kind: 'handoff', spanId: span.id, from: data.from_agent ?? parentAgent, to: data.to_agent ?? null });
+                return;
+            default:
+                agentBySpan.set(span.id, parentAgent);
+        }
+    });
+
+    return entries;
+};
+
+/**
+ * Readable text for a tool call's arguments or result. These are recorded as
+ * message lists too; their content is shown when there is any, otherwise
+ * the raw JSON.
+ */
+export const getPayloadText = (payload: unknown): string => {
+    if (Array.isArray(payload) && payload.length > 0 &&
+        payload.every(item => item && typeof item === 'object' && 'content' in item)) {
+        return payload.map(item => getMessageText((item as SpanMessage).content)).join('\n');
+    }
+    if (Array.isArray(payload) && payload.length === 1) {
+        return JSON.stringify(payload[0], null, 2);
+    }
+    return payload === undefined || payload === null ? '' : JSON.stringify(payload, null, 2);
+};
+
+export interface CommandResult {
+    stdout: string;
+    stderr: string;
+    exitCode: number | null;
+}
+
+const EXIT_CODE_KEYS = ['exit_code', 'exitCode', 'returncode', 'return_code', 'status_code'];
+
+const toCommandResult = (value: unknown): CommandResult | null => {
+    if (typeof value === 'string') {
+        try {
+            return toCommandResult(JSON.parse(value));
+        } catch {
+            return null;
+        }
+    }
+    if (!value || typeof value !== 'object' || Array.isArray(value)) return null;
+
+    const record = value as Record<string, unknown>;
+    const exitKey = EXIT_CODE_KEYS.find(key => key in record);
+    if (!('stdout' in record) && !('stderr' in record) && !exitKey) {
+        // Tool outputs are usually wrapped in a message
+        return 'content' in record ? toCommandResult(record.content) : null;
+    }
+
+    const exitCode = exitKey ? Number(record[exitKey]) : NaN;
+    return {
+        stdout: typeof record.stdout === 'string' ? record.stdout : getMessageText(record.stdout),
+        stderr: typeof record.stderr === 'string' ? record.stderr : getMessageText(record.stderr),
+        exitCode: Number.isFinite(exitCode) ? exitCode : null
+    };
+};
+
+/**
+ * The stdout/stderr/exit code of a command-running tool (execute_command and
+ * the like), if its result has that shape, either directly or as JSON inside
+ * a result message.
+ */
+export const getCommandResult = (payload: unknown): CommandResult | null =>
+    Array.isArray(payload)
+        ? payload.length === 1 ? toCommandResult(payload[0]) : null
+        : toCommandResult(payload);
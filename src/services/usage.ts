@@ -0,0 +1,214 @@
+import { getSpanModel, getSpanTokens } from './spans';
+import type { TraceSpan, TokenUsage } from './spans';
+import type { SpanNode } from './traceTree';
+
+// USD per million tokens. A price applies to the model named `model` and to
+// its dated snapshots, so "gpt-4o" also covers "gpt-4o-2024-08-06" but not
+// "gpt-4o-mini", and "o3" doesn't cover "o3-mini".
+export interface ModelPrice {
+    model: string;
+    inputPerMillion: number;
+    outputPerMillion: number;
+}
+
+// Published list prices at the time of writing; users can edit their own copy
+export const DEFAULT_MODEL_PRICES: ModelPrice[] = [
+    { model: 'gpt-4.1', inputPerMillion: 2, outputPerMillion: 8 },
+    { model: 'gpt-4.1-mini', inputPerMillion: 0.4, outputPerMillion: 1.6 },
+    { model: 'gpt-4.1-nano', inputPerMillion: 0.1, outputPerMillion: 0.4 },
+    { model: 'gpt-4o', inputPerMillion: 2.5, outputPerMillion: 10 },
+    { model: 'gpt-4o-mini', inputPerMillion: 0.15, outputPerMillion: 0.6 },
+    { model: 'o3', inputPerMillion: 2, outputPerMillion: 8 },
+    { model: 'o4-mini', inputPerMillion: 1.1, outputPerMillion: 4.4 }
+];
+
+export interface UsageTotals {
+    inputTokens: number;
+    outputTokens: number;
+    totalTokens: number;
+    cost: number;
+    // Tokens from spans whose model has no price, so `cost` undercounts
+    unpricedTokens: number;
+}
+
+export interface UsageGroup extends UsageTotals {
+    key: string;
+    // Spans that reported usage (or, per tool, times the tool was called)
+    count: number;
+}
+
+export interface SpanUsage {
+    span: TraceSpan;
+    model: string | null;
+    agent: string | null;
+    tool: string | null;
+    inputTokens: number;
+    outputTokens: number;
+    totalTokens: number;
+    cost: number | null;
+}
+
+export interface UsageSummary {
+    totals: UsageTotals;
+    byModel: UsageGroup[];
+    byAgent: UsageGroup[];
+    byTool: UsageGroup[];
+    // Most expensive spans first (by tokens where there's no price)
+    topSpans: SpanUsage[];
+}
+
+const TOP_SPANS_LIMIT = 10;
+
+const emptyTotals = (): UsageTotals => ({ inputTokens: 0, outputTokens: 0, totalTokens: 0, cost: 0, unpricedTokens: 0 });
+
+// What follows a model name in a snapshot of it: a date or version number
+const SNAPSHOT_SUFFIX = /^-\d/;
+
+const isModelOrSnapshot = (name: string, model: string) =>
+    name === model || (name.startsWith(model) && SNAPSHOT_SUFFIX.test(name.slice(model.length)));
+
+export const findModelPrice = (model: string | null, prices: ModelPrice[]): ModelPrice | null => {
+    if (!model) return null;
+    const name = model.toLowerCase();
+    let best: ModelPrice | null = null;
+    prices.forEach(price => {
+        const priced = price.model.toLowerCase();
+        if (priced && isModelOrSnapshot(name, priced) && (!best || priced.length > best.model.length)) {
+            best = price;
+        }
+    });
+    return best;
+};
+
+const getTokenUsage = (span: TraceSpan): TokenUsage | undefined =>
+    span.span_data.type === 'generation' || span.span_data.type === 'response' ? span.span_data.usage : undefined;
+
+/**
+ * Token counts for one span. Only the total is known for spans that record
+ * it as `input[0].tokens`; those count as prompt tokens when pricing.
+ */
+export const getSpanTokenSplit = (span: TraceSpan) => {
+    const usage = getTokenUsage(span);
+    const totalTokens = getSpanTokens(span) ?? 0;
+    const outputTokens = usage?.output_tokens ?? 0;
+    const inputTokens = usage?.input_tokens ?? totalTokens - outputTokens;
+    return { inputTokens, outputTokens, totalTokens };
+};
+
+export const estimateCost = (inputTokens: number, outputTokens: number, price: ModelPrice | null) =>
+    price ? (inputTokens * price.inputPerMillion + outputTokens * price.outputPerMillion) / 1_000_000 : null;
+
+const addUsage = (totals: UsageTotals, usage: SpanUsage) => {
+    totals.inputTokens += usage.inputTokens;
+    totals.outputTokens += usage.outputTokens;
+    totals.totalTokens += usage.totalTokens;
+    if (usage.cost === null) {
+        totals.unpricedTokens += usage.totalTokens;
+    } else {
+        totals.cost += usage.cost;
+    }
+};
+
+const sortGroups = (groups: Map<string, UsageGroup>) =>
+    [...groups.values()].sort((a, b) => b.cost - a.cost || b.totalTokens - a.totalTokens);
+
+/**
+ * Aggregates token usage and estimated cost over a trace, per model, per
+ * agent (nearest enclosing agent span) and per tool (nearest enclosing
+ * function span, e.g. an agent used as a tool).
+ *
+ * Older traces record tokens on agent spans as well as on the LLM calls
+ * inside them; a span's own count is only used when nothing below it
+ * reports tokens, so nothing is counted twice.
+ */
+export const summarizeUsage = (roots: SpanNode[], prices: ModelPrice[]): UsageSummary => {
+    const totals = emptyTotals();
+    const byModel = new Map<string, UsageGroup>();
+    const byAgent = new Map<string, UsageGroup>();
+    const byTool = new Map<string, UsageGroup>();
+    const spanUsages: SpanUsage[] = [];
+
+    const group = (groups: Map<string, UsageGroup>, key: string) => {
+        let entry = groups.get(key);
+        if (!entry) {
+            entry = { key, count: 0, ...emptyTotals() };
+            groups.set(key, entry);
+        }
+        return entry;
+    };
+
+    // Returns whether the span or anything below it reported tokens
+    const visit = (span: SpanNode, agent: string | null, tool: string | null, model: string | null): boolean => {
+        const data = span.span_data;
+        const spanAgent = data.type === 'agent' ? data.name : agent;
+        const spanTool = data.type === 'function' ? data.name : tool;
+        // Agent spans name the model their LLM calls use
+        const spanModel = getSpanModel(span) ?? model;
+
+        if (data.type === 'function') group(byTool, data.name).count++;
+
+        let reportedBelow = false;
+        span.children.forEach(child => {
+            if (visit(child, spanAgent, spanTool, spanModel)) reportedBelow = true;
+        });
+        if (reportedBelow) return true;
+
+        const { inputTokens, outputTokens, totalTokens } = getSpanTokenSplit(span);
+        if (totalTokens === 0) return false;
+
+        const usage: SpanUsage = {
+            span,
+            model: spanModel,
+            agent: spanAgent,
+            tool: spanTool,
+            inputTokens,
+            outputTokens,
+            totalTokens,
+            cost: estimateCost(inputTokens, outputTokens, findModelPrice(spanModel, prices))
+        };
+        spanUsages.push(usage);
+        addUsage(totals, usage);
+
+        const modelGroup = group(byModel, spanModel ?? 'Unknown model');
+        modelGroup.count++;
+        addUsage(modelGroup, usage);
+        if (spanAgent) {
+            const agentGroup = group(byAgent, spanAgent);
+            agentGroup.count++;
+            addUsage(agentGroup, usage);
+        }
+        // The tool's count is its number of calls, tallied above
+        if (spanTool) addUsage(group(byTool, spanTool), usage);
+        return true;
+    };
+
+    roots.forEach(root => visit(root, null, null, null));
+
+    return {
+        totals,
+        byModel: sortGroups(byModel),
+        byAgent: sortGroups(byAgent),
+        byTool: sortGroups(byTool),
+        topSpans: spanUsages
+            .sort((a, b) => (b.cost ?? 0) - (a.cost ?? 0) || b.totalTokens - a.totalTokens)
+            .slice(0, TOP_SPANS_LIMIT)
+    };
+};
+
+/**
+ * Cost of a trace from its per-model token counts, as included in the trace
+ * list. Returns null when none of the models have a price.
+ */
+export const estimateTraceCost = (byModel: Record<string, TokenUsage>, prices: ModelPrice[]): number | null => {
+    let cost: number | null = null;
+    Object.entries(byModel).forEach(([model, usage]) => {
+        const output = usage.output_tokens ?? 0;
+        const input = usage.input_tokens ?? (usage.total_tokens ?? 0) - output;
+        const modelCost = estimateCost(input, output, findModelPrice(model, prices));
+        if (modelCost !== null) cost = (cost ?? 0) + modelCost;
+    });
+    return cost;
+};
+
+export const formatCost = (cost: number) =>
+    cost === 0 ? '$0' : cost < 0.01 ? `$${cost.toFixed(4)}` : `$${cost.toFixed(2)}`;
@@ -0,0 +1,120 @@
+import { DEFAULT_SPAN_FILTERS, isFilterActive, SPAN_CATEGORIES } from './spanFilters';
+import type { SpanCategory, SpanFilterSettings } from './spanFilters';
+import type { SpanNode } from './traceTree';
+
+// The trace viewer's state as query parameters, so a copied URL opens the
+// same view: which span is selected, what is collapsed, the detail tab and
+// sections, search, filters and the split between the panes. Everything is
+// optional; a plain /trace/:traceId link opens the default view.
+
+export interface ViewLinkState {
+    spanId: string | null;
+    // Collapsed spans, outermost only (see getLinkedCollapsed); the rest
+    // start expanded
+    collapsed: string[];
+    // Detail sections that are closed; the rest start open
+    closedSections: string[];
+    tab: string | null;
+    search: string;
+    // null when the link doesn't set filters, so the user's own apply
+    filters: SpanFilterSettings | null;
+    // Width of the span tree in percent
+    split: number | null;
+}
+
+const PARAMS = {
+    spanId: 'span',
+    collapsed: 'collapsed',
+    closedSections: 'closed',
+    tab: 'tab',
+    search: 'q',
+    hiddenCategories: 'hide',
+    errorsOnly: 'errors',
+    minDurationMs: 'min_ms',
+    split: 'split'
+};
+
+export const DEFAULT_SPLIT_POSITION = 70;
+
+// Past this many collapsed spans the link leaves them out and opens
+// everything expanded, rather than growing without bound
+const MAX_LINKED_COLLAPSED = 50;
+
+/**
+ * The collapsed spans worth putting in a link: spans start out expanded, so
+ * only those with children that are collapsed count, and spans inside a
+ * collapsed one are left out since they're hidden anyway. After "collapse
+ * all" that is just the roots.
+ */
+export const getLinkedCollapsed = (roots: SpanNode[], expandedSpans: Set<string>): string[] => {
+    const collapsed: string[] = [];
+    const stack = [...roots];
+    while (stack.length > 0) {
+        const node = stack.pop()!;
+        if (node.children.length === 0) continue;
+        if (expandedSpans.has(node.id)) {
+            stack.push(...node.children);
+        } else {
+            collapsed.push(node.id);
+        }
+    }
+    return collapsed;
+};
+
+const readList = (params: URLSearchParams, name: string) =>
+    (params.get(name) ?? '').split(',').filter(Boolean);
+
+const readFilters = (params: URLSearchParams): SpanFilterSettings | null => {
+    if (![PARAMS.hiddenCategories, PARAMS.errorsOnly, PARAMS.minDurationMs].some(name => params.has(name))) {
+        return null;
+    }
+    const categories = SPAN_CATEGORIES.map(({ category }) => category);
+    const minDurationMs = Number(params.get(PARAMS.minDurationMs));
+    return {
+        hiddenCategories: readList(params, PARAMS.hiddenCategories)
+            .filter((category): category is SpanCategory => categories.includes(category as SpanCategory)),
+        errorsOnly: params.get(PARAMS.errorsOnly) === '1',
+        minDurationMs: Number.isFinite(minDurationMs) && minDurationMs > 0 ? minDurationMs : DEFAULT_SPAN_FILTERS.minDurationMs
+    };
+};
+
+export const readViewLink = (params: URLSearchParams): ViewLinkState => {
+    const split = Number(params.get(PARAMS.split));
+    return {
+        spanId: params.get(PARAMS.spanId) || null,
+        collapsed: readList(params, PARAMS.collapsed),
+        closedSections: readList(params, PARAMS.closedSections),
+        tab: params.get(PARAMS.tab),
+        search: params.get(PARAMS.search) ?? '',
+        filters: readFilters(params),
+        // Same bounds as dragging the divider
+        split: params.has(PARAMS.split) && split >= 30 && split <= 85 ? split : null
+    };
+};
+
+/**
+ * The given params with the view state written over them. Defaults are left
+ * out to keep links short; unrelated params are kept.
+ */
+export const writeViewLink = (params: URLSearchParams, state: ViewLinkState): URLSearchParams => {
+    const next = new URLSearchParams(params);
+    const set = (name: string, value: string | null) => {
+        if (value) {
+            next.set(name, value);
+        } else {
+            next.delete(name);
+        }
+    };
+    const filters = state.filters && isFilterActive(state.filters) ? state.filters : null;
+
+    set(PARAMS.spanId, state.spanId);
+    set(PARAMS.collapsed, state.collapsed.length <= MAX_LINKED_COLLAPSED ? state.collapsed.join(',') : null);
+    set(PARAMS.closedSections, state.closedSections.join(','));
+    set(PARAMS.tab, state.tab);
+    set(PARAMS.search, state.search);
+    set(PARAMS.hiddenCategories, filters ? filters.hiddenCategories.join(',') : null);
+    set(PARAMS.errorsOnly, filters?.errorsOnly ? '1' : null);
+    set(PARAMS.minDurationMs, filters && filters.minDurationMs > 0 ? String(filters.minDurationMs) : null);
+    set(PARAMS.split, state.split !== null && state.split !== DEFAULT_SPLIT_POSITION ? String(Math.round(state.split)) : null);
+    return next;
+};
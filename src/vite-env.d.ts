@@ -1 +1,14 @@
 /// <reference types="vite/client" />
+
+interface ImportMetaEnv {
+  readonly VITE_API_BASE_URL: string;
+  // "true" works offline: sign-in accepts any credentials and the workflow
+  // dashboard serves generated data
+  readonly VITE_USE_MOCK_API?: string;
+  // OpenTelemetry query endpoint for /otlp/:traceId, with a {traceId} placeholder
+  readonly VITE_OTLP_TRACE_URL?: string;
+}
+
+interface ImportMeta {
+  readonly env: ImportMetaEnv;
+}